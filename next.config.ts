@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Native and WebAssembly dependencies of the resume parser (pdf.js canvas
+  // rendering, Tesseract OCR) must be loaded from node_modules at runtime
+  serverExternalPackages: ["pdf-parse", "pdfjs-dist", "@napi-rs/canvas", "tesseract.js"],
 };
 
 export default nextConfig;
@@ -0,0 +1,48 @@
+// scripts/replay-webhook.mjs
+// Sends a recorded ElevenLabs webhook payload to the local server, signed
+// with ELEVENLABS_WEBHOOK_SECRET the way ElevenLabs signs it
+//
+// Usage: node scripts/replay-webhook.mjs <fixture.json> [--interview <id>] [--url <webhook url>]
+import crypto from 'crypto';
+import fs from 'fs';
+
+const args = process.argv.slice(2);
+const option = (name) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const fixture = args.find((arg, index) => !arg.startsWith('--') && !args[index - 1]?.startsWith('--'));
+const url = option('url') || 'http://localhost:3000/api/webhooks/elevenlabs';
+const interviewId = option('interview');
+const secret = process.env.ELEVENLABS_WEBHOOK_SECRET;
+
+if (!fixture || !secret) {
+  console.error('Usage: ELEVENLABS_WEBHOOK_SECRET=... node scripts/replay-webhook.mjs <fixture.json> [--interview <id>] [--url <webhook url>]');
+  process.exit(1);
+}
+
+const payload = JSON.parse(fs.readFileSync(fixture, 'utf8'));
+
+// Point the payload at a real session created by /api/start-interview
+if (interviewId) {
+  payload.data.conversation_initiation_client_data ??= {};
+  payload.data.conversation_initiation_client_data.dynamic_variables ??= {};
+  payload.data.conversation_initiation_client_data.dynamic_variables.interview_id = interviewId;
+}
+
+const body = JSON.stringify(payload);
+const timestamp = Math.floor(Date.now() / 1000);
+const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+const response = await fetch(url, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'ElevenLabs-Signature': `t=${timestamp},v0=${signature}`,
+  },
+  body,
+});
+
+console.log(response.status, await response.text());
+process.exit(response.ok ? 0 : 1);
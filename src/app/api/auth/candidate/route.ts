@@ -0,0 +1,56 @@
+// app/api/auth/candidate/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { getCandidateAccessMode } from '@/app/lib/accessControl';
+import { createSession, getAuthSecret, readSession, setSessionCookie } from '@/app/lib/session';
+
+const MAX_NAME_LENGTH = 200;
+
+/**
+ * POST /api/auth/candidate
+ * Starts a candidate session when `CANDIDATE_ACCESS=open`. The session can
+ * only reach the resumes it uploads and the interviews it starts.
+ * Body: `{ name? }`
+ */
+export async function POST(request: NextRequest) {
+  if (!getAuthSecret()) {
+    return NextResponse.json(
+      { success: false, code: 'AUTH_NOT_CONFIGURED', error: 'AUTH_SECRET is not configured' },
+      { status: 503 }
+    );
+  }
+
+  if (getCandidateAccessMode() !== 'open') {
+    return NextResponse.json(
+      { success: false, code: 'INVITATION_REQUIRED', error: 'Interviews are by invitation only' },
+      { status: 403 }
+    );
+  }
+
+  // An existing session keeps its scope
+  const existing = await readSession(request);
+  if (existing) {
+    return NextResponse.json({ success: true, session: { name: existing.name, role: existing.role } });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const name = typeof body?.name === 'string' && body.name.trim()
+    ? body.name.trim().slice(0, MAX_NAME_LENGTH)
+    : 'Candidate';
+
+  const session = createSession({
+    sub: `candidate_${uuidv4()}`,
+    role: 'candidate',
+    name,
+    provider: 'candidate',
+    fileIds: [],
+    interviewIds: [],
+  });
+
+  const response = NextResponse.json({ success: true, session: { name: session.name, role: session.role } });
+  setSessionCookie(response, session);
+  return response;
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,82 @@
+// app/api/auth/invitation/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { InvitationDetails, resolveInvitationToken } from '@/app/lib/invitations';
+import { getTemplate } from '@/app/lib/interviewTemplates';
+import { getResumeStore } from '@/app/lib/resumeStore';
+import { createSession, getAuthSecret, isStaff, readSession, setSessionCookie } from '@/app/lib/session';
+
+/**
+ * POST /api/auth/invitation
+ * Opens an invitation link: returns what the invitation fixes (name,
+ * template, resume) and starts a candidate session bound to it. Staff
+ * sessions are kept so recruiters can preview their links.
+ * Body: `{ token }`
+ */
+export async function POST(request: NextRequest) {
+  if (!getAuthSecret()) {
+    return NextResponse.json(
+      { success: false, code: 'AUTH_NOT_CONFIGURED', error: 'AUTH_SECRET is not configured' },
+      { status: 503 }
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+  if (typeof body?.token !== 'string' || !body.token) {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_INPUT', error: 'token is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { invitation, problem } = await resolveInvitationToken(body.token);
+    if (!invitation) {
+      return NextResponse.json(
+        { success: false, code: problem.code, error: problem.error },
+        { status: problem.code === 'INVITATION_INVALID' ? 401 : 410 }
+      );
+    }
+
+    const template = getTemplate(invitation.templateId, invitation.templateVersion);
+    const metadata = invitation.fileId ? await getResumeStore().getMetadata(invitation.fileId) : null;
+
+    const details: InvitationDetails = {
+      id: invitation.id,
+      candidateName: invitation.candidateName,
+      template: {
+        id: invitation.templateId,
+        version: invitation.templateVersion,
+        name: template?.name ?? invitation.templateId,
+      },
+      resume: metadata ? { fileId: metadata.fileId, originalName: metadata.originalName } : undefined,
+      expiresAt: invitation.expiresAt,
+    };
+
+    const response = NextResponse.json({ success: true, invitation: details });
+
+    const existing = await readSession(request);
+    if (!isStaff(existing) && existing?.invitationId !== invitation.id) {
+      setSessionCookie(response, createSession({
+        sub: `candidate_${uuidv4()}`,
+        role: 'candidate',
+        name: invitation.candidateName,
+        provider: 'candidate',
+        fileIds: metadata ? [metadata.fileId] : [],
+        interviewIds: [],
+        invitationId: invitation.id,
+      }));
+    }
+
+    return response;
+  } catch (error) {
+    console.error('Invitation open error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to open invitation' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,66 @@
+// app/api/auth/login/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/app/lib/users';
+import { createSession, getAuthSecret, setSessionCookie } from '@/app/lib/session';
+
+/**
+ * POST /api/auth/login
+ * Signs in with the local credential store. Body: `{ email, password }`
+ */
+export async function POST(request: NextRequest) {
+  if (!getAuthSecret()) {
+    return NextResponse.json(
+      { success: false, code: 'AUTH_NOT_CONFIGURED', error: 'AUTH_SECRET is not configured' },
+      { status: 503 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_JSON', error: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  const { email, password } = (body ?? {}) as Record<string, unknown>;
+  if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_INPUT', error: 'email and password are required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const user = await authenticate(email, password);
+    if (!user) {
+      console.warn(`Failed login for ${email.trim().toLowerCase()}`);
+      return NextResponse.json(
+        { success: false, code: 'INVALID_CREDENTIALS', error: 'Invalid email or password' },
+        { status: 401 }
+      );
+    }
+
+    const session = createSession({
+      sub: user.id,
+      role: user.role,
+      name: user.name,
+      provider: 'local',
+      version: user.sessionVersion ?? 0,
+    });
+    const response = NextResponse.json({ success: true, user: { name: user.name, role: user.role } });
+    setSessionCookie(response, session);
+    return response;
+  } catch (error) {
+    console.error('Login error:', error);
+    return NextResponse.json(
+      { success: false, code: 'LOGIN_FAILED', error: 'Login failed' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,15 @@
+// app/api/auth/logout/route.ts
+import { NextResponse } from 'next/server';
+import { clearSessionCookie } from '@/app/lib/session';
+
+/**
+ * POST /api/auth/logout
+ */
+export async function POST() {
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
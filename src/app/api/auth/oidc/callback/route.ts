@@ -0,0 +1,58 @@
+// app/api/auth/oidc/callback/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { completeAuthorization, getOidcConfig, OIDC_FLOW_COOKIE, OidcFlowState } from '@/app/lib/oidc';
+import { createSession, setSessionCookie, verifyToken } from '@/app/lib/session';
+
+/**
+ * GET /api/auth/oidc/callback?code=...&state=...
+ * Completes single sign-on and returns to the page that asked for it.
+ * Failures go back to the login page.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const config = getOidcConfig();
+  const flow = verifyToken<OidcFlowState>('oidc-flow', request.cookies.get(OIDC_FLOW_COOKIE)?.value);
+
+  const fail = (reason: string) => {
+    const response = NextResponse.redirect(new URL(`/login?error=${reason}`, request.url));
+    response.cookies.delete({ name: OIDC_FLOW_COOKIE, path: '/api/auth/oidc' });
+    return response;
+  };
+
+  if (!config || !flow || params.get('state') !== flow.state) {
+    console.warn('OIDC callback with missing or mismatched state');
+    return fail('sso');
+  }
+
+  const code = params.get('code');
+  if (!code) {
+    console.warn(`OIDC sign-in was not completed: ${params.get('error') ?? 'no code'}`);
+    return fail('sso');
+  }
+
+  try {
+    const identity = await completeAuthorization(config, flow, code);
+    if (!identity.role) {
+      console.warn(`OIDC user ${identity.subject} has no staff role in the ${config.roleClaim} claim`);
+      return fail('forbidden');
+    }
+
+    const session = createSession({
+      sub: `oidc_${identity.subject}`,
+      role: identity.role,
+      name: identity.name,
+      provider: 'oidc',
+    });
+
+    const response = NextResponse.redirect(new URL(flow.next, request.url));
+    response.cookies.delete({ name: OIDC_FLOW_COOKIE, path: '/api/auth/oidc' });
+    setSessionCookie(response, session);
+    return response;
+  } catch (error) {
+    console.error('OIDC callback error:', error);
+    return fail('sso');
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,51 @@
+// app/api/auth/oidc/login/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createAuthorizationRequest, getOidcConfig, OIDC_FLOW_COOKIE } from '@/app/lib/oidc';
+import { safeNextPath } from '@/app/lib/accessControl';
+import { getAuthSecret, signToken } from '@/app/lib/session';
+
+/**
+ * GET /api/auth/oidc/login?next=/dashboard
+ * Redirects to the identity provider
+ */
+export async function GET(request: NextRequest) {
+  const config = getOidcConfig();
+  if (!config) {
+    return NextResponse.json(
+      { success: false, code: 'OIDC_NOT_CONFIGURED', error: 'Single sign-on is not configured' },
+      { status: 404 }
+    );
+  }
+
+  if (!getAuthSecret()) {
+    return NextResponse.json(
+      { success: false, code: 'AUTH_NOT_CONFIGURED', error: 'AUTH_SECRET is not configured' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const redirectUri = config.redirectUri ?? `${request.nextUrl.origin}/api/auth/oidc/callback`;
+    const next = safeNextPath(request.nextUrl.searchParams.get('next'), '/dashboard');
+    const { url, flow } = await createAuthorizationRequest(config, redirectUri, next);
+
+    const response = NextResponse.redirect(url);
+    response.cookies.set(OIDC_FLOW_COOKIE, signToken('oidc-flow', flow), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/api/auth/oidc',
+      maxAge: flow.exp - Math.floor(Date.now() / 1000),
+    });
+    return response;
+  } catch (error) {
+    console.error('OIDC login error:', error);
+    return NextResponse.json(
+      { success: false, code: 'OIDC_UNAVAILABLE', error: 'The identity provider is not reachable' },
+      { status: 502 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,27 @@
+// app/api/auth/session/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { readSession } from '@/app/lib/session';
+import { getPublicConfig } from '@/app/lib/config';
+
+/**
+ * GET /api/auth/session
+ * The current session (null when signed out) and the public settings:
+ * sign-in options, candidate access and which interview modes are demos
+ */
+export async function GET(request: NextRequest) {
+  const session = await readSession(request);
+
+  return NextResponse.json({
+    success: true,
+    session: session && {
+      name: session.name,
+      role: session.role,
+      provider: session.provider,
+      expiresAt: new Date(session.exp * 1000).toISOString(),
+    },
+    config: getPublicConfig(),
+  });
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,43 @@
+// app/api/candidates/[fileId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getCandidateDetail } from '@/app/lib/candidates';
+import { isValidFileId } from '@/app/lib/resumeStore';
+
+/**
+ * GET /api/candidates/:fileId
+ * Resume text, interviews, transcripts and scorecards of one candidate
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ fileId: string }> }
+) {
+  const { fileId } = await params;
+
+  if (!isValidFileId(fileId)) {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_FILE_ID', error: 'Invalid file ID' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const candidate = await getCandidateDetail(fileId);
+    if (!candidate) {
+      return NextResponse.json(
+        { success: false, code: 'NOT_FOUND', error: 'Candidate not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, candidate });
+  } catch (error) {
+    console.error('Candidate load error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to load candidate' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,63 @@
+// app/api/candidates/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CANDIDATE_SORT_FIELDS,
+  CANDIDATE_STATUSES,
+  CandidateSortField,
+  CandidateStatus,
+  listCandidates,
+} from '@/app/lib/candidates';
+
+/**
+ * GET /api/candidates
+ * Candidates for the recruiter dashboard. Query: `search` (full text over
+ * the resume), `status`, `minScore`, `sort` (uploadedAt, name, status,
+ * duration, score) and `order` (asc, desc)
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const status = params.get('status') || undefined;
+  const sort = params.get('sort') || undefined;
+  const order = params.get('order') || undefined;
+  const minScore = params.get('minScore') ? Number(params.get('minScore')) : undefined;
+
+  if (status !== undefined && !CANDIDATE_STATUSES.includes(status as CandidateStatus)) {
+    return invalidQuery(`Unknown status: ${status}`);
+  }
+  if (sort !== undefined && !CANDIDATE_SORT_FIELDS.includes(sort as CandidateSortField)) {
+    return invalidQuery(`sort must be one of ${CANDIDATE_SORT_FIELDS.join(', ')}`);
+  }
+  if (order !== undefined && order !== 'asc' && order !== 'desc') {
+    return invalidQuery('order must be asc or desc');
+  }
+  if (minScore !== undefined && isNaN(minScore)) {
+    return invalidQuery('minScore must be a number');
+  }
+
+  try {
+    const candidates = await listCandidates({
+      search: params.get('search') || undefined,
+      status: status as CandidateStatus | undefined,
+      minScore,
+      sort: sort as CandidateSortField | undefined,
+      order,
+    });
+    return NextResponse.json({ success: true, candidates });
+  } catch (error) {
+    console.error('Candidate list error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to load candidates' },
+      { status: 500 }
+    );
+  }
+}
+
+function invalidQuery(error: string) {
+  return NextResponse.json(
+    { success: false, code: 'INVALID_QUERY', error },
+    { status: 400 }
+  );
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
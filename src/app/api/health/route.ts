@@ -0,0 +1,33 @@
+// app/api/health/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { checkHealth } from '@/app/lib/health';
+import { isStaff, readSession } from '@/app/lib/session';
+
+/**
+ * GET /api/health
+ * Readiness probe for load balancers and monitoring: 200 when every check
+ * passes, 503 otherwise. Error messages are only included for staff, as
+ * they can name hosts and paths.
+ */
+export async function GET(request: NextRequest) {
+  const report = await checkHealth();
+
+  let staff = false;
+  try {
+    staff = isStaff(await readSession(request));
+  } catch {
+    // Sessions cannot be read while the configuration is invalid
+  }
+
+  const checks = staff
+    ? report.checks
+    : Object.fromEntries(Object.entries(report.checks).map(([name, check]) => [name, { ...check, error: undefined }]));
+
+  return NextResponse.json(
+    { success: report.status === 'ok', status: report.status, checks, checkedAt: report.checkedAt },
+    { status: report.status === 'ok' ? 200 : 503, headers: { 'Cache-Control': 'no-store' } }
+  );
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
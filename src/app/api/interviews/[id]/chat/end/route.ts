@@ -0,0 +1,65 @@
+// app/api/interviews/[id]/chat/end/route.ts
+import { after, NextRequest, NextResponse } from 'next/server';
+import { getInterview } from '@/app/lib/interviews';
+import { evaluateTranscript } from '@/app/lib/evaluation';
+import { checkChatEnd, endTextConversation, getTextConversation } from '@/app/lib/textInterview';
+
+/**
+ * POST /api/interviews/:id/chat/end
+ * Ends a text interview. The chat is stored as the session's transcript,
+ * which completes the session, and is scored like a call.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const interview = await getInterview(id);
+    const conversation = interview?.mode === 'text' ? await getTextConversation(id) : null;
+    if (!interview || !conversation) {
+      return NextResponse.json(
+        { success: false, code: 'NOT_FOUND', error: 'Text interview not found' },
+        { status: 404 }
+      );
+    }
+
+    if (interview.status !== 'created' && interview.status !== 'in_progress') {
+      return NextResponse.json(
+        { success: false, code: 'INVALID_STATE', error: `Interview is ${interview.status}`, interview },
+        { status: 409 }
+      );
+    }
+
+    const problem = checkChatEnd(conversation);
+    if (problem) {
+      return NextResponse.json(
+        { success: false, ...problem },
+        { status: 409 }
+      );
+    }
+
+    const { transcript, interview: updated } = await endTextConversation(conversation);
+
+    // Scoring calls the LLM, so it runs after the response
+    after(async () => {
+      try {
+        await evaluateTranscript(transcript);
+      } catch (error) {
+        console.error(`Evaluation of conversation ${transcript.id} failed:`, error);
+      }
+    });
+
+    return NextResponse.json({ success: true, interview: updated, conversationId: transcript.id });
+  } catch (error) {
+    console.error('Chat end error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to end interview' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,168 @@
+// app/api/interviews/[id]/chat/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getInterview, transitionInterview } from '@/app/lib/interviews';
+import {
+  checkChatMessage,
+  getTextConversation,
+  streamInterviewerReply,
+} from '@/app/lib/textInterview';
+
+const PROBLEM_STATUS: Record<string, number> = {
+  INVALID_MESSAGE: 400,
+  CHAT_ENDED: 409,
+  REPLY_PENDING: 409,
+  CHAT_LIMIT_REACHED: 409,
+};
+
+/**
+ * GET /api/interviews/:id/chat
+ * The messages of a text interview so far
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const conversation = await getTextConversation(id);
+    if (!conversation) {
+      return NextResponse.json(
+        { success: false, code: 'NOT_FOUND', error: 'Text interview not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      chat: {
+        conversationId: conversation.conversationId,
+        status: conversation.status,
+        turns: conversation.turns,
+      },
+    });
+  } catch (error) {
+    console.error('Chat load error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to load chat' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/interviews/:id/chat
+ * Sends the candidate's message and streams the interviewer's reply as
+ * plain text. Body: `{ message }`; the first request leaves the message
+ * out and gets the interviewer's opening.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  let body: { message?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_JSON', error: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  const message = body?.message;
+  if (message !== undefined && typeof message !== 'string') {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_MESSAGE', error: 'message must be a string' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const interview = await getInterview(id);
+    const conversation = interview?.mode === 'text' ? await getTextConversation(id) : null;
+    if (!interview || !conversation) {
+      return NextResponse.json(
+        { success: false, code: 'NOT_FOUND', error: 'Text interview not found' },
+        { status: 404 }
+      );
+    }
+
+    if (interview.status !== 'created' && interview.status !== 'in_progress') {
+      return NextResponse.json(
+        { success: false, code: 'INVALID_STATE', error: `Interview is ${interview.status}` },
+        { status: 409 }
+      );
+    }
+
+    const problem = checkChatMessage(conversation, message);
+    if (problem) {
+      return NextResponse.json(
+        { success: false, ...problem },
+        { status: PROBLEM_STATUS[problem.code] ?? 409 }
+      );
+    }
+
+    // Wait for the first chunk, so an unavailable LLM gets a proper error
+    // response. No await before this: the reply claims the chat right away.
+    const chunks = streamInterviewerReply(conversation, message);
+    let first: IteratorResult<string>;
+    try {
+      first = await chunks.next();
+    } catch (error) {
+      console.error(`Interviewer reply failed for interview ${id}:`, error);
+      return NextResponse.json(
+        { success: false, code: 'LLM_UNAVAILABLE', error: 'The interviewer is not available right now. Please try again.' },
+        { status: 502 }
+      );
+    }
+
+    if (interview.status === 'created') {
+      await transitionInterview(interview, { status: 'in_progress', conversationId: conversation.conversationId });
+    }
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (!first.done) {
+          controller.enqueue(encoder.encode(first.value));
+        }
+      },
+      async pull(controller) {
+        try {
+          const { done, value } = await chunks.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(encoder.encode(value));
+          }
+        } catch (error) {
+          // The reply is not saved; the client sends the message again
+          console.error(`Interviewer reply failed for interview ${id}:`, error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await chunks.return(undefined);
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Chat message error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to send message' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
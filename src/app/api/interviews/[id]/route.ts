@@ -0,0 +1,122 @@
+// app/api/interviews/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  canTransition,
+  checkCandidateTransition,
+  getInterview,
+  transitionInterview,
+  validateTransitionInput,
+} from '@/app/lib/interviews';
+import { markInterviewCompleted } from '@/app/lib/retention';
+import { readSession } from '@/app/lib/session';
+
+/**
+ * GET /api/interviews/:id
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const interview = await getInterview(id);
+    if (!interview) {
+      return NextResponse.json(
+        { success: false, code: 'NOT_FOUND', error: 'Interview not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, interview });
+  } catch (error) {
+    console.error('Interview load error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to load interview' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/interviews/:id
+ * Moves the session to its next state: created → in_progress →
+ * completed, or to abandoned/failed from either open state. Body:
+ * `{ status, conversationId?, reason? }`. Candidates can only report
+ * `in_progress` and `abandoned`, without a conversation ID; staff can make
+ * any transition.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_JSON', error: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateTransitionInput(body);
+  if (!validation.valid || !validation.input) {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_TRANSITION', error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  const session = await readSession(request);
+  const forbidden = session?.role === 'candidate' ? checkCandidateTransition(validation.input) : null;
+  if (forbidden) {
+    return NextResponse.json(
+      { success: false, code: 'FORBIDDEN', error: forbidden },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const interview = await getInterview(id);
+    if (!interview) {
+      return NextResponse.json(
+        { success: false, code: 'NOT_FOUND', error: 'Interview not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canTransition(interview.status, validation.input.status)) {
+      return NextResponse.json(
+        {
+          success: false,
+          code: 'INVALID_STATE',
+          error: `Interview is ${interview.status} and cannot move to ${validation.input.status}`,
+          interview,
+        },
+        { status: 409 }
+      );
+    }
+
+    const now = new Date();
+    const updated = await transitionInterview(interview, validation.input, now);
+
+    // Starts the shorter retention period for the candidate's resume
+    if (updated.status === 'completed') {
+      await markInterviewCompleted(updated.fileId, now);
+    }
+
+    return NextResponse.json({ success: true, interview: updated });
+  } catch (error) {
+    console.error('Interview transition error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to update interview' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,122 @@
+// app/api/interviews/[id]/scorecard/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getInterview } from '@/app/lib/interviews';
+import { getTranscript } from '@/app/lib/transcripts';
+import { fetchMissingTranscript } from '@/app/lib/transcriptIngestion';
+import { getRubric, getRubricForTemplate } from '@/app/lib/rubrics';
+import { evaluateInterview, listScorecards } from '@/app/lib/evaluation';
+
+/**
+ * GET /api/interviews/:id/scorecard
+ * Scorecards of the session, newest first. `outdated` is true when none
+ * uses the latest version of the session's rubric.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const interview = await getInterview(id);
+    if (!interview) {
+      return NextResponse.json(
+        { success: false, code: 'NOT_FOUND', error: 'Interview not found' },
+        { status: 404 }
+      );
+    }
+
+    const rubric = getRubricForTemplate(interview.templateId);
+    const scorecards = await listScorecards(id);
+
+    return NextResponse.json({
+      success: true,
+      scorecards,
+      rubric: { id: rubric.id, latestVersion: rubric.version },
+      outdated: !scorecards.some(scorecard => scorecard.rubricId === rubric.id && scorecard.rubricVersion === rubric.version),
+    });
+  } catch (error) {
+    console.error('Scorecard load error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to load scorecards' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/interviews/:id/scorecard
+ * Scores the session's transcript, fetching it from the voice provider
+ * if its webhook never arrived. Body (optional): `{ rubricId?,
+ * rubricVersion?, force? }`; defaults to the latest version of the
+ * session's rubric. An existing scorecard for that version is returned
+ * unless `force` is true.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  let body: { rubricId?: unknown; rubricVersion?: unknown; force?: unknown } = {};
+  try {
+    const text = await request.text();
+    body = text.trim() ? JSON.parse(text) : {};
+  } catch {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_JSON', error: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const interview = await getInterview(id);
+    if (!interview) {
+      return NextResponse.json(
+        { success: false, code: 'NOT_FOUND', error: 'Interview not found' },
+        { status: 404 }
+      );
+    }
+
+    const rubric = typeof body.rubricId === 'string'
+      ? getRubric(body.rubricId, body.rubricVersion === undefined ? undefined : Number(body.rubricVersion))
+      : getRubricForTemplate(interview.templateId);
+
+    if (!rubric) {
+      return NextResponse.json(
+        { success: false, code: 'RUBRIC_NOT_FOUND', error: `Rubric not found: ${body.rubricId}` },
+        { status: 404 }
+      );
+    }
+
+    const transcript = interview.conversationId
+      ? await getTranscript(interview.conversationId) ?? await fetchMissingTranscript(interview)
+      : null;
+    if (!transcript || transcript.turns.length === 0) {
+      return NextResponse.json(
+        { success: false, code: 'NO_TRANSCRIPT', error: 'No transcript has been received for this interview' },
+        { status: 409 }
+      );
+    }
+
+    try {
+      const scorecard = await evaluateInterview(interview, transcript, rubric, body.force === true);
+      return NextResponse.json({ success: true, scorecard });
+    } catch (error) {
+      console.error('Evaluation error:', error);
+      return NextResponse.json(
+        { success: false, code: 'EVALUATION_FAILED', error: error instanceof Error ? error.message : 'Evaluation failed' },
+        { status: 502 }
+      );
+    }
+  } catch (error) {
+    console.error('Scorecard error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to score interview' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
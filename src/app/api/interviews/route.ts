@@ -0,0 +1,57 @@
+// app/api/interviews/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { InterviewFilter, isInterviewStatus, listInterviews } from '@/app/lib/interviews';
+
+/**
+ * GET /api/interviews
+ * Lists interview sessions, newest first. Filters: fileId, status,
+ * templateId, jobDescriptionId, conversationId, from and to (ISO dates,
+ * on the creation time)
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const status = params.get('status') || undefined;
+
+  if (status !== undefined && !isInterviewStatus(status)) {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_FILTER', error: `Unknown status: ${status}` },
+      { status: 400 }
+    );
+  }
+
+  const filter: InterviewFilter = {
+    fileId: params.get('fileId') || undefined,
+    status,
+    templateId: params.get('templateId') || undefined,
+    jobDescriptionId: params.get('jobDescriptionId') || undefined,
+    conversationId: params.get('conversationId') || undefined,
+  };
+
+  for (const [name, key] of [['from', 'createdFrom'], ['to', 'createdTo']] as const) {
+    const value = params.get(name);
+    if (!value) continue;
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      return NextResponse.json(
+        { success: false, code: 'INVALID_FILTER', error: `${name} must be an ISO date` },
+        { status: 400 }
+      );
+    }
+    filter[key] = date;
+  }
+
+  try {
+    const interviews = await listInterviews(filter);
+    return NextResponse.json({ success: true, interviews });
+  } catch (error) {
+    console.error('Interview list error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to load interviews' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,79 @@
+// app/api/invitations/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getInvitation, revokeInvitation } from '@/app/lib/invitations';
+
+/**
+ * GET /api/invitations/:id
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const invitation = await getInvitation(id);
+    if (!invitation) {
+      return NextResponse.json(
+        { success: false, code: 'NOT_FOUND', error: 'Invitation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, invitation });
+  } catch (error) {
+    console.error('Invitation load error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to load invitation' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/invitations/:id
+ * Revokes a pending invitation so its link stops working
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const invitation = await getInvitation(id);
+    if (!invitation) {
+      return NextResponse.json(
+        { success: false, code: 'NOT_FOUND', error: 'Invitation not found' },
+        { status: 404 }
+      );
+    }
+
+    if (invitation.status !== 'pending') {
+      return NextResponse.json(
+        { success: false, code: 'INVALID_STATE', error: `Invitation is already ${invitation.status}`, invitation },
+        { status: 409 }
+      );
+    }
+
+    // Checked again on the stored record, in case it was used meanwhile
+    const revoked = await revokeInvitation(id);
+    if (revoked?.status !== 'revoked') {
+      return NextResponse.json(
+        { success: false, code: 'INVALID_STATE', error: `Invitation is already ${revoked?.status ?? 'deleted'}`, invitation: revoked },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, invitation: revoked });
+  } catch (error) {
+    console.error('Invitation revoke error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to revoke invitation' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
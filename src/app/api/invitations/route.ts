@@ -0,0 +1,123 @@
+// app/api/invitations/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createInvitation,
+  INVITATION_STATUSES,
+  invitationToken,
+  InvitationStatus,
+  listInvitations,
+  validateInvitationInput,
+} from '@/app/lib/invitations';
+import { getTemplate } from '@/app/lib/interviewTemplates';
+import { getJobDescription } from '@/app/lib/jobDescriptions';
+import { getResumeStore } from '@/app/lib/resumeStore';
+import { readSession } from '@/app/lib/session';
+
+/**
+ * POST /api/invitations
+ * Creates a single-use invitation link. Body: `{ candidateName,
+ * candidateEmail?, templateId?, templateVersion?, jobDescriptionId?, fileId?,
+ * expiresInHours? }`. The link is only returned here.
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_JSON', error: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateInvitationInput(body);
+  if (!validation.valid || !validation.input) {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_INVITATION', error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  const input = validation.input;
+
+  // The version is fixed now so the candidate gets what the recruiter chose
+  const template = getTemplate(input.templateId, input.templateVersion);
+  if (!template) {
+    return NextResponse.json(
+      { success: false, code: 'TEMPLATE_NOT_FOUND', error: `Interview template not found: ${input.templateId}` },
+      { status: 404 }
+    );
+  }
+
+  try {
+    if (input.jobDescriptionId && !(await getJobDescription(input.jobDescriptionId))) {
+      return NextResponse.json(
+        { success: false, code: 'JOB_DESCRIPTION_NOT_FOUND', error: 'Job description not found' },
+        { status: 404 }
+      );
+    }
+
+    if (input.fileId) {
+      const metadata = await getResumeStore().getMetadata(input.fileId);
+      if (!metadata) {
+        return NextResponse.json(
+          { success: false, code: 'RESUME_NOT_FOUND', error: 'Resume not found' },
+          { status: 404 }
+        );
+      }
+      if (metadata.scan.quarantined) {
+        return NextResponse.json(
+          { success: false, code: 'DOCUMENT_QUARANTINED', error: 'Resume was quarantined by the safety scan and cannot be used' },
+          { status: 422 }
+        );
+      }
+    }
+
+    const invitation = await createInvitation(
+      { ...input, templateVersion: template.version },
+      (await readSession(request))?.sub ?? 'unknown'
+    );
+    const token = invitationToken(invitation);
+
+    return NextResponse.json({
+      success: true,
+      invitation,
+      url: `${request.nextUrl.origin}/?invitation=${encodeURIComponent(token)}`,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Invitation create error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to save invitation' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/invitations?status=pending
+ * Lists invitations, newest first
+ */
+export async function GET(request: NextRequest) {
+  const status = request.nextUrl.searchParams.get('status') || undefined;
+
+  if (status !== undefined && !INVITATION_STATUSES.includes(status as InvitationStatus)) {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_FILTER', error: `status must be one of: ${INVITATION_STATUSES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const invitations = await listInvitations(status as InvitationStatus | undefined);
+    return NextResponse.json({ success: true, invitations });
+  } catch (error) {
+    console.error('Invitation list error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to load invitations' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,45 @@
+// app/api/job-descriptions/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteJobDescription, getJobDescription } from '@/app/lib/jobDescriptions';
+
+/**
+ * GET /api/job-descriptions/:id
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const jobDescription = await getJobDescription(id);
+
+  if (!jobDescription) {
+    return NextResponse.json(
+      { success: false, code: 'NOT_FOUND', error: 'Job description not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, jobDescription });
+}
+
+/**
+ * DELETE /api/job-descriptions/:id
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!(await deleteJobDescription(id))) {
+    return NextResponse.json(
+      { success: false, code: 'NOT_FOUND', error: 'Job description not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
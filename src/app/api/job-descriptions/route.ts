@@ -0,0 +1,62 @@
+// app/api/job-descriptions/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createJobDescription,
+  listJobDescriptions,
+  validateJobDescriptionInput,
+} from '@/app/lib/jobDescriptions';
+
+/**
+ * POST /api/job-descriptions
+ * Stores a job description that interviews can be matched against
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_JSON', error: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateJobDescriptionInput(body);
+  if (!validation.valid || !validation.input) {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_JOB_DESCRIPTION', error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const jobDescription = await createJobDescription(validation.input);
+    return NextResponse.json({ success: true, jobDescription }, { status: 201 });
+  } catch (error) {
+    console.error('Job description create error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to save job description' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/job-descriptions
+ * Lists stored job descriptions, newest first
+ */
+export async function GET() {
+  try {
+    const jobDescriptions = await listJobDescriptions();
+    return NextResponse.json({ success: true, jobDescriptions });
+  } catch (error) {
+    console.error('Job description list error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to load job descriptions' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,56 @@
+// app/api/resumes/[fileId]/export/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { exportCandidateData, getTombstone } from '@/app/lib/dataSubject';
+import { isValidFileId } from '@/app/lib/resumeStore';
+
+/**
+ * GET /api/resumes/:fileId/export
+ * Returns a ZIP archive with everything held for the candidate
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ fileId: string }> }
+) {
+  const { fileId } = await params;
+
+  if (!isValidFileId(fileId)) {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_FILE_ID', error: 'Invalid file ID' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const bundle = await exportCandidateData(fileId);
+
+    if (!bundle) {
+      const tombstone = await getTombstone(fileId);
+      return tombstone
+        ? NextResponse.json(
+            { success: false, code: 'ALREADY_DELETED', error: 'All data for this resume has been deleted', tombstone },
+            { status: 410 }
+          )
+        : NextResponse.json(
+            { success: false, code: 'NOT_FOUND', error: 'Resume not found' },
+            { status: 404 }
+          );
+    }
+
+    return new NextResponse(new Uint8Array(bundle.archive), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${bundle.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Data export error:', error);
+    return NextResponse.json(
+      { success: false, code: 'EXPORT_FAILED', error: 'Failed to export candidate data' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,60 @@
+// app/api/resumes/[fileId]/preview/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getResumeStore, isValidFileId } from '@/app/lib/resumeStore';
+import { getResumePreview } from '@/app/lib/resumeIndex';
+
+/**
+ * GET /api/resumes/:fileId/preview
+ * What the parser read from a resume, so the candidate can check it before
+ * starting the interview. Candidates only see their own uploads.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ fileId: string }> }
+) {
+  const { fileId } = await params;
+
+  if (!isValidFileId(fileId)) {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_FILE_ID', error: 'Invalid file ID' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const metadata = await getResumeStore().getMetadata(fileId);
+
+    if (!metadata) {
+      return NextResponse.json(
+        { success: false, code: 'NOT_FOUND', error: 'Resume not found' },
+        { status: 404 }
+      );
+    }
+
+    if (metadata.scan.quarantined) {
+      return NextResponse.json(
+        { success: false, code: 'DOCUMENT_QUARANTINED', error: 'Resume was quarantined by the safety scan' },
+        { status: 422 }
+      );
+    }
+
+    const preview = await getResumePreview(metadata);
+    if (!preview) {
+      return NextResponse.json(
+        { success: false, code: 'NOT_FOUND', error: 'Resume not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, preview });
+  } catch (error) {
+    console.error(`Resume preview error for ${fileId}:`, error);
+    return NextResponse.json(
+      { success: false, code: 'PARSE_FAILED', error: 'The resume could not be read. It may be corrupted.' },
+      { status: 422 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,103 @@
+// app/api/resumes/[fileId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteCandidateData, getTombstone } from '@/app/lib/dataSubject';
+import { getResumeStore, isValidFileId } from '@/app/lib/resumeStore';
+import { RESUME_FORMATS } from '@/app/lib/extractors';
+
+/**
+ * GET /api/resumes/:fileId
+ * Downloads the original resume file. Quarantined files are not served.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ fileId: string }> }
+) {
+  const { fileId } = await params;
+
+  if (!isValidFileId(fileId)) {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_FILE_ID', error: 'Invalid file ID' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const resume = await getResumeStore().get(fileId);
+
+    if (!resume) {
+      return NextResponse.json(
+        { success: false, code: 'NOT_FOUND', error: 'Resume not found' },
+        { status: 404 }
+      );
+    }
+
+    if (resume.metadata.scan.quarantined) {
+      return NextResponse.json(
+        { success: false, code: 'DOCUMENT_QUARANTINED', error: 'Resume was quarantined by the safety scan' },
+        { status: 422 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(resume.buffer), {
+      headers: {
+        'Content-Type': RESUME_FORMATS[resume.metadata.detectedType].mimeTypes[0] ?? 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${resume.metadata.originalName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Resume download error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to load resume' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/resumes/:fileId
+ * Erases the resume and everything derived from it, leaving a tombstone
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ fileId: string }> }
+) {
+  const { fileId } = await params;
+
+  if (!isValidFileId(fileId)) {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_FILE_ID', error: 'Invalid file ID' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const tombstone = await deleteCandidateData(fileId, 'data-subject-request');
+
+    if (!tombstone) {
+      const existing = await getTombstone(fileId);
+      if (existing) {
+        return NextResponse.json(
+          { success: false, code: 'ALREADY_DELETED', error: 'Resume has already been deleted', tombstone: existing },
+          { status: 410 }
+        );
+      }
+
+      return NextResponse.json(
+        { success: false, code: 'NOT_FOUND', error: 'Resume not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, tombstone });
+  } catch (error) {
+    console.error('Resume deletion error:', error);
+    return NextResponse.json(
+      { success: false, code: 'DELETE_FAILED', error: 'Failed to delete resume' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,62 @@
+// app/api/retention/purge/route.ts
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfig } from '@/app/lib/config';
+import { purgeExpiredData } from '@/app/lib/retention';
+
+/**
+ * POST /api/retention/purge
+ * Deletes candidate data past its retention deadline. Meant for cron
+ * jobs; requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function POST(request: NextRequest) {
+  const secret = getConfig().retention.cronSecret;
+
+  if (!secret) {
+    return NextResponse.json(
+      { success: false, code: 'NOT_CONFIGURED', error: 'CRON_SECRET is not configured' },
+      { status: 503 }
+    );
+  }
+
+  if (!isAuthorized(request.headers.get('authorization'), secret)) {
+    return NextResponse.json(
+      { success: false, code: 'UNAUTHORIZED', error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await purgeExpiredData();
+    return NextResponse.json({
+      success: result.failed.length === 0,
+      migrated: result.migrated,
+      checked: result.checked,
+      purged: result.purged.map(tombstone => tombstone.fileId),
+      failed: result.failed,
+      unmatchedTranscripts: result.unmatchedTranscripts,
+      expiredInvitations: result.expiredInvitations,
+    });
+  } catch (error) {
+    console.error('Retention purge error:', error);
+    return NextResponse.json(
+      { success: false, code: 'PURGE_FAILED', error: 'Retention purge failed' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Constant-time comparison; hashing first gives both sides the same length
+ */
+function isAuthorized(header: string | null, secret: string): boolean {
+  const expected = crypto.createHash('sha256').update(`Bearer ${secret}`).digest();
+  const actual = crypto.createHash('sha256').update(header ?? '').digest();
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+// Vercel Cron sends GET requests
+export const GET = POST;
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
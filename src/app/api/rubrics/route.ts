@@ -0,0 +1,16 @@
+// app/api/rubrics/route.ts
+import { NextResponse } from 'next/server';
+import { DEFAULT_RUBRIC_ID, listRubrics } from '@/app/lib/rubrics';
+
+/**
+ * GET /api/rubrics
+ * Lists the evaluation rubrics. Interviews are scored with the rubric that
+ * shares their template's ID, or the default rubric.
+ */
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    defaultRubricId: DEFAULT_RUBRIC_ID,
+    rubrics: listRubrics(),
+  });
+}
@@ -1,12 +1,37 @@
 // app/api/start-interview/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-import path from 'path';
-import fs from 'fs/promises';
-import { parseResume, formatResumeForAI } from '@/app/lib/resumeParser';
+import { extractResumeFromBuffer, formatResumeForAI } from '@/app/lib/resumeParser';
+import { getResumeStore } from '@/app/lib/resumeStore';
+import { redactPii } from '@/app/lib/piiRedaction';
+import { getJobDescription } from '@/app/lib/jobDescriptions';
+import { matchJobDescription } from '@/app/lib/skillMatcher';
+import { analyzeTimeline } from '@/app/lib/employmentTimeline';
+import { structureResume } from '@/app/lib/resumeStructure';
+import { DEFAULT_TEMPLATE_ID, getTemplate } from '@/app/lib/interviewTemplates';
+import { createInterview, InterviewMode, transitionInterview } from '@/app/lib/interviews';
+import { indexResumeText } from '@/app/lib/resumeIndex';
+import { addToScope, canAccessFile, readSession, Session, setSessionCookie } from '@/app/lib/session';
+import {
+  checkInvitation,
+  claimInvitation,
+  getInvitation,
+  InvitationRecord,
+  redeemInvitation,
+  releaseInvitation,
+} from '@/app/lib/invitations';
+import { getCandidateAccessMode } from '@/app/lib/accessControl';
+import { getVoiceAgentProvider, VoiceSession } from '@/app/lib/voiceAgent';
+import { getLlmProvider } from '@/app/lib/llm';
+import { createTextConversation, TEXT_AGENT_ID } from '@/app/lib/textInterview';
 
 export async function POST(request: NextRequest) {
+  // Set while this request holds the invitation, until the interview exists
+  let claimedInvitationId: string | null = null;
+
   try {
-    const { fileId, candidateName } = await request.json();
+    const body = await request.json();
+    const { fileId } = body;
+    const mode: InterviewMode = body.mode ?? 'voice';
     
     if (!fileId) {
       return NextResponse.json(
@@ -15,92 +40,235 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Find the uploaded file
-    const uploadDir = path.join(process.cwd(), 'uploads');
-    const files = await fs.readdir(uploadDir);
-    const resumeFile = files.find(f => f.startsWith(fileId));
+    if (mode !== 'voice' && mode !== 'text') {
+      return NextResponse.json(
+        { error: 'mode must be "voice" or "text"' },
+        { status: 400 }
+      );
+    }
+
+    // Candidates are limited to their own resumes
+    const session = await readSession(request);
+    if (!canAccessFile(session, fileId)) {
+      return NextResponse.json(
+        { error: 'You do not have access to this resume' },
+        { status: 403 }
+      );
+    }
+
+    // Candidates with an invitation get the name, template and job it fixes
+    let invitation: InvitationRecord | null = null;
+    if (session?.role === 'candidate' && (session.invitationId || getCandidateAccessMode() === 'invitation')) {
+      invitation = session.invitationId ? await getInvitation(session.invitationId) : null;
+      const problem = invitation
+        ? checkInvitation(invitation)
+        : { error: 'A valid invitation is required to start an interview' };
+
+      if (problem) {
+        return NextResponse.json(
+          { error: problem.error },
+          { status: 403 }
+        );
+      }
+
+      if (invitation?.fileId && invitation.fileId !== fileId) {
+        return NextResponse.json(
+          { error: 'This invitation is for a different resume' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const candidateName = invitation ? invitation.candidateName : body.candidateName;
+    const templateId = invitation ? invitation.templateId : body.templateId;
+    const templateVersion = invitation ? invitation.templateVersion : body.templateVersion;
+    const jobDescriptionId = invitation ? invitation.jobDescriptionId : body.jobDescriptionId;
+
+    // Look up the uploaded file by ID
+    const resume = await getResumeStore().get(fileId);
     
-    if (!resumeFile) {
+    if (!resume) {
       return NextResponse.json(
         { error: 'Resume not found' },
         { status: 404 }
       );
     }
 
-    const filepath = path.join(uploadDir, resumeFile);
+    if (resume.metadata.scan.quarantined) {
+      return NextResponse.json(
+        { error: 'Resume was quarantined by the safety scan and cannot be used' },
+        { status: 422 }
+      );
+    }
     
-    // Parse resume content
-    const resumeText = await parseResume(filepath);
-    const formattedContext = formatResumeForAI(resumeText, candidateName);
+    const template = getTemplate(
+      templateId || DEFAULT_TEMPLATE_ID,
+      templateVersion === undefined ? undefined : Number(templateVersion)
+    );
 
-    // Get signed URL from ElevenLabs for WebSocket connection
-    console.log('Getting signed URL for agent:', process.env.ELEVENLABS_AGENT_ID);
-    console.log('Resume context length:', formattedContext.length);
+    if (!template) {
+      return NextResponse.json(
+        { error: `Interview template not found: ${templateId}${templateVersion ? ` v${templateVersion}` : ''}` },
+        { status: 404 }
+      );
+    }
+
+    const jobDescription = jobDescriptionId ? await getJobDescription(jobDescriptionId) : null;
+
+    if (jobDescriptionId && !jobDescription) {
+      return NextResponse.json(
+        { error: 'Job description not found' },
+        { status: 404 }
+      );
+    }
     
-    // First, get a signed URL for the WebSocket connection (must use GET method)
-    const signedUrlResponse = await fetch(
-      `https://api.elevenlabs.io/v1/convai/conversation/get-signed-url?agent_id=${process.env.ELEVENLABS_AGENT_ID}`,
-      {
-        method: 'GET',
-        headers: {
-          'xi-api-key': process.env.ELEVENLABS_API_KEY!,
-        },
+    // Claim the invitation before the slow work, so that parallel requests
+    // cannot start two interviews from one link
+    if (invitation) {
+      const claim = await claimInvitation(invitation.id);
+      if (claim.problem) {
+        return NextResponse.json(
+          { error: claim.problem.error },
+          { status: 403 }
+        );
       }
-    );
+      claimedInvitationId = invitation.id;
+    }
+
+    // Parse resume content
+    const extraction = await extractResumeFromBuffer(resume.buffer, `${fileId}${resume.metadata.extension}`);
+
+    // Personal data is replaced before the context leaves our server
+    const redacted = redactPii(extraction.text);
 
-    if (!signedUrlResponse.ok) {
-      const error = await signedUrlResponse.text();
-      console.error('ElevenLabs signed URL error:', error);
-      console.error('Status:', signedUrlResponse.status);
-      console.error('Agent ID:', process.env.ELEVENLABS_AGENT_ID);
-      
-      // Check if it's a permission error and provide helpful message
-      if (signedUrlResponse.status === 401) {
-        console.log('API key lacks convai_write permission, falling back to mock mode');
-        
-        // Fall back to mock mode for demo purposes
-        const mockResponse = {
-          conversation_id: `mock_conversation_${Date.now()}`,
-          signed_url: `wss://api.elevenlabs.io/v1/convai/conversation/mock_conversation_${Date.now()}`,
-          status: 'mock_fallback'
-        };
-        
-        return NextResponse.json({
-          success: true,
-          conversationId: mockResponse.conversation_id,
-          signedUrl: mockResponse.signed_url,
-          isMock: true,
-          message: 'Using demo mode - API key needs convai_write permission for full functionality'
+    // Evidence snippets come from the redacted text as they go into the prompt
+    const jobMatch = jobDescription ? matchJobDescription(redacted.text, jobDescription) : undefined;
+    const timeline = analyzeTimeline(structureResume(redacted.text));
+
+    const formattedContext = formatResumeForAI(redacted.text, candidateName, {
+      ocr: extraction.ocr,
+      redaction: redacted.report,
+      template,
+      job: jobDescription && jobMatch ? { description: jobDescription, match: jobMatch } : undefined,
+      timeline,
+    });
+    await getResumeStore().updateMetadata({ ...resume.metadata, redaction: redacted.report });
+    await indexResumeText(fileId, extraction.text);
+
+    if (extraction.ocr?.lowConfidence) {
+      console.warn(`Resume ${fileId} was read by OCR with low confidence (${extraction.ocr.averageConfidence})`);
+    }
+
+    // Text interviews chat with the LLM instead of a voice agent
+    const voice = mode === 'voice' ? getVoiceAgentProvider() : null;
+    const provider = voice?.name ?? getLlmProvider().name;
+    const isMock = provider === 'mock';
+
+    // The conversation ID is attached when the client reports the
+    // connected session (PATCH /api/interviews/:id), or when the chat opens
+    const interview = await createInterview({
+      fileId,
+      candidateName,
+      templateId: template.id,
+      templateVersion: template.version,
+      jobDescriptionId: jobDescription?.id,
+      invitationId: invitation?.id,
+      agentId: voice?.agentId ?? TEXT_AGENT_ID,
+      mode,
+      mock: isMock,
+    });
+
+    // The interviewer prompt stays on the server: the voice agent gets it
+    // from there when the call starts, the chat is run by the server.
+    // A voice provider outage fails the interview and releases the invitation.
+    let voiceSession: VoiceSession | null = null;
+    if (voice) {
+      try {
+        voiceSession = await voice.createSession({
+          interviewId: interview.id,
+          prompt: formattedContext,
+          variables: { candidate_name: candidateName ?? '' },
         });
+      } catch (error) {
+        console.error(`Voice agent session error (${voice.name}):`, error);
+        await transitionInterview(interview, { status: 'failed', reason: 'The voice agent was not available' });
+        await releaseClaim(claimedInvitationId);
+        return NextResponse.json(
+          { error: 'The interviewer is not available right now. Please try again later.' },
+          { status: 502 }
+        );
       }
-      
-      return NextResponse.json(
-        { error: `Failed to get ElevenLabs signed URL: ${signedUrlResponse.status} - ${error}` },
-        { status: 500 }
-      );
+    } else {
+      await createTextConversation(interview.id, formattedContext);
     }
 
-    const signedUrlData = await signedUrlResponse.json();
-    console.log('Got signed URL successfully');
+    // The invitation now belongs to the interview
+    if (claimedInvitationId) {
+      await redeemInvitation(claimedInvitationId, interview);
+      claimedInvitationId = null;
+    }
 
-    // Generate a conversation ID for tracking
-    const conversationId = `conv_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+    // Staff starting a voice interview through the API also get the prompt
+    // and the analysis behind it; candidates and text chats do not
+    const analysis = mode === 'voice' && session?.role !== 'candidate'
+      ? { resumeContext: formattedContext, jobMatch, timeline }
+      : {};
 
-    return NextResponse.json({
+    return withInterviewScope(NextResponse.json({
       success: true,
-      conversationId: conversationId,
-      signedUrl: signedUrlData.signed_url,
-      agentId: process.env.ELEVENLABS_AGENT_ID,
-      resumeContext: formattedContext, // Full context for the frontend to use
+      interviewId: interview.id,
+      mode,
+      signedUrl: voiceSession?.signedUrl,
+      agentId: interview.agentId,
+      provider,
+      isMock,
+      message: isMock
+        ? `Demo mode: you are ${mode === 'voice' ? 'talking' : 'chatting'} with a scripted local interviewer.`
+        : undefined,
+      ...analysis,
       candidateName: candidateName,
-    });
-
+      extraction: {
+        format: extraction.format,
+        ocr: extraction.ocr && {
+          provider: extraction.ocr.provider,
+          averageConfidence: extraction.ocr.averageConfidence,
+          lowConfidence: extraction.ocr.lowConfidence,
+          pages: extraction.ocr.pages.map(({ page, confidence, lowConfidence }) => ({ page, confidence, lowConfidence })),
+        },
+      },
+      redaction: redacted.report,
+      template: { id: template.id, version: template.version },
+    }), session, interview.id);
 
   } catch (error) {
     console.error('Start interview error:', error);
+    await releaseClaim(claimedInvitationId);
     return NextResponse.json(
       { error: 'Failed to start interview' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Let the candidate use the invitation again after a failed start
+ */
+async function releaseClaim(invitationId: string | null): Promise<void> {
+  if (!invitationId) return;
+
+  try {
+    await releaseInvitation(invitationId);
+  } catch (error) {
+    console.error(`Failed to release invitation ${invitationId}:`, error);
+  }
+}
+
+/**
+ * Let a candidate session report the transitions of the interview it started
+ */
+function withInterviewScope(response: NextResponse, session: Session | null, interviewId: string): NextResponse {
+  if (session?.role === 'candidate') {
+    setSessionCookie(response, addToScope(session, { interviewId }));
+  }
+  return response;
+}
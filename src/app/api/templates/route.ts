@@ -0,0 +1,15 @@
+// app/api/templates/route.ts
+import { NextResponse } from 'next/server';
+import { DEFAULT_TEMPLATE_ID, listTemplates } from '@/app/lib/interviewTemplates';
+
+/**
+ * GET /api/templates
+ * Lists the interview templates that /api/start-interview accepts as `templateId`
+ */
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    defaultTemplateId: DEFAULT_TEMPLATE_ID,
+    templates: listTemplates(),
+  });
+}
@@ -1,21 +1,33 @@
 // app/api/upload-resume/route.ts
-import { NextRequest, NextResponse } from 'next/server';
-import { writeFile, mkdir } from 'fs/promises';
+import { after, NextRequest, NextResponse } from 'next/server';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import { getConfig } from '@/app/lib/config';
+import { getSupportedFormats, RESUME_FORMATS } from '@/app/lib/extractors';
+import {
+  inspectUpload,
+  MAX_ARCHIVE_UNCOMPRESSED_SIZE,
+  MAX_COMPRESSION_RATIO,
+} from '@/app/lib/uploadValidation';
+import { scanDocument, ScanVerdict } from '@/app/lib/documentScanner';
+import { getResumeStore, hashContent, ResumeMetadata } from '@/app/lib/resumeStore';
+import { ensureResumeIndexed } from '@/app/lib/resumeIndex';
+import { addToScope, readSession, setSessionCookie } from '@/app/lib/session';
 
 // Maximum file size: 10MB
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
 
+// Allow-lists are derived from the parser's extractor registry so that
+// every accepted upload can also be parsed
+const SUPPORTED_FORMATS = getSupportedFormats();
+
 // Allowed MIME types
-const ALLOWED_MIME_TYPES = [
-  'application/pdf',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document', // .docx
-  'application/msword', // .doc (legacy)
-];
+const ALLOWED_MIME_TYPES = SUPPORTED_FORMATS.flatMap(format => RESUME_FORMATS[format].mimeTypes);
 
 // Allowed file extensions
-const ALLOWED_EXTENSIONS = ['.pdf', '.docx', '.doc'];
+const ALLOWED_EXTENSIONS = SUPPORTED_FORMATS.flatMap(format => RESUME_FORMATS[format].extensions);
+
+const ALLOWED_TYPE_LABELS = SUPPORTED_FORMATS.map(format => RESUME_FORMATS[format].label);
 
 /**
  * POST /api/upload-resume
@@ -32,6 +44,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         { 
           success: false,
+          code: 'NO_FILE',
           error: 'No file uploaded. Please select a resume file.' 
         },
         { status: 400 }
@@ -43,6 +56,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         { 
           success: false,
+          code: 'INVALID_FILE',
           error: 'Invalid file format' 
         },
         { status: 400 }
@@ -54,6 +68,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         { 
           success: false,
+          code: 'EMPTY_FILE',
           error: 'File is empty. Please upload a valid resume.' 
         },
         { status: 400 }
@@ -64,18 +79,21 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         { 
           success: false,
+          code: 'FILE_TOO_LARGE',
           error: `File size exceeds maximum limit of ${MAX_FILE_SIZE / 1024 / 1024}MB. Please upload a smaller file.` 
         },
         { status: 400 }
       );
     }
 
-    // Validate MIME type
-    if (!ALLOWED_MIME_TYPES.includes(file.type)) {
+    // Validate MIME type. Browsers send an empty type for extensions they
+    // do not know (e.g. .md), in which case the extension check decides.
+    if (file.type && !ALLOWED_MIME_TYPES.includes(file.type)) {
       return NextResponse.json(
         { 
           success: false,
-          error: 'Invalid file type. Only PDF and DOCX files are allowed.' 
+          code: 'INVALID_MIME_TYPE',
+          error: `Invalid file type. Only ${ALLOWED_TYPE_LABELS.join(', ')} files are allowed.` 
         },
         { status: 400 }
       );
@@ -87,7 +105,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         { 
           success: false,
-          error: 'Invalid file extension. Only .pdf, .docx, and .doc files are allowed.' 
+          code: 'INVALID_EXTENSION',
+          error: `Invalid file extension. Only ${ALLOWED_EXTENSIONS.join(', ')} files are allowed.` 
         },
         { status: 400 }
       );
@@ -98,6 +117,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         { 
           success: false,
+          code: 'FILENAME_TOO_LONG',
           error: 'Filename is too long. Please rename the file.' 
         },
         { status: 400 }
@@ -107,24 +127,6 @@ export async function POST(request: NextRequest) {
     // Generate unique file ID and sanitized filename
     const fileId = uuidv4();
     const sanitizedOriginalName = sanitizeFilename(file.name);
-    const uniqueFilename = `${fileId}${fileExtension}`;
-    
-    // Define upload directory
-    const uploadDir = path.join(process.cwd(), 'uploads');
-    
-    // Ensure upload directory exists
-    try {
-      await mkdir(uploadDir, { recursive: true });
-    } catch (error) {
-      console.error('Failed to create upload directory:', error);
-      return NextResponse.json(
-        { 
-          success: false,
-          error: 'Server configuration error. Please try again later.' 
-        },
-        { status: 500 }
-      );
-    }
 
     // Convert file to buffer
     const bytes = await file.arrayBuffer();
@@ -135,41 +137,125 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         { 
           success: false,
+          code: 'EMPTY_FILE',
           error: 'File appears to be empty or corrupted.' 
         },
         { status: 400 }
       );
     }
 
-    // Save file to disk
-    const filepath = path.join(uploadDir, uniqueFilename);
-    
+    // Check the content itself: magic bytes must match the declared type,
+    // and archives and PDFs must stay within resource limits
+    const inspection = await inspectUpload(buffer, file.name);
+    if (!inspection.valid) {
+      console.warn(`Rejected upload ${sanitizedOriginalName}: ${inspection.code} (detected ${inspection.sniffedType ?? 'unknown'})`);
+      return NextResponse.json(
+        { 
+          success: false,
+          code: inspection.code,
+          error: inspection.error 
+        },
+        { status: inspection.code === 'PDF_TOO_MANY_PAGES' || inspection.code.startsWith('ARCHIVE_') ? 413 : 400 }
+      );
+    }
+
+    // Scan for macros, embedded objects and other active content
+    let scan: ScanVerdict;
+    try {
+      scan = await scanDocument(buffer, inspection.format);
+    } catch (error) {
+      console.error(`Safety scan failed for ${sanitizedOriginalName}:`, error);
+      return NextResponse.json(
+        { 
+          success: false,
+          code: 'SCAN_FAILED',
+          error: 'The file could not be checked for unsafe content. It may be corrupted.' 
+        },
+        { status: 422 }
+      );
+    }
+
+    // The store keeps quarantined files apart so they never reach the parser
+    const metadata: ResumeMetadata = {
+      fileId,
+      originalName: sanitizedOriginalName,
+      extension: fileExtension,
+      size: buffer.length,
+      sha256: hashContent(buffer),
+      uploadedAt: new Date().toISOString(),
+      detectedType: inspection.format,
+      pageCount: inspection.pageCount,
+      scan
+    };
+
     try {
-      await writeFile(filepath, buffer);
+      await getResumeStore().save(buffer, metadata);
     } catch (error) {
-      console.error('Failed to write file:', error);
+      console.error('Failed to store file:', error);
       return NextResponse.json(
         { 
           success: false,
+          code: 'STORAGE_ERROR',
           error: 'Failed to save file. Please try again.' 
         },
         { status: 500 }
       );
     }
 
+    if (scan.quarantined) {
+      console.warn(`Quarantined upload ${fileId} (${sanitizedOriginalName}): ${scan.findings.map(f => f.detail).join('; ')}`);
+      return NextResponse.json(
+        { 
+          success: false,
+          code: 'DOCUMENT_QUARANTINED',
+          error: 'The file contains macros, embedded objects or other active content and cannot be used. Please upload a plain copy (e.g. saved as PDF).',
+          fileId,
+          scan: {
+            verdict: scan.verdict,
+            findings: scan.findings.map(({ type, severity, detail }) => ({ type, severity, detail }))
+          }
+        },
+        { status: 422 }
+      );
+    }
+
     // Log successful upload
     console.log(`Resume uploaded successfully: ${fileId} (${sanitizedOriginalName})`);
 
+    // Parse for the recruiter dashboard without holding up the response
+    // (OCR can take a while)
+    after(async () => {
+      try {
+        await ensureResumeIndexed(fileId);
+      } catch (error) {
+        console.error(`Failed to index resume ${fileId}:`, error);
+      }
+    });
+
     // Return success response
-    return NextResponse.json({
+    const response = NextResponse.json({
       success: true,
       fileId,
       filename: sanitizedOriginalName,
-      filepath: uniqueFilename,
-      fileSize: file.size,
-      uploadedAt: new Date().toISOString()
+      fileSize: metadata.size,
+      sha256: metadata.sha256,
+      detectedType: metadata.detectedType,
+      pageCount: metadata.pageCount,
+      scan: {
+        verdict: scan.verdict,
+        findings: scan.findings.length
+      },
+      uploadedAt: metadata.uploadedAt
     }, { status: 200 });
 
+    // Candidates can only interview with resumes they uploaded themselves
+    const session = await readSession(request);
+    if (session?.role === 'candidate') {
+      setSessionCookie(response, addToScope(session, { fileId }));
+    }
+
+    return response;
+
   } catch (error) {
     console.error('Upload error:', error);
     
@@ -180,6 +266,7 @@ export async function POST(request: NextRequest) {
         return NextResponse.json(
           { 
             success: false,
+            code: 'FILE_TOO_LARGE',
             error: 'File is too large. Maximum size is 10MB.' 
           },
           { status: 413 }
@@ -191,6 +278,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(
       { 
         success: false,
+        code: 'UPLOAD_FAILED',
         error: 'An unexpected error occurred during upload. Please try again.' 
       },
       { status: 500 }
@@ -207,9 +295,15 @@ export async function GET() {
     endpoint: '/api/upload-resume',
     method: 'POST',
     maxFileSize: `${MAX_FILE_SIZE / 1024 / 1024}MB`,
-    allowedTypes: ['PDF', 'DOCX', 'DOC'],
+    maxFileSizeBytes: MAX_FILE_SIZE,
+    allowedTypes: ALLOWED_TYPE_LABELS,
     allowedMimeTypes: ALLOWED_MIME_TYPES,
-    allowedExtensions: ALLOWED_EXTENSIONS
+    allowedExtensions: ALLOWED_EXTENSIONS,
+    limits: {
+      maxPdfPages: getConfig().parsing.maxPdfPages,
+      maxArchiveUncompressedSize: `${MAX_ARCHIVE_UNCOMPRESSED_SIZE / 1024 / 1024}MB`,
+      maxCompressionRatio: MAX_COMPRESSION_RATIO
+    }
   });
 }
 
@@ -0,0 +1,100 @@
+// app/api/users/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteUser, getUser, toPublicUser, updateUser, validateUserUpdate } from '@/app/lib/users';
+import { readSession } from '@/app/lib/session';
+
+/**
+ * PATCH /api/users/:id
+ * Changes name, role, password or `disabled` (admins only)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_JSON', error: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateUserUpdate(body);
+  if (!validation.valid || !validation.update) {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_USER', error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  // Admins cannot lock themselves out
+  const self = (await readSession(request))?.sub === id;
+  if (self && (validation.update.disabled || (validation.update.role && validation.update.role !== 'admin'))) {
+    return NextResponse.json(
+      { success: false, code: 'SELF_LOCKOUT', error: 'You cannot disable your own account or remove your admin role' },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const user = await getUser(id);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, code: 'NOT_FOUND', error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const updated = await updateUser(user, validation.update);
+    return NextResponse.json({ success: true, user: toPublicUser(updated) });
+  } catch (error) {
+    console.error('User update error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to update user' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/users/:id
+ * Removes a local account (admins only), which also ends its sessions
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if ((await readSession(request))?.sub === id) {
+    return NextResponse.json(
+      { success: false, code: 'SELF_LOCKOUT', error: 'You cannot delete your own account' },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const deleted = await deleteUser(id);
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, code: 'NOT_FOUND', error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('User delete error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to delete user' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
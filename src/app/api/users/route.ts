@@ -0,0 +1,65 @@
+// app/api/users/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { createUser, listUsers, toPublicUser, validateUserInput } from '@/app/lib/users';
+
+/**
+ * GET /api/users
+ * Lists the local recruiter and admin accounts (admins only)
+ */
+export async function GET() {
+  try {
+    const users = await listUsers();
+    return NextResponse.json({ success: true, users: users.map(toPublicUser) });
+  } catch (error) {
+    console.error('User list error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to load users' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/users
+ * Creates a local account (admins only). Body: `{ email, name, role, password }`
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_JSON', error: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateUserInput(body);
+  if (!validation.valid || !validation.input) {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_USER', error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const user = await createUser(validation.input);
+    return NextResponse.json({ success: true, user: toPublicUser(user) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('already exists')) {
+      return NextResponse.json(
+        { success: false, code: 'USER_EXISTS', error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('User create error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to save user' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
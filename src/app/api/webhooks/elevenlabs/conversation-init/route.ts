@@ -0,0 +1,68 @@
+// app/api/webhooks/elevenlabs/conversation-init/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfig } from '@/app/lib/config';
+import { getConversationInitiation, verifyBearerToken } from '@/app/lib/elevenLabsWebhook';
+
+/**
+ * POST /api/webhooks/elevenlabs/conversation-init
+ * Called by the ElevenLabs agent when a call starts. Body:
+ * `{ interview_id }`. Returns the interviewer prompt as a system prompt
+ * override and the session's dynamic variables. Requires
+ * `Authorization: Bearer <ELEVENLABS_WEBHOOK_SECRET>`.
+ */
+export async function POST(request: NextRequest) {
+  const secret = getConfig().elevenLabsWebhookSecret;
+
+  if (!secret) {
+    return NextResponse.json(
+      { success: false, code: 'NOT_CONFIGURED', error: 'ELEVENLABS_WEBHOOK_SECRET is not configured' },
+      { status: 503 }
+    );
+  }
+
+  if (!verifyBearerToken(request.headers.get('authorization'), secret)) {
+    return NextResponse.json(
+      { success: false, code: 'UNAUTHORIZED', error: 'Invalid or missing bearer token' },
+      { status: 401 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_JSON', error: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  const interviewId = (body as { interview_id?: unknown } | null)?.interview_id;
+  if (typeof interviewId !== 'string' || !interviewId) {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_INPUT', error: 'interview_id is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const initiation = await getConversationInitiation(interviewId);
+    if (!initiation) {
+      return NextResponse.json(
+        { success: false, code: 'NOT_FOUND', error: 'No voice session was started for this interview' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(initiation);
+  } catch (error) {
+    console.error('ElevenLabs conversation initiation error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to load the voice session' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,95 @@
+// app/api/webhooks/elevenlabs/route.ts
+import { after, NextRequest, NextResponse } from 'next/server';
+import { getConfig } from '@/app/lib/config';
+import {
+  ingestPostCallTranscript,
+  validatePostCallEvent,
+  verifyWebhookSignature,
+} from '@/app/lib/elevenLabsWebhook';
+import { evaluateTranscript } from '@/app/lib/evaluation';
+
+/**
+ * POST /api/webhooks/elevenlabs
+ * Receives ElevenLabs post-call webhooks. Transcription events are stored
+ * against their interview session; other event types are acknowledged and
+ * ignored. Requires the `ElevenLabs-Signature` header signed with
+ * `ELEVENLABS_WEBHOOK_SECRET`.
+ */
+export async function POST(request: NextRequest) {
+  const secret = getConfig().elevenLabsWebhookSecret;
+
+  if (!secret) {
+    return NextResponse.json(
+      { success: false, code: 'NOT_CONFIGURED', error: 'ELEVENLABS_WEBHOOK_SECRET is not configured' },
+      { status: 503 }
+    );
+  }
+
+  // The signature covers the exact bytes sent, so read the body as text
+  const rawBody = await request.text();
+  const signature = verifyWebhookSignature(rawBody, request.headers.get('elevenlabs-signature'), secret);
+
+  if (!signature.valid) {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_SIGNATURE', error: signature.error },
+      { status: 401 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_JSON', error: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  const type = (body as { type?: unknown } | null)?.type;
+  if (type !== 'post_call_transcription') {
+    return NextResponse.json({ success: true, ignored: true, type });
+  }
+
+  const validation = validatePostCallEvent(body);
+  if (!validation.valid || !validation.event) {
+    return NextResponse.json(
+      { success: false, code: 'INVALID_EVENT', error: validation.error },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { transcript, duplicate, interview } = await ingestPostCallTranscript(validation.event);
+
+    // Scoring calls the LLM, so it runs after the webhook has been answered
+    if (!duplicate) {
+      after(async () => {
+        try {
+          await evaluateTranscript(transcript);
+        } catch (error) {
+          console.error(`Evaluation of conversation ${transcript.id} failed:`, error);
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      duplicate,
+      conversationId: transcript.id,
+      interviewId: interview?.id ?? null,
+      interviewStatus: interview?.status ?? null,
+      turns: transcript.turns.length,
+    });
+  } catch (error) {
+    // A non-2xx response makes ElevenLabs redeliver the event
+    console.error('ElevenLabs webhook error:', error);
+    return NextResponse.json(
+      { success: false, code: 'STORAGE_ERROR', error: 'Failed to store transcript' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,246 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { CandidateDetail as CandidateDetailData } from '@/app/lib/candidates';
+import { formatDuration, STATUS_LABELS, STATUS_STYLES } from './RecruiterDashboard';
+import InvitationForm from './InvitationForm';
+
+interface CandidateDetailProps {
+  fileId: string;
+}
+
+export default function CandidateDetail({ fileId }: CandidateDetailProps) {
+  const [candidate, setCandidate] = useState<CandidateDetailData | null>(null);
+  const [interviewId, setInterviewId] = useState<string | null>(null);
+  const [isScoring, setIsScoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCandidate = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/candidates/${fileId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load candidate');
+      }
+      setCandidate(data.candidate);
+      // Interviews are listed newest first
+      setInterviewId(current => current ?? data.candidate.interviews[0]?.id ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load candidate');
+    }
+  }, [fileId]);
+
+  useEffect(() => {
+    loadCandidate();
+  }, [loadCandidate]);
+
+  const handleScore = async () => {
+    if (!interviewId) return;
+
+    setIsScoring(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/interviews/${interviewId}/scorecard`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to score interview');
+      }
+      await loadCandidate();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to score interview');
+    } finally {
+      setIsScoring(false);
+    }
+  };
+
+  if (!candidate) {
+    return (
+      <div className="container mx-auto max-w-7xl p-6">
+        {error ? (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">{error}</div>
+        ) : (
+          <div className="flex justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const interview = candidate.interviews.find(session => session.id === interviewId);
+  const transcript = interview?.conversationId
+    ? candidate.transcripts.find(record => record.id === interview.conversationId)
+    : undefined;
+  const scorecard = interview ? candidate.scorecards.find(record => record.interviewId === interview.id) : undefined;
+  const name = candidate.interviews.find(session => session.candidateName)?.candidateName ?? candidate.metadata.originalName;
+
+  return (
+    <div className="container mx-auto max-w-7xl p-6">
+      <Link href="/dashboard" className="text-sm text-blue-700 hover:underline">← All candidates</Link>
+
+      <div className="flex flex-wrap items-end justify-between gap-4 mt-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">{name}</h1>
+          <p className="text-sm text-gray-500">
+            {candidate.metadata.originalName} · uploaded {new Date(candidate.metadata.uploadedAt).toLocaleDateString()}
+          </p>
+        </div>
+
+        {candidate.interviews.length > 1 && (
+          <div>
+            <label htmlFor="interview" className="block text-sm font-medium text-gray-700 mb-1">
+              Interview
+            </label>
+            <select
+              id="interview"
+              value={interviewId ?? ''}
+              onChange={(e) => setInterviewId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-black bg-white"
+            >
+              {candidate.interviews.map(session => (
+                <option key={session.id} value={session.id}>
+                  {new Date(session.createdAt).toLocaleString()} · {STATUS_LABELS[session.status]}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">{error}</div>
+      )}
+
+      {!candidate.metadata.scan.quarantined && (
+        <div className="mb-6">
+          <InvitationForm fileId={fileId} defaultName={name === candidate.metadata.originalName ? '' : name} />
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Resume */}
+        <section className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-800">Resume</h2>
+            {!candidate.metadata.scan.quarantined && (
+              <a href={`/api/resumes/${fileId}`} className="text-sm text-blue-700 hover:underline">
+                Download
+              </a>
+            )}
+          </div>
+
+          {candidate.highlights && (
+            <div className="mb-4">
+              {candidate.highlights.latestRole && <p className="text-gray-800">{candidate.highlights.latestRole}</p>}
+              <p className="text-sm text-gray-500">{candidate.highlights.totalYears} years experience</p>
+              <div className="flex flex-wrap gap-1 mt-2">
+                {candidate.highlights.skills.map(skill => (
+                  <span key={skill} className="px-2 py-0.5 bg-blue-50 text-blue-800 rounded text-xs">{skill}</span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {candidate.resumeText ? (
+            <pre className="whitespace-pre-wrap font-sans text-sm text-gray-700 max-h-[70vh] overflow-y-auto">
+              {candidate.resumeText}
+            </pre>
+          ) : (
+            <p className="text-gray-500">
+              {candidate.metadata.scan.quarantined
+                ? `This file was quarantined: ${candidate.metadata.scan.findings.map(finding => finding.detail).join(', ')}`
+                : 'The resume text could not be extracted.'}
+            </p>
+          )}
+        </section>
+
+        {/* Transcript */}
+        <section className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-800">Transcript</h2>
+            {interview && (
+              <span className={`px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[interview.status]}`}>
+                {STATUS_LABELS[interview.status]}
+              </span>
+            )}
+          </div>
+
+          {transcript ? (
+            <>
+              <p className="text-sm text-gray-500 mb-4">
+                {transcript.provider === 'text' ? 'Text chat' : 'Voice call'} · duration {formatDuration(transcript.durationSecs)}
+              </p>
+              <ol className="space-y-3 max-h-[70vh] overflow-y-auto">
+                {transcript.turns.map((turn, index) => (
+                  <li
+                    key={index}
+                    className={`p-3 rounded-lg text-sm ${turn.role === 'user' ? 'bg-blue-50 ml-6' : 'bg-gray-50 mr-6'}`}
+                  >
+                    <p className="text-xs text-gray-500 mb-1">
+                      #{index} · {turn.role === 'user' ? 'Candidate' : 'Interviewer'} · {formatDuration(turn.timeInCallSecs)}
+                    </p>
+                    <p className="text-gray-800">{turn.message}</p>
+                  </li>
+                ))}
+              </ol>
+            </>
+          ) : (
+            <p className="text-gray-500">{interview ? 'No transcript has been received yet.' : 'Not interviewed yet.'}</p>
+          )}
+        </section>
+
+        {/* Scorecard */}
+        <section className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-800">Scorecard</h2>
+            {scorecard && (
+              <span className="text-2xl font-bold text-gray-900">
+                {scorecard.overallScore ?? '–'}<span className="text-sm font-normal text-gray-500"> / 5</span>
+              </span>
+            )}
+          </div>
+
+          {scorecard ? (
+            <>
+              <p className="text-xs text-gray-500 mb-2">
+                Rubric {scorecard.rubricId} v{scorecard.rubricVersion} · {scorecard.model}
+              </p>
+              {scorecard.summary && <p className="text-sm text-gray-700 mb-4">{scorecard.summary}</p>}
+
+              <ul className="space-y-4">
+                {scorecard.competencies.map(competency => (
+                  <li key={competency.id}>
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-800">{competency.name}</span>
+                      <span className="text-sm font-semibold text-gray-900">{competency.score ?? '–'}</span>
+                    </div>
+                    <p className="text-sm text-gray-600">{competency.rationale}</p>
+                    {competency.evidence.map(quote => (
+                      <blockquote
+                        key={`${quote.turn}-${quote.quote}`}
+                        className="mt-1 pl-3 border-l-2 border-blue-300 text-sm text-gray-700 italic"
+                      >
+                        “{quote.quote}” <span className="not-italic text-xs text-gray-500">#{quote.turn}</span>
+                      </blockquote>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : transcript && interview?.status === 'completed' ? (
+            <button
+              onClick={handleScore}
+              disabled={isScoring}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {isScoring ? 'Scoring…' : 'Score interview'}
+            </button>
+          ) : (
+            <p className="text-gray-500">No scorecard yet.</p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -1,250 +1,124 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect } from 'react';
+import type { InvitationDetails } from '@/app/lib/invitations';
+import ResumeUpload from './ResumeUpload';
+import VoiceInterview, { InterviewOutcome, StartedInterview } from './VoiceInterview';
+import TextInterview from './TextInterview';
+
+// Survives reloads after the token has been removed from the address bar
+const INVITATION_STORAGE_KEY = 'invitationToken';
 
 export default function InterviewInterface2() {
   const [name, setName] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const [widgetLoaded, setWidgetLoaded] = useState(false);
-  const [widgetError, setWidgetError] = useState<string | null>(null);
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [accessError, setAccessError] = useState<string | null>(null);
+  const [hasSession, setHasSession] = useState(false);
+  const [fileId, setFileId] = useState<string | null>(null);
+  const [mode, setMode] = useState<StartedInterview['mode']>('voice');
+  const [interview, setInterview] = useState<StartedInterview | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [startError, setStartError] = useState<string | null>(null);
+  const [outcome, setOutcome] = useState<InterviewOutcome | null>(null);
   const [isClient, setIsClient] = useState(false);
-  const scriptLoadedRef = useRef(false);
 
   // Ensure client-side hydration
   useEffect(() => {
     setIsClient(true);
   }, []);
 
-  // Load script once globally (client-side only)
+  // Invitation links (/?invitation=<token>) fix the name, template and resume.
+  // Without one, uploads need an existing session or open candidate access.
   useEffect(() => {
     if (!isClient) return;
-    
-    console.log('🔧 Loading ElevenLabs script globally...');
-    
-    const existingScript = document.querySelector('script[src="https://unpkg.com/@elevenlabs/convai-widget-embed@beta"]');
-    if (existingScript) {
-      scriptLoadedRef.current = true;
-      console.log('📝 Script already exists');
-      return;
-    }
-    
-    const script = document.createElement('script');
-    script.src = 'https://unpkg.com/@elevenlabs/convai-widget-embed@beta';
-    script.async = true;
-    script.type = 'text/javascript';
-    
-    script.onload = () => {
-      console.log('✅ ElevenLabs ConvAI script loaded successfully');
-      scriptLoadedRef.current = true;
-    };
-    
-    script.onerror = (error) => {
-      console.error('❌ Failed to load ElevenLabs ConvAI script:', error);
-      setWidgetError('Failed to load ElevenLabs script');
-    };
-    
-    document.head.appendChild(script);
-    console.log('📦 ElevenLabs script added to document head');
-  }, [isClient]);
 
-  // Initialize widget with dangerouslySetInnerHTML approach (client-side only)
-  useEffect(() => {
-    if (!isClient) return;
-    
-    const timer = setTimeout(() => {
-      console.log('🎤 Checking for widget readiness...');
-      
-      // Wait for custom element to be defined
-      const checkCustomElement = () => {
-        if (customElements.get('elevenlabs-convai')) {
-          console.log('✅ Custom element is defined, setting up widget');
-          setWidgetLoaded(true);
-        } else {
-          console.log('⏳ Custom element not ready, checking again...');
-          setTimeout(checkCustomElement, 500);
+    const ensureSession = async () => {
+      try {
+        const response = await fetch('/api/auth/session');
+        const data = await response.json();
+        if (data.session) {
+          setHasSession(true);
+          return;
         }
-      };
-      
-      checkCustomElement();
-    }, 2000);
-    
-    return () => clearTimeout(timer);
-  }, [isClient]);
-
- // Hide "Powered by Elevenlabs" branding after widget loads
-  useEffect(() => {
-    if (!isClient || !widgetLoaded) return;
-    
-    const hideBranding = () => {
-      // Try multiple selectors to find and hide the branding
-      const selectors = [
-        'a[href*="elevenlabs"]',
-        '[class*="powered"]',
-        '[class*="branding"]',
-        '[data-testid*="powered"]',
-        'div:has(> a[href*="elevenlabs"])',
-        '.powered-by',
-        'p:contains("Powered by")',
-      ];
-      
-      selectors.forEach(selector => {
-        try {
-          const elements = document.querySelectorAll(selector);
-          elements.forEach(el => {
-            const text = el.textContent?.toLowerCase() || '';
-            if (text.includes('powered') || text.includes('elevenlabs')) {
-              (el as HTMLElement).style.display = 'none';
-              console.log('🔇 Hidden branding element:', el);
-            }
-          });
-        } catch {
-          // Selector might not be valid
+        if (data.config?.candidateAccess !== 'open') {
+          throw new Error('Interviews are by invitation only. Please open the link from your invitation.');
         }
-      });
 
-      // Also check inside the custom element's shadow DOM if accessible
-      const widget = document.querySelector('elevenlabs-convai');
-      if (widget && 'shadowRoot' in widget && widget.shadowRoot) {
-        const shadowElements = widget.shadowRoot.querySelectorAll('*');
-        shadowElements.forEach((el: Element) => {
-          const text = el.textContent?.toLowerCase() || '';
-          if (text.includes('powered by elevenlabs') || text.includes('powered by')) {
-            (el as HTMLElement).style.display = 'none';
-            console.log('🔇 Hidden shadow DOM branding:', el);
-          }
+        const candidate = await fetch('/api/auth/candidate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({}),
         });
+        const candidateData = await candidate.json();
+        if (!candidate.ok) {
+          throw new Error(candidateData.error || 'Interviews are not available right now');
+        }
+        setHasSession(true);
+      } catch (error) {
+        setAccessError(error instanceof Error ? error.message : 'Interviews are not available right now');
       }
     };
 
-// Run multiple times to catch dynamically loaded content
-    const intervals = [500, 1000, 2000, 3000];
-    intervals.forEach(delay => {
-      setTimeout(hideBranding, delay);
-    });
+    const token = new URLSearchParams(window.location.search).get('invitation')
+      ?? sessionStorage.getItem(INVITATION_STORAGE_KEY);
+    if (!token) {
+      ensureSession();
+      return;
+    }
 
-    // Also run on interval
-    const interval = setInterval(hideBranding, 2000);
-    
-    return () => clearInterval(interval);
-  }, [isClient, widgetLoaded]);
+    // Keep the token out of the address bar, history and referrers
+    sessionStorage.setItem(INVITATION_STORAGE_KEY, token);
+    window.history.replaceState(null, '', window.location.pathname);
 
- 
+    const openInvitation = async () => {
+      try {
+        const response = await fetch('/api/auth/invitation', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          sessionStorage.removeItem(INVITATION_STORAGE_KEY);
+          throw new Error(data.error || 'This invitation link is not valid');
+        }
+        setInvitation(data.invitation);
+        setName(data.invitation.candidateName);
+        setFileId(data.invitation.resume?.fileId ?? null);
+        setHasSession(true);
+      } catch (error) {
+        setAccessError(error instanceof Error ? error.message : 'This invitation link is not valid');
+      }
+    };
 
+    openInvitation();
+  }, [isClient]);
 
+  const handleStartInterview = async () => {
+    if (!fileId) return;
 
+    setIsStarting(true);
+    setStartError(null);
 
-  const handleN8nFormClick = () => {
-    setIsLoading(true);
-    
-    // Create a wrapper page that will handle the form and auto-close
-    const formUrl = `https://n8n.srv980236.hstgr.cloud/form/2168ee16-0076-4bdb-9c8c-502f5facd164`;
-    
-    // Create wrapper HTML that embeds the form and handles auto-close
-    const wrapperHtml = `
-<!DOCTYPE html>
-<html>
-<head>
-  <title>Interview Form</title>
-  <style>
-    body { margin: 0; padding: 0; font-family: Arial, sans-serif; }
-    iframe { width: 100%; height: 100vh; border: none; }
-    .success-message {
-      position: fixed;
-      top: 20px;
-      right: 20px;
-      background: #4CAF50;
-      color: white;
-      padding: 15px;
-      border-radius: 5px;
-      z-index: 1000;
-      display: none;
-    }
-  </style>
-</head>
-<body>
-  <div class="success-message" id="successMessage">
-    Form submitted successfully! This tab will close in <span id="countdown">3</span> seconds...
-  </div>
-  <iframe src="${formUrl}" id="formFrame"></iframe>
-  
-  <script>
-    // Listen for messages from the iframe (if n8n supports postMessage)
-    window.addEventListener('message', function(event) {
-      if (event.data && typeof event.data === 'string') {
-        if (event.data.includes('submitted') || event.data.includes('success')) {
-          showSuccessAndClose();
-        }
-      }
-    });
-    
-    // Alternative: Monitor URL changes in iframe (limited by CORS)
-    const iframe = document.getElementById('formFrame');
-    
-    // Fallback: Monitor for common success patterns
-    let checkCount = 0;
-    const maxChecks = 600; // 5 minutes
-    
-    const checkForSubmission = () => {
-      checkCount++;
-      if (checkCount > maxChecks) return;
-      
-      try {
-        // This will likely fail due to CORS, but worth trying
-        const iframeDoc = iframe.contentDocument || iframe.contentWindow.document;
-        const bodyText = iframeDoc.body.textContent.toLowerCase();
-        
-        if (bodyText.includes('form submitted') || 
-            bodyText.includes('thank you') || 
-            bodyText.includes('success') ||
-            bodyText.includes('submitted successfully')) {
-          showSuccessAndClose();
-          return;
-        }
-      } catch (e) {
-        // CORS error - expected for external domains
+    try {
+      const response = await fetch('/api/start-interview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fileId, candidateName: name.trim(), mode }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start interview');
       }
-      
-      setTimeout(checkForSubmission, 500);
-    };
-    
-    function showSuccessAndClose() {
-      const successDiv = document.getElementById('successMessage');
-      const countdownSpan = document.getElementById('countdown');
-      successDiv.style.display = 'block';
-      
-      let countdown = 3;
-      const timer = setInterval(() => {
-        countdown--;
-        countdownSpan.textContent = countdown;
-        if (countdown <= 0) {
-          clearInterval(timer);
-          // Hide the success message before closing
-          successDiv.style.display = 'none';
-          // Close the window after a brief delay
-          setTimeout(() => {
-            window.close();
-          }, 100);
-        }
-      }, 1000);
-    }
-    
-    // Start monitoring after iframe loads
-    iframe.onload = () => {
-      setTimeout(checkForSubmission, 1000);
-    };
-    
-    // Manual trigger for testing - remove in production
-    window.triggerClose = showSuccessAndClose;
-  </script>
-</body>
-</html>`;
 
-    // Create blob URL and open in new tab
-    const blob = new Blob([wrapperHtml], { type: 'text/html' });
-    const blobUrl = URL.createObjectURL(blob);
-    window.open(blobUrl, '_blank');
-    
-    setIsLoading(false);
+      // The invitation is used up once its interview has started
+      sessionStorage.removeItem(INVITATION_STORAGE_KEY);
+      setInterview(data);
+    } catch (error) {
+      setStartError(error instanceof Error ? error.message : 'Failed to start interview');
+    } finally {
+      setIsStarting(false);
+    }
   };
 
   return (
@@ -256,6 +130,24 @@ export default function InterviewInterface2() {
       {/* Main Interview Section */}
       <div className="bg-white rounded-lg shadow-md p-6 mb-6">
         <h2 className="text-xl font-semibold mb-4">Start Your AI Interview</h2>
+
+        {accessError && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+            {accessError}
+          </div>
+        )}
+
+        {invitation && (
+          <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg text-blue-800 text-sm">
+            <p>
+              Interview: <span className="font-semibold">{invitation.template.name}</span>
+              {' '}· valid until {new Date(invitation.expiresAt).toLocaleString()}
+            </p>
+            {invitation.resume && (
+              <p className="mt-1">Your resume has already been provided ({invitation.resume.originalName}).</p>
+            )}
+          </div>
+        )}
         
         <div className="mb-6">
           <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
@@ -266,108 +158,100 @@ export default function InterviewInterface2() {
             id="name"
             value={name}
             onChange={(e) => setName(e.target.value)}
+            readOnly={!!invitation}
             placeholder="Enter your full name"
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
+            className={`w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black ${invitation ? 'bg-gray-100 cursor-not-allowed' : ''}`}
           />
         </div>
 
-        {/* ElevenLabs ConvAI Widget */}
-        <div className="mb-6 p-4 border-2 border-blue-300 rounded-lg bg-blue-50">
-          <h3 className="text-lg font-semibold text-blue-800 mb-3">🎤 KI Telefon Interview</h3>
-          <div className="bg-white border border-gray-300 rounded-lg overflow-hidden">
-            {!isClient && (
-              <div className="w-full min-h-[350px] bg-gray-100 border border-dashed border-gray-400 rounded flex items-center justify-center text-gray-600">
-                <div className="text-center">
-                  <p className="font-semibold">Loading...</p>
-                </div>
-              </div>
-            )}
-            
-            {isClient && !widgetLoaded && !widgetError && (
-              <div className="w-full min-h-[350px] bg-gray-100 border border-dashed border-gray-400 rounded flex items-center justify-center text-gray-600">
-                <div className="text-center">
-                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
-                  <p className="font-semibold">Loading AI Voice Interview Widget...</p>
-                  <p className="text-sm text-gray-500 mt-1">Initializing ElevenLabs ConvAI</p>
-                </div>
-              </div>
-            )}
-            
-            {isClient && widgetError && (
-              <div className="w-full min-h-[350px] bg-gray-100 border border-dashed border-gray-400 rounded flex items-center justify-center text-gray-600">
-                <div className="text-center text-red-600">
-                  <div className="text-4xl mb-2">⚠️</div>
-                  <p className="font-semibold">Widget Load Error</p>
-                  <p className="text-sm mt-1">{widgetError}</p>
-                  <button 
-                    onClick={() => window.location.reload()} 
-                    className="mt-2 px-4 py-1 bg-red-100 hover:bg-red-200 rounded text-sm"
-                  >
-                    Reload Page
-                  </button>
-                </div>
-              </div>
-            )}
-            
-            {isClient && widgetLoaded && (
-              <div 
-                className="w-full h-full min-h-[350px]"
-                dangerouslySetInnerHTML={{
-                  __html: `
-                    <style>
-                      /* Hide all possible branding elements globally */
-                      a[href*="elevenlabs"],
-                      [class*="powered"],
-                      [class*="branding"],
-                      [data-testid*="powered"],
-                      .powered-by {
-                        display: none !important;
-                        visibility: hidden !important;
-                        opacity: 0 !important;
-                        height: 0 !important;
-                        width: 0 !important;
-                        position: absolute !important;
-                        left: -9999px !important;
-                      }
-                      
-                      /* Target shadow DOM parts */
-                      elevenlabs-convai::part(powered-by),
-                      elevenlabs-convai::part(branding),
-                      elevenlabs-convai::part(footer) {
-                        display: none !important;
-                      }
-                    </style>
-                    <elevenlabs-convai agent-id="agent_5901kc1rt1baepa8dpq4v5x2v0q5" style="width: 100%; height: 100%; display: block; min-height: 350px; border: none; border-radius: 8px;"></elevenlabs-convai>
-                  `
-                }}
-              />
-            )}
+        {!invitation?.resume && (
+          <div className="mb-6">
+            <p className="block text-sm font-medium text-gray-700 mb-2">Your resume</p>
+            <ResumeUpload onUploaded={setFileId} disabled={!hasSession || !!interview} />
           </div>
-        </div>
+        )}
 
-        {/* N8n Form Button */}
-        <div className="text-center">
-          <button
-            onClick={handleN8nFormClick}
-            disabled={!name.trim() || isLoading}
-            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold py-3 px-8 rounded-lg shadow-md transition-colors duration-200 disabled:cursor-not-allowed"
-          >
-            {isLoading ? (
-              <div className="flex items-center justify-center">
-                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
-                Opening Form...
+        <fieldset className="mb-6">
+          <legend className="block text-sm font-medium text-gray-700 mb-2">How would you like to answer?</legend>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {([
+              ['voice', 'Voice', 'Talk to the interviewer using your microphone'],
+              ['text', 'Text chat', 'Type your answers, e.g. without a microphone or in a noisy place'],
+            ] as const).map(([value, label, description]) => (
+              <label
+                key={value}
+                className={`p-3 border rounded-lg text-sm ${interview ? 'cursor-not-allowed' : 'cursor-pointer'} ${
+                  mode === value ? 'border-blue-500 bg-blue-50' : 'border-gray-300 bg-white'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="mode"
+                  value={value}
+                  checked={mode === value}
+                  onChange={() => setMode(value)}
+                  disabled={!!interview}
+                  className="mr-2"
+                />
+                <span className="font-medium text-gray-800">{label}</span>
+                <span className="block mt-1 text-gray-600">{description}</span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <div className="mb-6 text-center">
+          {interview ? (
+            !outcome && (
+              <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-green-800 text-sm text-left">
+                <p className="font-semibold">Your interview is ready.</p>
+                <p className="mt-1">
+                  {interview.mode === 'text'
+                    ? 'Start the chat with the interviewer below and type your answers.'
+                    : 'Start the conversation with the interviewer below. Your browser will ask for microphone access.'}
+                </p>
+                {interview.isMock && interview.message && (
+                  <p className="mt-1 text-amber-800">{interview.message}</p>
+                )}
               </div>
-            ) : (
-              'Lade Datei hoch'
-            )}
-          </button>
-          
-          {!name.trim() && (
-            <p className="text-sm text-gray-500 mt-2">
-              Please enter your name to continue
-            </p>
+            )
+          ) : (
+            <>
+              <button
+                onClick={handleStartInterview}
+                disabled={!name.trim() || !fileId || isStarting}
+                className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold py-3 px-8 rounded-lg shadow-md transition-colors duration-200 disabled:cursor-not-allowed"
+              >
+                {isStarting ? (
+                  <div className="flex items-center justify-center">
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                    Preparing your interview...
+                  </div>
+                ) : (
+                  'Start interview'
+                )}
+              </button>
+
+              {(!name.trim() || !fileId) && (
+                <p className="text-sm text-gray-500 mt-2">
+                  {!name.trim() ? 'Please enter your name to continue' : 'Please upload your resume to continue'}
+                </p>
+              )}
+
+              {startError && (
+                <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+                  {startError}
+                </div>
+              )}
+            </>
           )}
         </div>
+
+        {interview && (interview.mode === 'text' ? (
+          <TextInterview interview={interview} onEnded={setOutcome} />
+        ) : (
+          <VoiceInterview interview={interview} candidateName={name.trim()} onEnded={setOutcome} />
+        ))}
       </div>
 
       {/* Additional Information */}
@@ -377,17 +261,17 @@ export default function InterviewInterface2() {
         </h3>
         <ul className="list-disc list-inside space-y-2 text-gray-600">
           <li>Enter your name above</li>
-          <li>Click &quot;Open Interview Form&quot; to proceed</li>
-          <li>The interview form will open in a new tab</li>
-          <li>Complete the form in the new tab</li>
-          <li>After submission, the form tab will automatically close in 3 seconds</li>
+          <li>Upload your resume and check what we read from it</li>
+          <li>Choose whether to talk to the AI interviewer or chat in writing</li>
+          <li>Click &quot;Start interview&quot; to prepare your interview</li>
+          <li>Click &quot;Start conversation&quot; or &quot;Start chat&quot; and answer the interviewer&apos;s questions</li>
         </ul>
       </div>
 
       {/* Footer Information */}
       <div className="mt-8 text-center text-sm text-gray-500">
         <p>
-          This will open the interview form in a new tab. After you submit the form, that tab will automatically close. Make sure your browser allows pop-ups.
+          Your resume is checked for unsafe content before it is used. The interviewer only sees it with your contact details removed.
         </p>
       </div>
 
@@ -0,0 +1,184 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { InterviewTemplateSummary } from '@/app/lib/interviewTemplates';
+
+interface InvitationFormProps {
+  /** Resume the invitation is bound to; otherwise the candidate uploads one */
+  fileId?: string;
+  defaultName?: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { hours: 24, label: '1 day' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '7 days' },
+];
+
+export default function InvitationForm({ fileId, defaultName = '' }: InvitationFormProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [templates, setTemplates] = useState<InterviewTemplateSummary[]>([]);
+  const [candidateName, setCandidateName] = useState(defaultName);
+  const [candidateEmail, setCandidateEmail] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  const [expiresInHours, setExpiresInHours] = useState(72);
+  const [url, setUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || templates.length > 0) return;
+
+    const loadTemplates = async () => {
+      try {
+        const response = await fetch('/api/templates');
+        const data = await response.json();
+        setTemplates(data.templates);
+        setTemplateId(current => current || data.defaultTemplateId);
+      } catch {
+        setError('Failed to load interview templates');
+      }
+    };
+
+    loadTemplates();
+  }, [isOpen, templates.length]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/invitations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          candidateName,
+          candidateEmail: candidateEmail || undefined,
+          templateId,
+          fileId,
+          expiresInHours,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create invitation');
+      }
+      setUrl(data.url);
+      setCopied(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create invitation');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!url) return;
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+      >
+        Invite candidate
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 w-full">
+      <form onSubmit={handleSubmit} className="flex flex-wrap gap-4 items-end">
+        <div className="flex-1 min-w-[180px]">
+          <label htmlFor="invite-name" className="block text-sm font-medium text-gray-700 mb-1">
+            Candidate name
+          </label>
+          <input
+            id="invite-name"
+            required
+            value={candidateName}
+            onChange={(e) => setCandidateName(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-black"
+          />
+        </div>
+
+        <div className="flex-1 min-w-[180px]">
+          <label htmlFor="invite-email" className="block text-sm font-medium text-gray-700 mb-1">
+            Email (optional)
+          </label>
+          <input
+            id="invite-email"
+            type="email"
+            value={candidateEmail}
+            onChange={(e) => setCandidateEmail(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-black"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="invite-template" className="block text-sm font-medium text-gray-700 mb-1">
+            Template
+          </label>
+          <select
+            id="invite-template"
+            value={templateId}
+            onChange={(e) => setTemplateId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-black bg-white"
+          >
+            {templates.map(template => (
+              <option key={template.id} value={template.id}>{template.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="invite-expiry" className="block text-sm font-medium text-gray-700 mb-1">
+            Valid for
+          </label>
+          <select
+            id="invite-expiry"
+            value={expiresInHours}
+            onChange={(e) => setExpiresInHours(Number(e.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded-md text-black bg-white"
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.hours} value={option.hours}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSubmitting || !candidateName.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? 'Creating…' : 'Create link'}
+        </button>
+      </form>
+
+      {error && <p className="mt-3 text-sm text-red-700">{error}</p>}
+
+      {url && (
+        <div className="mt-4 flex gap-2 items-center">
+          <input
+            readOnly
+            value={url}
+            onFocus={(e) => e.target.select()}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-gray-50"
+          />
+          <button onClick={handleCopy} className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50">
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+        </div>
+      )}
+      {url && (
+        <p className="mt-1 text-xs text-gray-500">The link works for one interview. It is only shown now.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+
+interface LoginFormProps {
+  /** Where to go after signing in */
+  next: string;
+  /** Error code from a redirect, e.g. after a failed single sign-on */
+  error?: string;
+  /** Whether single sign-on is configured */
+  sso: boolean;
+}
+
+const REDIRECT_ERRORS: Record<string, string> = {
+  forbidden: 'Your account does not have access to this page.',
+  sso: 'Single sign-on failed. Please try again.',
+};
+
+export default function LoginForm({ next, error, sso }: LoginFormProps) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<string | null>(error ? REDIRECT_ERRORS[error] ?? null : null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Login failed');
+      }
+      window.location.assign(next);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Login failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto max-w-md p-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h1 className="text-2xl font-bold text-gray-800 mb-6">Sign in</h1>
+
+        {message && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{message}</div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+              Email
+            </label>
+            <input
+              id="email"
+              type="email"
+              autoComplete="username"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+              Password
+            </label>
+            <input
+              id="password"
+              type="password"
+              autoComplete="current-password"
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Signing in…' : 'Sign in'}
+          </button>
+        </form>
+
+        {sso && (
+          <a
+            href={`/api/auth/oidc/login?next=${encodeURIComponent(next)}`}
+            className="block mt-4 w-full px-4 py-2 text-center border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+          >
+            Sign in with single sign-on
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import InvitationForm from './InvitationForm';
+import type { CandidateSortField, CandidateStatus, CandidateSummary } from '@/app/lib/candidates';
+
+export const STATUS_LABELS: Record<CandidateStatus, string> = {
+  not_interviewed: 'Not interviewed',
+  created: 'Invited',
+  in_progress: 'In progress',
+  completed: 'Completed',
+  abandoned: 'Abandoned',
+  failed: 'Failed',
+};
+
+export const STATUS_STYLES: Record<CandidateStatus, string> = {
+  not_interviewed: 'bg-gray-100 text-gray-700',
+  created: 'bg-blue-100 text-blue-800',
+  in_progress: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  abandoned: 'bg-orange-100 text-orange-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const COLUMNS: { field: CandidateSortField | null; label: string }[] = [
+  { field: 'name', label: 'Candidate' },
+  { field: 'uploadedAt', label: 'Uploaded' },
+  { field: null, label: 'Highlights' },
+  { field: 'status', label: 'Status' },
+  { field: 'duration', label: 'Duration' },
+  { field: 'score', label: 'Score' },
+];
+
+export function formatDuration(seconds?: number): string {
+  if (seconds === undefined) return '–';
+  return `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+}
+
+export default function RecruiterDashboard() {
+  const [candidates, setCandidates] = useState<CandidateSummary[]>([]);
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<CandidateStatus | ''>('');
+  const [minScore, setMinScore] = useState('');
+  const [sort, setSort] = useState<CandidateSortField>('uploadedAt');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ sort, order });
+    if (search.trim()) params.set('search', search.trim());
+    if (status) params.set('status', status);
+    if (minScore) params.set('minScore', minScore);
+
+    const controller = new AbortController();
+
+    // Wait until the recruiter stops typing before searching
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/candidates?${params}`, { signal: controller.signal });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load candidates');
+        }
+        setCandidates(data.candidates);
+        setError(null);
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : 'Failed to load candidates');
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [search, status, minScore, sort, order]);
+
+  const handleSort = (field: CandidateSortField) => {
+    if (field === sort) {
+      setOrder(order === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSort(field);
+      setOrder(field === 'name' ? 'asc' : 'desc');
+    }
+  };
+
+  const handleSignOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    window.location.assign('/login');
+  };
+
+  return (
+    <div className="container mx-auto max-w-6xl p-6">
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-3xl font-bold text-gray-800">Candidates</h1>
+        <button onClick={handleSignOut} className="text-sm text-gray-600 hover:text-gray-900">
+          Sign out
+        </button>
+      </div>
+
+      <div className="mb-6">
+        <InvitationForm />
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-md p-4 mb-6 flex flex-wrap gap-4 items-end">
+        <div className="flex-1 min-w-[240px]">
+          <label htmlFor="search" className="block text-sm font-medium text-gray-700 mb-1">
+            Search resumes
+          </label>
+          <input
+            id="search"
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="e.g. Kubernetes Berlin"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="status" className="block text-sm font-medium text-gray-700 mb-1">
+            Status
+          </label>
+          <select
+            id="status"
+            value={status}
+            onChange={(e) => setStatus(e.target.value as CandidateStatus | '')}
+            className="px-3 py-2 border border-gray-300 rounded-md text-black bg-white"
+          >
+            <option value="">All</option>
+            {(Object.keys(STATUS_LABELS) as CandidateStatus[]).map(value => (
+              <option key={value} value={value}>{STATUS_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="minScore" className="block text-sm font-medium text-gray-700 mb-1">
+            Minimum score
+          </label>
+          <select
+            id="minScore"
+            value={minScore}
+            onChange={(e) => setMinScore(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-black bg-white"
+          >
+            <option value="">Any</option>
+            {[2, 3, 4].map(value => (
+              <option key={value} value={value}>{value}+</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">{error}</div>
+      )}
+
+      {/* Candidate table */}
+      <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-gray-50 text-gray-600 uppercase text-xs">
+            <tr>
+              {COLUMNS.map(({ field, label }) => (
+                <th key={label} className="px-4 py-3">
+                  {field ? (
+                    <button
+                      onClick={() => handleSort(field)}
+                      className="uppercase font-semibold hover:text-gray-900"
+                    >
+                      {label}
+                      {sort === field && (order === 'asc' ? ' ▲' : ' ▼')}
+                    </button>
+                  ) : (
+                    label
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {candidates.map(candidate => (
+              <tr key={candidate.fileId} className="hover:bg-gray-50 align-top">
+                <td className="px-4 py-3">
+                  <Link href={`/dashboard/${candidate.fileId}`} className="font-semibold text-blue-700 hover:underline">
+                    {candidate.name}
+                  </Link>
+                  {candidate.name !== candidate.originalName && (
+                    <p className="text-xs text-gray-500">{candidate.originalName}</p>
+                  )}
+                  {candidate.searchSnippet && (
+                    <p className="text-xs text-gray-500 mt-1 max-w-xs">{candidate.searchSnippet}</p>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-gray-700 whitespace-nowrap">
+                  {new Date(candidate.uploadedAt).toLocaleDateString()}
+                </td>
+                <td className="px-4 py-3 text-gray-700">
+                  {candidate.quarantined ? (
+                    <span className="text-red-700">Quarantined</span>
+                  ) : candidate.highlights ? (
+                    <>
+                      {candidate.highlights.latestRole && <p>{candidate.highlights.latestRole}</p>}
+                      <p className="text-xs text-gray-500">{candidate.highlights.totalYears} years experience</p>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {candidate.highlights.skills.map(skill => (
+                          <span key={skill} className="px-2 py-0.5 bg-blue-50 text-blue-800 rounded text-xs">{skill}</span>
+                        ))}
+                      </div>
+                    </>
+                  ) : (
+                    <span className="text-gray-400">Not parsed yet</span>
+                  )}
+                </td>
+                <td className="px-4 py-3">
+                  <span className={`px-2 py-1 rounded text-xs font-medium whitespace-nowrap ${STATUS_STYLES[candidate.status]}`}>
+                    {STATUS_LABELS[candidate.status]}
+                  </span>
+                  {candidate.interviewCount > 1 && (
+                    <p className="text-xs text-gray-500 mt-1">{candidate.interviewCount} interviews</p>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-gray-700">{formatDuration(candidate.durationSecs)}</td>
+                <td className="px-4 py-3 text-gray-900 font-semibold">
+                  {typeof candidate.overallScore === 'number' ? `${candidate.overallScore} / 5` : '–'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {!isLoading && candidates.length === 0 && (
+          <p className="p-6 text-center text-gray-500">No candidates match these filters.</p>
+        )}
+        {isLoading && candidates.length === 0 && (
+          <div className="p-6 flex justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { ResumePreview } from '@/app/lib/resumeIndex';
+
+/**
+ * What `GET /api/upload-resume` reports about accepted files
+ */
+interface UploadCapabilities {
+  maxFileSize: string;
+  maxFileSizeBytes: number;
+  allowedTypes: string[];
+  allowedMimeTypes: string[];
+  allowedExtensions: string[];
+}
+
+/**
+ * Response of `POST /api/upload-resume`; findings are listed only for
+ * quarantined files
+ */
+interface UploadResponse {
+  success: boolean;
+  fileId?: string;
+  error?: string;
+  scan?: { findings: number | { detail: string }[] };
+}
+
+interface UploadError {
+  message: string;
+  details?: string[];
+}
+
+type UploadPhase = 'idle' | 'uploading' | 'reading' | 'done';
+
+interface ResumeUploadProps {
+  /** Called with the file ID once the resume is stored and readable, and with null when it is discarded */
+  onUploaded: (fileId: string | null) => void;
+  disabled?: boolean;
+}
+
+// The server rejects longer names; see /api/upload-resume
+const MAX_FILENAME_LENGTH = 255;
+
+export default function ResumeUpload({ onUploaded, disabled = false }: ResumeUploadProps) {
+  const [capabilities, setCapabilities] = useState<UploadCapabilities | null>(null);
+  const [phase, setPhase] = useState<UploadPhase>('idle');
+  const [progress, setProgress] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ResumePreview | null>(null);
+  const [error, setError] = useState<UploadError | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const loadCapabilities = async () => {
+      try {
+        const response = await fetch('/api/upload-resume');
+        if (!response.ok) {
+          throw new Error();
+        }
+        setCapabilities(await response.json());
+      } catch {
+        setError({ message: 'Uploads are not available right now. Please reload the page.' });
+      }
+    };
+
+    loadCapabilities();
+  }, []);
+
+  const isBusy = phase === 'uploading' || phase === 'reading';
+
+  const handleFile = async (file: File) => {
+    if (!capabilities || disabled || isBusy) return;
+
+    setError(null);
+    setPreview(null);
+    setFileName(file.name);
+    onUploaded(null);
+
+    const problem = validateFile(file, capabilities);
+    if (problem) {
+      setError({ message: problem });
+      setPhase('idle');
+      return;
+    }
+
+    setPhase('uploading');
+    setProgress(0);
+
+    try {
+      const upload = await uploadWithProgress(file, setProgress);
+      if (!upload.success || !upload.fileId) {
+        const findings = upload.scan?.findings;
+        setError({
+          message: upload.error || 'Upload failed. Please try again.',
+          details: Array.isArray(findings) ? findings.map(finding => finding.detail) : undefined,
+        });
+        setPhase('idle');
+        return;
+      }
+
+      // Parsing can take a while for scanned documents that need OCR
+      setPhase('reading');
+      const response = await fetch(`/api/resumes/${encodeURIComponent(upload.fileId)}/preview`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'The resume could not be read');
+      }
+
+      setPreview(data.preview);
+      setPhase('done');
+      onUploaded(upload.fileId);
+    } catch (err) {
+      setError({ message: err instanceof Error ? err.message : 'Upload failed. Please try again.' });
+      setPhase('idle');
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      handleFile(file);
+    }
+  };
+
+  const handleReset = () => {
+    setPhase('idle');
+    setPreview(null);
+    setFileName(null);
+    setError(null);
+    onUploaded(null);
+    if (inputRef.current) {
+      inputRef.current.value = '';
+    }
+  };
+
+  if (phase === 'done' && preview) {
+    return (
+      <div className="p-4 border border-green-200 rounded-lg bg-green-50">
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <p className="font-semibold text-green-800">{preview.originalName}</p>
+            <p className="text-sm text-green-700">
+              {preview.detectedType.toUpperCase()}
+              {preview.pageCount ? ` · ${preview.pageCount} page${preview.pageCount === 1 ? '' : 's'}` : ''}
+              {` · ${preview.characters.toLocaleString()} characters read`}
+            </p>
+          </div>
+          {!disabled && (
+            <button onClick={handleReset} className="text-sm text-gray-600 hover:text-gray-800 underline">
+              Use a different file
+            </button>
+          )}
+        </div>
+
+        {preview.characters === 0 ? (
+          <p className="mt-3 text-sm text-amber-800">
+            No text could be read from this file. The interviewer will not know your background; consider uploading a text-based PDF instead.
+          </p>
+        ) : (
+          <>
+            <dl className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-2 text-sm text-gray-700">
+              <div>
+                <dt className="text-gray-500">Latest role</dt>
+                <dd>{preview.highlights.latestRole ?? '—'}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Experience</dt>
+                <dd>{preview.highlights.totalYears} years · {preview.positions} positions</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Skills</dt>
+                <dd>{preview.highlights.skills.join(', ') || '—'}</dd>
+              </div>
+            </dl>
+            {preview.sections.length > 0 && (
+              <p className="mt-2 text-xs text-gray-500">Sections found: {preview.sections.join(', ')}</p>
+            )}
+            <details className="mt-3 text-sm">
+              <summary className="cursor-pointer text-gray-600">Show extracted text</summary>
+              <pre className="mt-2 p-2 bg-white border border-gray-200 rounded text-xs text-gray-700 whitespace-pre-wrap max-h-48 overflow-y-auto">
+                {preview.excerpt}
+              </pre>
+            </details>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !isBusy && !disabled && inputRef.current?.click()}
+        className={`p-6 border-2 border-dashed rounded-lg text-center transition-colors ${
+          disabled || !capabilities
+            ? 'border-gray-200 bg-gray-50 text-gray-400 cursor-not-allowed'
+            : isDragging
+              ? 'border-blue-500 bg-blue-50 text-blue-700 cursor-copy'
+              : 'border-gray-300 bg-white text-gray-600 hover:border-blue-400 cursor-pointer'
+        }`}
+      >
+        <input
+          ref={inputRef}
+          type="file"
+          accept={capabilities?.allowedExtensions.join(',')}
+          disabled={disabled || isBusy || !capabilities}
+          onClick={(e) => e.stopPropagation()}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) {
+              handleFile(file);
+            }
+          }}
+          className="hidden"
+        />
+
+        {phase === 'uploading' && (
+          <div>
+            <p className="font-medium">Uploading {fileName}…</p>
+            <div className="mt-3 h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-600 transition-all" style={{ width: `${progress}%` }} />
+            </div>
+            <p className="mt-1 text-xs text-gray-500">{progress}%</p>
+          </div>
+        )}
+
+        {phase === 'reading' && (
+          <div className="flex items-center justify-center">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600 mr-2"></div>
+            <p className="font-medium">Reading {fileName}…</p>
+          </div>
+        )}
+
+        {phase === 'idle' && (
+          <>
+            <p className="font-medium">Drop your resume here or click to choose a file</p>
+            {capabilities && (
+              <p className="mt-1 text-xs text-gray-500">
+                {capabilities.allowedTypes.join(', ')} · up to {capabilities.maxFileSize}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+
+      {error && (
+        <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+          <p>{fileName ? `${fileName}: ` : ''}{error.message}</p>
+          {error.details && error.details.length > 0 && (
+            <ul className="mt-1 list-disc list-inside">
+              {error.details.map((detail, i) => <li key={i}>{detail}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The checks of /api/upload-resume that can run before sending the file.
+ * Content checks (magic bytes, page limits, safety scan) stay on the server.
+ */
+function validateFile(file: File, capabilities: UploadCapabilities): string | null {
+  if (file.size === 0) {
+    return 'File is empty. Please upload a valid resume.';
+  }
+  if (file.size > capabilities.maxFileSizeBytes) {
+    return `File size exceeds maximum limit of ${capabilities.maxFileSize}. Please upload a smaller file.`;
+  }
+
+  const extension = file.name.includes('.') ? file.name.slice(file.name.lastIndexOf('.')).toLowerCase() : '';
+  if (!capabilities.allowedExtensions.includes(extension)) {
+    return `Invalid file extension. Only ${capabilities.allowedExtensions.join(', ')} files are allowed.`;
+  }
+  if (file.type && !capabilities.allowedMimeTypes.includes(file.type)) {
+    return `Invalid file type. Only ${capabilities.allowedTypes.join(', ')} files are allowed.`;
+  }
+  if (file.name.length > MAX_FILENAME_LENGTH) {
+    return 'Filename is too long. Please rename the file.';
+  }
+  return null;
+}
+
+/**
+ * POST the file to /api/upload-resume. Uses XMLHttpRequest because fetch
+ * does not report upload progress.
+ */
+function uploadWithProgress(
+  file: File,
+  onProgress: (percent: number) => void
+): Promise<UploadResponse> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', '/api/upload-resume');
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) {
+        onProgress(Math.round((e.loaded / e.total) * 100));
+      }
+    };
+
+    xhr.onload = () => {
+      try {
+        resolve(JSON.parse(xhr.responseText));
+      } catch {
+        // e.g. the platform's own 413 page for oversized bodies
+        resolve({ success: false, error: `Upload failed (${xhr.status})` });
+      }
+    };
+    xhr.onerror = () => reject(new Error('Network error. Please check your connection and try again.'));
+
+    const formData = new FormData();
+    formData.append('resume', file);
+    xhr.send(formData);
+  });
+}
@@ -0,0 +1,222 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { InterviewOutcome, StartedInterview } from './VoiceInterview';
+
+interface TextInterviewProps {
+  interview: Extract<StartedInterview, { mode: 'text' }>;
+  onEnded?: (outcome: InterviewOutcome) => void;
+}
+
+interface ChatLine {
+  role: 'agent' | 'user';
+  message: string;
+}
+
+// The server rejects longer messages; see lib/textInterview.ts
+const MAX_MESSAGE_LENGTH = 4000;
+
+export default function TextInterview({ interview, onEnded }: TextInterviewProps) {
+  const [lines, setLines] = useState<ChatLine[]>([]);
+  const [draft, setDraft] = useState('');
+  const [isReplying, setIsReplying] = useState(false);
+  const [isEnding, setIsEnding] = useState(false);
+  const [outcome, setOutcome] = useState<InterviewOutcome | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Read in the pagehide handler, which keeps the values from when it was added
+  const activeRef = useRef(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const interviewUrl = `/api/interviews/${encodeURIComponent(interview.interviewId)}`;
+
+  // Keep the newest message in view while the reply streams in
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [lines]);
+
+  // Closing the tab mid-chat leaves the interview unfinished
+  useEffect(() => {
+    const handlePageHide = () => {
+      if (activeRef.current) {
+        activeRef.current = false;
+        fetch(interviewUrl, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ status: 'abandoned' }),
+          keepalive: true,
+        }).catch(error => console.error('Failed to report interview status:', error));
+      }
+    };
+
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [interviewUrl]);
+
+  /**
+   * Send a message, or none to get the interviewer's opening, and show the
+   * reply as it streams in
+   */
+  const send = async (message?: string) => {
+    const previous = lines;
+    setError(null);
+    setIsReplying(true);
+    setDraft('');
+    if (message !== undefined) {
+      setLines([...previous, { role: 'user', message }]);
+    }
+
+    try {
+      const response = await fetch(`${interviewUrl}/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(message === undefined ? {} : { message }),
+      });
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'The interviewer could not reply');
+      }
+
+      activeRef.current = true;
+      setLines(current => [...current, { role: 'agent', message: '' }]);
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        const chunk = decoder.decode(value, { stream: true });
+        setLines(current => [
+          ...current.slice(0, -1),
+          { role: 'agent', message: current[current.length - 1].message + chunk },
+        ]);
+      }
+    } catch (err) {
+      // Neither the message nor a partial reply was saved, so it can be sent again
+      setLines(previous);
+      if (message !== undefined) {
+        setDraft(message);
+      }
+      setError(err instanceof Error ? err.message : 'The interviewer could not reply');
+    } finally {
+      setIsReplying(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.trim() && !isReplying) {
+      send(draft.trim());
+    }
+  };
+
+  const handleEnd = async () => {
+    setIsEnding(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${interviewUrl}/chat/end`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'The interview could not be ended');
+      }
+
+      activeRef.current = false;
+      const result: InterviewOutcome = { status: 'completed' };
+      setOutcome(result);
+      onEnded?.(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The interview could not be ended');
+    } finally {
+      setIsEnding(false);
+    }
+  };
+
+  const hasStarted = lines.length > 0;
+
+  return (
+    <div className="p-4 border-2 border-blue-300 rounded-lg bg-blue-50">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-blue-800">💬 Text interview</h3>
+        {isReplying && hasStarted && (
+          <span className="text-sm text-gray-700">The interviewer is typing…</span>
+        )}
+      </div>
+
+      {hasStarted && (
+        <div
+          ref={listRef}
+          aria-live="polite"
+          className="mb-3 max-h-96 overflow-y-auto bg-white border border-gray-200 rounded-lg p-3 space-y-2 text-sm"
+        >
+          {lines.map((line, i) => (
+            <p
+              key={i}
+              className={`whitespace-pre-wrap ${line.role === 'agent' ? 'text-gray-800' : 'text-blue-700 text-right'}`}
+            >
+              <span className="font-semibold">{line.role === 'agent' ? 'Interviewer' : 'You'}: </span>
+              {line.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      {outcome ? (
+        <p className="text-center text-sm text-gray-700">The interview has ended. Thank you for your time!</p>
+      ) : !hasStarted ? (
+        <div className="text-center">
+          <button
+            onClick={() => send()}
+            disabled={isReplying}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold py-3 px-8 rounded-lg shadow-md transition-colors duration-200 disabled:cursor-not-allowed"
+          >
+            {isReplying ? 'Connecting…' : 'Start chat'}
+          </button>
+        </div>
+      ) : (
+        <>
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <label htmlFor="chat-message" className="sr-only">Your answer</label>
+            <textarea
+              id="chat-message"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                // Enter sends, Shift+Enter starts a new line
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  handleSubmit(e);
+                }
+              }}
+              maxLength={MAX_MESSAGE_LENGTH}
+              rows={3}
+              placeholder="Type your answer…"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
+            />
+            <button
+              type="submit"
+              disabled={!draft.trim() || isReplying || isEnding}
+              className="self-end bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold py-2 px-6 rounded-lg shadow-md transition-colors duration-200 disabled:cursor-not-allowed"
+            >
+              Send
+            </button>
+          </form>
+          <div className="mt-3 text-center">
+            <button
+              onClick={handleEnd}
+              disabled={isReplying || isEnding}
+              className="bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white font-semibold py-2 px-6 rounded-lg shadow-md transition-colors duration-200 disabled:cursor-not-allowed"
+            >
+              {isEnding ? 'Ending…' : 'End interview'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useConversation } from '@elevenlabs/react';
+import type { DisconnectionDetails, Role } from '@elevenlabs/react';
+
+interface StartedInterviewBase {
+  interviewId: string;
+  candidateName?: string;
+  isMock?: boolean;
+  message?: string;
+}
+
+/**
+ * Response of `POST /api/start-interview`; only voice interviews get a
+ * signed URL
+ */
+export type StartedInterview =
+  | (StartedInterviewBase & { mode: 'voice'; signedUrl: string })
+  | (StartedInterviewBase & { mode: 'text' });
+
+/**
+ * How the call ended, as reported to `PATCH /api/interviews/:id`
+ */
+export type InterviewOutcome =
+  | { status: 'completed' }
+  | { status: 'abandoned' }
+  | { status: 'failed'; reason: string };
+
+interface VoiceInterviewProps {
+  interview: Extract<StartedInterview, { mode: 'voice' }>;
+  candidateName: string;
+  onEnded?: (outcome: InterviewOutcome) => void;
+}
+
+interface TranscriptLine {
+  source: Role;
+  message: string;
+}
+
+const STATUS_LABELS = {
+  disconnected: 'Not connected',
+  connecting: 'Connecting…',
+  connected: 'Connected',
+  disconnecting: 'Ending…',
+} as const;
+
+export default function VoiceInterview({ interview, candidateName, onEnded }: VoiceInterviewProps) {
+  const [transcript, setTranscript] = useState<TranscriptLine[]>([]);
+  const [outcome, setOutcome] = useState<InterviewOutcome | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Read inside SDK callbacks, which keep the values from when they were created
+  const connectedRef = useRef(false);
+  const reportedRef = useRef(false);
+
+  const finish = (result: InterviewOutcome) => {
+    if (reportedRef.current) return;
+    reportedRef.current = true;
+    setOutcome(result);
+    // A finished call is completed by its transcript from the provider;
+    // the page only reports calls that broke off
+    if (result.status !== 'completed') {
+      reportTransition(interview.interviewId, {
+        status: 'abandoned',
+        ...(result.status === 'failed' ? { reason: result.reason } : {}),
+      });
+    }
+    onEnded?.(result);
+  };
+
+  const conversation = useConversation({
+    onConnect: () => {
+      connectedRef.current = true;
+      reportTransition(interview.interviewId, { status: 'in_progress' });
+    },
+    onDisconnect: (details: DisconnectionDetails) => {
+      // Before the call connects, errors are shown and the candidate can retry
+      if (connectedRef.current) {
+        if (details.reason === 'error') {
+          setError(details.message || 'The connection to the interviewer was lost');
+          finish({ status: 'failed', reason: details.message || 'Connection lost' });
+        } else {
+          // Hanging up ourselves or the agent closing the call both end the interview
+          finish({ status: 'completed' });
+        }
+      }
+      connectedRef.current = false;
+    },
+    onError: (message: string) => {
+      console.error('Conversation error:', message);
+      setError(message);
+    },
+    onMessage: ({ message, source }) => {
+      setTranscript(lines => [...lines, { source, message }]);
+    },
+  });
+
+  // Closing the tab mid-call leaves the interview unfinished
+  useEffect(() => {
+    const handlePageHide = () => {
+      if (connectedRef.current && !reportedRef.current) {
+        reportedRef.current = true;
+        reportTransition(interview.interviewId, { status: 'abandoned' }, true);
+      }
+    };
+
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [interview.interviewId]);
+
+  const handleStart = async () => {
+    setError(null);
+
+    try {
+      // Ask up front so a denied permission gets a clear message; the SDK
+      // opens its own stream
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      stream.getTracks().forEach(track => track.stop());
+    } catch {
+      setError('Please allow microphone access to start the interview.');
+      return;
+    }
+
+    try {
+      await conversation.startSession({
+        signedUrl: interview.signedUrl,
+        // The agent gets the interviewer prompt from the server by
+        // `interview_id`, which also matches the transcript to the interview
+        dynamicVariables: {
+          interview_id: interview.interviewId,
+          candidate_name: candidateName,
+        },
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not connect to the interviewer');
+    }
+  };
+
+  const handleEnd = async () => {
+    await conversation.endSession();
+  };
+
+  const { status, isSpeaking } = conversation;
+  const isLive = status === 'connected';
+
+  return (
+    <div className="p-4 border-2 border-blue-300 rounded-lg bg-blue-50">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-blue-800">🎤 Voice interview</h3>
+        <span className="flex items-center gap-2 text-sm text-gray-700">
+          <span
+            className={`inline-block h-2.5 w-2.5 rounded-full ${
+              isLive ? 'bg-green-500' : status === 'connecting' ? 'bg-yellow-400 animate-pulse' : 'bg-gray-400'
+            }`}
+          />
+          {STATUS_LABELS[status]}
+        </span>
+      </div>
+
+      {isLive && (
+        <p className="mb-3 text-center text-sm font-medium text-blue-800">
+          {isSpeaking ? 'The interviewer is speaking…' : 'Listening — go ahead and answer'}
+        </p>
+      )}
+
+      {transcript.length > 0 && (
+        <div className="mb-3 max-h-64 overflow-y-auto bg-white border border-gray-200 rounded-lg p-3 space-y-2 text-sm">
+          {transcript.map((line, i) => (
+            <p key={i} className={line.source === 'ai' ? 'text-gray-800' : 'text-blue-700 text-right'}>
+              <span className="font-semibold">{line.source === 'ai' ? 'Interviewer' : 'You'}: </span>
+              {line.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      {outcome ? (
+        <p className="text-center text-sm text-gray-700">
+          {outcome.status === 'completed'
+            ? 'The interview has ended. Thank you for your time!'
+            : 'The interview could not be completed.'}
+        </p>
+      ) : (
+        <div className="text-center">
+          {isLive || status === 'disconnecting' ? (
+            <button
+              onClick={handleEnd}
+              disabled={status === 'disconnecting'}
+              className="bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white font-semibold py-3 px-8 rounded-lg shadow-md transition-colors duration-200"
+            >
+              End interview
+            </button>
+          ) : (
+            <button
+              onClick={handleStart}
+              disabled={status === 'connecting'}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold py-3 px-8 rounded-lg shadow-md transition-colors duration-200 disabled:cursor-not-allowed"
+            >
+              {status === 'connecting' ? 'Connecting…' : 'Start conversation'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Report a status change of the interview. `keepalive` lets the request
+ * outlive the page when the tab is closed.
+ */
+function reportTransition(interviewId: string, body: Record<string, string>, keepalive = false) {
+  return fetch(`/api/interviews/${encodeURIComponent(interviewId)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    keepalive,
+  }).catch(error => console.error('Failed to report interview status:', error));
+}
@@ -0,0 +1,11 @@
+import CandidateDetail from '../../components/CandidateDetail';
+
+export default async function CandidatePage({ params }: { params: Promise<{ fileId: string }> }) {
+  const { fileId } = await params;
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-12">
+      <CandidateDetail fileId={fileId} />
+    </main>
+  );
+}
@@ -0,0 +1,9 @@
+import RecruiterDashboard from '../components/RecruiterDashboard';
+
+export default function DashboardPage() {
+  return (
+    <main className="min-h-screen bg-gray-50 py-12">
+      <RecruiterDashboard />
+    </main>
+  );
+}
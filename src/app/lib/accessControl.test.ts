@@ -0,0 +1,69 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { authorize, safeNextPath } from './accessControl';
+import type { Session } from './session';
+
+const INTERVIEW_ID = '5f0c7d2e-1a3b-4c5d-8e9f-0a1b2c3d4e5f';
+
+const candidate: Session = {
+  sub: 'candidate_1',
+  role: 'candidate',
+  name: 'Candidate',
+  provider: 'candidate',
+  interviewIds: [INTERVIEW_ID],
+  exp: Math.floor(Date.now() / 1000) + 3600,
+};
+
+beforeAll(() => {
+  process.env.AUTH_SECRET = 'access-control-test-secret-0123456789abcdef';
+});
+
+describe('authorize', () => {
+  it('lets candidates reach their own interview', () => {
+    expect(authorize(candidate, 'GET', `/api/interviews/${INTERVIEW_ID}`)).toEqual({ allowed: true });
+    expect(authorize(candidate, 'GET', '/api/interviews/someone-else')).toMatchObject({ allowed: false, status: 403 });
+  });
+
+  it('matches policies against the decoded path', () => {
+    const encoded = `/api/interviews/${encodeURIComponent(INTERVIEW_ID).replace('5', '%35')}`;
+    expect(authorize(candidate, 'GET', encoded)).toEqual({ allowed: true });
+
+    // Still the staff-only candidate list, however it is spelled
+    expect(authorize(candidate, 'GET', '/api/%63andidates')).toMatchObject({ allowed: false, status: 403 });
+    expect(authorize(null, 'GET', '/api/%75sers')).toMatchObject({ allowed: false, status: 401 });
+  });
+
+  it.each([
+    '/api/interviews/%E0%A4%A',
+    '/api/interviews/%',
+    `/api/interviews/${INTERVIEW_ID}%2Fchat`,
+    '/api/interviews/%2e%2e/users',
+    '/api/%5Cusers',
+  ])('denies the malformed path %s', pathname => {
+    expect(authorize(candidate, 'GET', pathname)).toMatchObject({ allowed: false, status: 400, code: 'INVALID_PATH' });
+  });
+});
+
+describe('safeNextPath', () => {
+  it('keeps local paths with their query and fragment', () => {
+    expect(safeNextPath('/interviews/1?tab=scorecard#notes')).toBe('/interviews/1?tab=scorecard#notes');
+    expect(safeNextPath('/dashboard/../users', '/dashboard')).toBe('/users');
+  });
+
+  it.each([
+    '//evil.com',
+    '/\\evil.com',
+    '/\t/evil.com',
+    '/\n/evil.com',
+    'https://evil.com',
+    'javascript:alert(1)',
+    'dashboard',
+    '',
+  ])('falls back for %j', next => {
+    expect(safeNextPath(next, '/dashboard')).toBe('/dashboard');
+  });
+
+  it('falls back without a next path', () => {
+    expect(safeNextPath(null)).toBe('/');
+    expect(safeNextPath(undefined, '/dashboard')).toBe('/dashboard');
+  });
+});
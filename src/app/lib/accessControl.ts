@@ -0,0 +1,162 @@
+// lib/accessControl.ts
+// Which roles may call which routes. Enforced for every request by the
+// proxy (src/proxy.ts); paths without a policy are public pages.
+import { getConfig } from './config';
+import { canAccessFile, canAccessInterview, getAuthSecret, Role, Session, STAFF_ROLES } from './session';
+
+export interface RoutePolicy {
+  pattern: RegExp;
+  /** Methods the policy applies to; all methods if omitted */
+  methods?: string[];
+  access: 'public' | Role[];
+  /**
+   * Candidates must have the interview captured by the pattern's first
+   * group in their session scope
+   */
+  interviewScope?: boolean;
+  /**
+   * Candidates must have the resume captured by the pattern's first group
+   * in their session scope
+   */
+  fileScope?: boolean;
+}
+
+export type AccessDecision =
+  | { allowed: true }
+  | { allowed: false; status: 400 | 401 | 403 | 503; code: string; error: string };
+
+const ANY_ROLE: Role[] = [...STAFF_ROLES, 'candidate'];
+
+/**
+ * Checked in order; the first policy matching path and method applies
+ */
+export const ROUTE_POLICIES: RoutePolicy[] = [
+  // Login, logout, candidate sessions, invitation links and the OIDC redirect flow
+  { pattern: /^\/api\/auth(\/|$)/, access: 'public' },
+  // These check a webhook signature or CRON_SECRET themselves
+  { pattern: /^\/api\/webhooks\//, access: 'public' },
+  { pattern: /^\/api\/retention\/purge$/, access: 'public' },
+  // Probed by load balancers and monitoring; details are limited for visitors
+  { pattern: /^\/api\/health$/, methods: ['GET'], access: 'public' },
+
+  // The candidate interview flow
+  { pattern: /^\/api\/upload-resume$/, methods: ['GET', 'POST'], access: ANY_ROLE },
+  { pattern: /^\/api\/start-interview$/, methods: ['POST'], access: ANY_ROLE },
+  { pattern: /^\/api\/templates$/, methods: ['GET'], access: ANY_ROLE },
+  { pattern: /^\/api\/resumes\/([^/]+)\/preview$/, methods: ['GET'], access: ANY_ROLE, fileScope: true },
+  { pattern: /^\/api\/interviews\/([^/]+)$/, methods: ['GET', 'PATCH'], access: ANY_ROLE, interviewScope: true },
+  { pattern: /^\/api\/interviews\/([^/]+)\/chat(\/end)?$/, methods: ['GET', 'POST'], access: ANY_ROLE, interviewScope: true },
+
+  { pattern: /^\/api\/users(\/|$)/, access: ['admin'] },
+  { pattern: /^\/api\//, access: STAFF_ROLES },
+  { pattern: /^\/dashboard(\/|$)/, access: STAFF_ROLES },
+];
+
+/**
+ * The policy for a request. Methods not listed for a candidate route fall
+ * through to the staff-only policy for all API routes.
+ */
+export function findRoutePolicy(method: string, pathname: string): RoutePolicy | null {
+  return ROUTE_POLICIES.find(policy =>
+    policy.pattern.test(pathname) && (!policy.methods || policy.methods.includes(method))
+  ) ?? null;
+}
+
+/**
+ * `CANDIDATE_ACCESS`: `open` lets any visitor start a candidate session,
+ * `invitation` (default) requires an invitation link
+ */
+export function getCandidateAccessMode(): 'open' | 'invitation' {
+  return getConfig().auth.candidateAccess;
+}
+
+// Resolves relative paths only; the host never leaves this origin
+const NEXT_PATH_BASE = 'http://next.invalid';
+
+/**
+ * A local path to return to after signing in; anything else becomes the
+ * fallback. The path is resolved the way a browser would, so `//host`,
+ * `/\host` and paths with tabs or newlines (which browsers strip) cannot
+ * lead to another site.
+ */
+export function safeNextPath(next: string | null | undefined, fallback = '/'): string {
+  if (!next || !next.startsWith('/') || hasControlCharacters(next)) return fallback;
+
+  let url: URL;
+  try {
+    url = new URL(next, NEXT_PATH_BASE);
+  } catch {
+    return fallback;
+  }
+  return url.origin === NEXT_PATH_BASE ? url.pathname + url.search + url.hash : fallback;
+}
+
+function hasControlCharacters(value: string): boolean {
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code < 0x20 || code === 0x7f) return true;
+  }
+  return false;
+}
+
+/**
+ * The path with each segment percent-decoded, as the route handlers see
+ * it. Null when a segment is not valid percent-encoding or decodes to a
+ * separator or `.`/`..`, which would make it a different path.
+ */
+function normalizePath(pathname: string): string | null {
+  let segments: string[];
+  try {
+    segments = pathname.split('/').map(segment => decodeURIComponent(segment));
+  } catch {
+    return null;
+  }
+
+  return segments.some(segment => /[/\\]/.test(segment) || segment === '.' || segment === '..')
+    ? null
+    : segments.join('/');
+}
+
+/**
+ * Decide whether a session may make a request. Policies are matched
+ * against the decoded path, so encoded characters cannot route around them.
+ */
+export function authorize(session: Session | null, method: string, pathname: string): AccessDecision {
+  const path = normalizePath(pathname);
+  if (path === null) {
+    return { allowed: false, status: 400, code: 'INVALID_PATH', error: 'Malformed request path' };
+  }
+
+  const policy = findRoutePolicy(method, path);
+  if (!policy || policy.access === 'public') {
+    return { allowed: true };
+  }
+
+  if (!getAuthSecret()) {
+    return { allowed: false, status: 503, code: 'AUTH_NOT_CONFIGURED', error: 'AUTH_SECRET is not configured' };
+  }
+
+  if (!session) {
+    return { allowed: false, status: 401, code: 'UNAUTHORIZED', error: 'Please sign in' };
+  }
+
+  if (!policy.access.includes(session.role)) {
+    return { allowed: false, status: 403, code: 'FORBIDDEN', error: 'You do not have access to this resource' };
+  }
+
+  if (policy.interviewScope) {
+    const interviewId = path.match(policy.pattern)?.[1] ?? '';
+    if (!canAccessInterview(session, interviewId)) {
+      return { allowed: false, status: 403, code: 'FORBIDDEN', error: 'You do not have access to this interview' };
+    }
+  }
+
+  if (policy.fileScope) {
+    const fileId = path.match(policy.pattern)?.[1] ?? '';
+    if (!canAccessFile(session, fileId)) {
+      return { allowed: false, status: 403, code: 'FORBIDDEN', error: 'You do not have access to this resume' };
+    }
+  }
+
+  return { allowed: true };
+}
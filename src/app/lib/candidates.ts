@@ -0,0 +1,185 @@
+// lib/candidates.ts
+// Candidate overview for recruiters: each uploaded resume joined with its
+// interview sessions, transcripts and scorecards
+import { getResumeStore, ResumeMetadata } from './resumeStore';
+import { ensureResumeIndexed, listResumeIndexEntries, ResumeHighlights } from './resumeIndex';
+import { INTERVIEW_STATUSES, InterviewRecord, InterviewStatus, listInterviews, listInterviewsForFile } from './interviews';
+import { listTranscripts, listTranscriptsForFile, TranscriptRecord } from './transcripts';
+import { listScorecards, listScorecardsForFile, Scorecard } from './evaluation';
+
+export type CandidateStatus = InterviewStatus | 'not_interviewed';
+
+export const CANDIDATE_STATUSES: CandidateStatus[] = ['not_interviewed', ...INTERVIEW_STATUSES];
+
+export type CandidateSortField = 'uploadedAt' | 'name' | 'status' | 'duration' | 'score';
+
+export const CANDIDATE_SORT_FIELDS: CandidateSortField[] = ['uploadedAt', 'name', 'status', 'duration', 'score'];
+
+export interface CandidateQuery {
+  /** Words that must all appear in the resume text, file name or candidate name */
+  search?: string;
+  status?: CandidateStatus;
+  minScore?: number;
+  sort?: CandidateSortField;
+  order?: 'asc' | 'desc';
+}
+
+export interface CandidateSummary {
+  fileId: string;
+  /** Candidate name from the latest interview, or the file name */
+  name: string;
+  originalName: string;
+  uploadedAt: string;
+  quarantined: boolean;
+  /** Null until the resume has been indexed */
+  highlights: ResumeHighlights | null;
+  /** State of the latest interview */
+  status: CandidateStatus;
+  interviewId?: string;
+  interviewCount: number;
+  durationSecs?: number;
+  /** Overall score of the latest scorecard of the latest interview */
+  overallScore?: number | null;
+  /** Resume text around the first search match */
+  searchSnippet?: string;
+}
+
+export interface CandidateDetail {
+  metadata: ResumeMetadata;
+  /** Null for quarantined files and resumes that could not be parsed */
+  resumeText: string | null;
+  highlights: ResumeHighlights | null;
+  interviews: InterviewRecord[];
+  transcripts: TranscriptRecord[];
+  scorecards: Scorecard[];
+}
+
+const SNIPPET_RADIUS = 60;
+
+/**
+ * Candidates matching the query, sorted
+ */
+export async function listCandidates(query: CandidateQuery = {}): Promise<CandidateSummary[]> {
+  const [resumes, index, interviews, transcripts, scorecards] = await Promise.all([
+    getResumeStore().list(),
+    listResumeIndexEntries(),
+    listInterviews(),
+    listTranscripts(),
+    listScorecards(),
+  ]);
+
+  const terms = (query.search ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  const candidates: CandidateSummary[] = [];
+
+  for (const metadata of resumes) {
+    const entry = index.find(candidate => candidate.id === metadata.fileId);
+    // Interviews are listed newest first
+    const sessions = interviews.filter(interview => interview.fileId === metadata.fileId);
+    const latest = sessions[0];
+    const transcript = latest?.conversationId ? transcripts.find(record => record.id === latest.conversationId) : undefined;
+    const scorecard = latest ? scorecards.find(record => record.interviewId === latest.id) : undefined;
+    const name = sessions.find(session => session.candidateName)?.candidateName ?? metadata.originalName;
+
+    let searchSnippet: string | undefined;
+    if (terms.length > 0) {
+      const text = entry?.text ?? '';
+      const haystack = [text, name, metadata.originalName, ...(entry?.highlights.skills ?? [])].join('\n').toLowerCase();
+      if (!terms.every(term => haystack.includes(term))) continue;
+      searchSnippet = snippet(text, terms[0]);
+    }
+
+    const candidate: CandidateSummary = {
+      fileId: metadata.fileId,
+      name,
+      originalName: metadata.originalName,
+      uploadedAt: metadata.uploadedAt,
+      quarantined: metadata.scan.quarantined,
+      highlights: entry?.highlights ?? null,
+      status: latest?.status ?? 'not_interviewed',
+      interviewId: latest?.id,
+      interviewCount: sessions.length,
+      durationSecs: transcript?.durationSecs,
+      overallScore: scorecard?.overallScore,
+      searchSnippet,
+    };
+
+    if (query.status && candidate.status !== query.status) continue;
+    if (query.minScore !== undefined && (candidate.overallScore ?? -1) < query.minScore) continue;
+
+    candidates.push(candidate);
+  }
+
+  return sortCandidates(candidates, query.sort ?? 'uploadedAt', query.order ?? 'desc');
+}
+
+/**
+ * Everything held for one candidate. Returns null if the resume is unknown.
+ */
+export async function getCandidateDetail(fileId: string): Promise<CandidateDetail | null> {
+  const metadata = await getResumeStore().getMetadata(fileId);
+  if (!metadata) {
+    return null;
+  }
+
+  let entry = null;
+  try {
+    entry = await ensureResumeIndexed(fileId);
+  } catch (error) {
+    console.error(`Failed to index resume ${fileId}:`, error);
+  }
+
+  const [interviews, transcripts, scorecards] = await Promise.all([
+    listInterviewsForFile(fileId),
+    listTranscriptsForFile(fileId),
+    listScorecardsForFile(fileId),
+  ]);
+
+  return {
+    metadata,
+    resumeText: entry?.text ?? null,
+    highlights: entry?.highlights ?? null,
+    interviews,
+    transcripts,
+    scorecards: scorecards.sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+  };
+}
+
+function sortCandidates(
+  candidates: CandidateSummary[],
+  field: CandidateSortField,
+  order: 'asc' | 'desc'
+): CandidateSummary[] {
+  const value = (candidate: CandidateSummary): string | number | undefined => {
+    switch (field) {
+      case 'name': return candidate.name.toLowerCase();
+      case 'status': return CANDIDATE_STATUSES.indexOf(candidate.status);
+      case 'duration': return candidate.durationSecs;
+      case 'score': return candidate.overallScore ?? undefined;
+      default: return candidate.uploadedAt;
+    }
+  };
+
+  return [...candidates].sort((a, b) => {
+    const left = value(a);
+    const right = value(b);
+
+    // Candidates without a value go last in either order
+    if (left === undefined || right === undefined) {
+      return left === right ? 0 : left === undefined ? 1 : -1;
+    }
+
+    const compared = left < right ? -1 : left > right ? 1 : 0;
+    return order === 'asc' ? compared : -compared;
+  });
+}
+
+function snippet(text: string, term: string): string | undefined {
+  const index = text.toLowerCase().indexOf(term);
+  if (index < 0) {
+    return undefined;
+  }
+
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + term.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+}
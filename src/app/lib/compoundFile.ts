@@ -0,0 +1,223 @@
+// lib/compoundFile.ts
+// Minimal reader for OLE compound files (Structured Storage), the container
+// format of Word 97-2003 .doc files
+
+export const OLE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+const HEADER_SIZE = 512;
+const DIRECTORY_ENTRY_SIZE = 128;
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+const NO_STREAM = 0xffffffff;
+
+const ENTRY_TYPE_STORAGE = 1;
+const ENTRY_TYPE_STREAM = 2;
+const ENTRY_TYPE_ROOT = 5;
+
+/**
+ * Directory entry of a compound file. `path` joins storage names with '/'.
+ */
+export interface CompoundFileEntry {
+  name: string;
+  path: string;
+  type: 'storage' | 'stream' | 'root';
+  size: number;
+}
+
+export interface CompoundFile {
+  entries: CompoundFileEntry[];
+  getStream(path: string): Buffer | null;
+}
+
+interface RawEntry {
+  name: string;
+  type: number;
+  left: number;
+  right: number;
+  child: number;
+  startSector: number;
+  size: number;
+}
+
+/**
+ * Check whether a buffer starts with the OLE compound file signature
+ */
+export function isCompoundFile(buffer: Buffer): boolean {
+  return buffer.length >= HEADER_SIZE && buffer.subarray(0, 8).equals(OLE_SIGNATURE);
+}
+
+/**
+ * Parse an OLE compound file from memory
+ */
+export function readCompoundFile(buffer: Buffer): CompoundFile {
+  if (!isCompoundFile(buffer)) {
+    throw new Error('Not an OLE compound file.');
+  }
+
+  const sectorSize = 1 << buffer.readUInt16LE(0x1e);
+  const miniSectorSize = 1 << buffer.readUInt16LE(0x20);
+  const fatSectorCount = buffer.readUInt32LE(0x2c);
+  const firstDirectorySector = buffer.readUInt32LE(0x30);
+  const miniStreamCutoff = buffer.readUInt32LE(0x38);
+  const firstMiniFatSector = buffer.readUInt32LE(0x3c);
+  const firstDifatSector = buffer.readUInt32LE(0x44);
+
+  if (sectorSize !== 512 && sectorSize !== 4096) {
+    throw new Error(`Invalid compound file sector size: ${sectorSize}`);
+  }
+
+  const sectorCount = Math.floor((buffer.length - HEADER_SIZE) / sectorSize);
+
+  const readSector = (sector: number): Buffer => {
+    if (sector >= sectorCount) {
+      throw new Error(`Compound file sector ${sector} is out of range.`);
+    }
+    const offset = HEADER_SIZE + sector * sectorSize;
+    return buffer.subarray(offset, offset + sectorSize);
+  };
+
+  // Collect FAT sector locations from the header DIFAT and any DIFAT sectors
+  const fatSectors: number[] = [];
+  for (let i = 0; i < 109 && fatSectors.length < fatSectorCount; i++) {
+    fatSectors.push(buffer.readUInt32LE(0x4c + i * 4));
+  }
+
+  let difatSector = firstDifatSector;
+  const visitedDifat = new Set<number>();
+  while (
+    fatSectors.length < fatSectorCount &&
+    difatSector !== END_OF_CHAIN &&
+    difatSector !== FREE_SECTOR &&
+    !visitedDifat.has(difatSector)
+  ) {
+    visitedDifat.add(difatSector);
+    const data = readSector(difatSector);
+    const perSector = sectorSize / 4 - 1;
+    for (let i = 0; i < perSector && fatSectors.length < fatSectorCount; i++) {
+      fatSectors.push(data.readUInt32LE(i * 4));
+    }
+    difatSector = data.readUInt32LE(perSector * 4);
+  }
+
+  const fat: number[] = [];
+  for (const sector of fatSectors) {
+    const data = readSector(sector);
+    for (let i = 0; i < sectorSize / 4; i++) {
+      fat.push(data.readUInt32LE(i * 4));
+    }
+  }
+
+  const readChain = (start: number, table: number[], read: (sector: number) => Buffer): Buffer => {
+    const chunks: Buffer[] = [];
+    const visited = new Set<number>();
+    let sector = start;
+
+    while (sector !== END_OF_CHAIN && sector !== FREE_SECTOR) {
+      if (visited.has(sector) || sector >= table.length) {
+        throw new Error('Corrupted compound file: invalid sector chain.');
+      }
+      visited.add(sector);
+      chunks.push(read(sector));
+      sector = table[sector];
+    }
+
+    return Buffer.concat(chunks);
+  };
+
+  const directoryData = readChain(firstDirectorySector, fat, readSector);
+  const rawEntries: RawEntry[] = [];
+
+  for (let offset = 0; offset + DIRECTORY_ENTRY_SIZE <= directoryData.length; offset += DIRECTORY_ENTRY_SIZE) {
+    const entry = directoryData.subarray(offset, offset + DIRECTORY_ENTRY_SIZE);
+    const nameLength = Math.min(entry.readUInt16LE(64), 64);
+
+    rawEntries.push({
+      name: entry.subarray(0, Math.max(0, nameLength - 2)).toString('utf16le'),
+      type: entry.readUInt8(66),
+      left: entry.readUInt32LE(68),
+      right: entry.readUInt32LE(72),
+      child: entry.readUInt32LE(76),
+      startSector: entry.readUInt32LE(116),
+      size: entry.readUInt32LE(120),
+    });
+  }
+
+  const root = rawEntries[0];
+  if (!root || root.type !== ENTRY_TYPE_ROOT) {
+    throw new Error('Corrupted compound file: missing root entry.');
+  }
+
+  // Small streams live in the mini stream, addressed through the mini FAT
+  const miniStream = root.startSector === END_OF_CHAIN
+    ? Buffer.alloc(0)
+    : readChain(root.startSector, fat, readSector);
+
+  const miniFat: number[] = [];
+  if (firstMiniFatSector !== END_OF_CHAIN) {
+    const miniFatData = readChain(firstMiniFatSector, fat, readSector);
+    for (let i = 0; i + 4 <= miniFatData.length; i += 4) {
+      miniFat.push(miniFatData.readUInt32LE(i));
+    }
+  }
+
+  const readMiniSector = (sector: number): Buffer => {
+    const offset = sector * miniSectorSize;
+    if (offset + miniSectorSize > miniStream.length) {
+      throw new Error(`Compound file mini sector ${sector} is out of range.`);
+    }
+    return miniStream.subarray(offset, offset + miniSectorSize);
+  };
+
+  // Walk the red-black tree of each storage to build entry paths
+  const entries: CompoundFileEntry[] = [];
+  const entryIndexByPath = new Map<string, number>();
+  const visitedEntries = new Set<number>();
+
+  const walk = (index: number, parentPath: string) => {
+    if (index === NO_STREAM || index >= rawEntries.length || visitedEntries.has(index)) {
+      return;
+    }
+    visitedEntries.add(index);
+
+    const entry = rawEntries[index];
+    walk(entry.left, parentPath);
+
+    const entryPath = parentPath ? `${parentPath}/${entry.name}` : entry.name;
+    if (entry.type === ENTRY_TYPE_STORAGE || entry.type === ENTRY_TYPE_STREAM) {
+      entries.push({
+        name: entry.name,
+        path: entryPath,
+        type: entry.type === ENTRY_TYPE_STORAGE ? 'storage' : 'stream',
+        size: entry.size,
+      });
+      entryIndexByPath.set(entryPath.toLowerCase(), index);
+    }
+
+    if (entry.type === ENTRY_TYPE_STORAGE) {
+      walk(entry.child, entryPath);
+    }
+
+    walk(entry.right, parentPath);
+  };
+
+  entries.push({ name: root.name, path: '', type: 'root', size: root.size });
+  walk(root.child, '');
+
+  return {
+    entries,
+    getStream(streamPath: string): Buffer | null {
+      const index = entryIndexByPath.get(streamPath.toLowerCase());
+      if (index === undefined) return null;
+
+      const entry = rawEntries[index];
+      if (entry.type !== ENTRY_TYPE_STREAM) return null;
+      if (entry.size === 0) return Buffer.alloc(0);
+
+      const data = entry.size < miniStreamCutoff
+        ? readChain(entry.startSector, miniFat, readMiniSector)
+        : readChain(entry.startSector, fat, readSector);
+
+      return data.subarray(0, entry.size);
+    },
+  };
+}
@@ -0,0 +1,370 @@
+// lib/config.ts
+// Deployment settings from environment variables, parsed and validated in
+// one place. Server only: the browser gets the PublicConfig subset from
+// /api/auth/session.
+import path from 'path';
+import type { OidcConfig } from './oidc';
+import type { RedactionMode } from './piiRedaction';
+import type { S3Config } from './s3Client';
+
+export interface ServerConfig {
+  /** Where JSON records (interviews, transcripts, users, ...) are kept */
+  dataDir: string;
+  auth: {
+    /** Null when `AUTH_SECRET` is not set; protected routes then return 503 */
+    secret: string | null;
+    staffSessionHours: number;
+    candidateSessionHours: number;
+    candidateAccess: 'open' | 'invitation';
+    invitationTtlHours: number;
+    /** Credentials that may create the first admin while no accounts exist */
+    bootstrapAdmin: { email: string; password: string } | null;
+    /** Null when single sign-on is not configured */
+    oidc: OidcConfig | null;
+  };
+  storage:
+    | { backend: 'local'; dir: string }
+    | { backend: 's3'; s3: S3Config; prefix: string };
+  parsing: {
+    pdfExtractionMode: 'layout' | 'plain';
+    maxPdfPages: number;
+    ocr: { enabled: boolean; minConfidence: number; maxPages: number; languages: string[] };
+    quarantineLevel: 'dangerous' | 'suspicious';
+    redactionMode: RedactionMode;
+    timelineMinGapMonths: number;
+    /** Tenant skill taxonomy merged into the built-in one */
+    skillTaxonomyPath: string | null;
+  };
+  retention: {
+    daysAfterInterview: number;
+    daysWithoutInterview: number;
+    daysQuarantine: number;
+    /** 0 disables the in-process schedule */
+    purgeIntervalHours: number;
+    /** Bearer token for POST /api/retention/purge */
+    cronSecret: string | null;
+  };
+  llm:
+    | { provider: 'openai'; apiKey: string; baseUrl: string; model: string }
+    | { provider: 'mock' };
+  voice:
+    | { provider: 'elevenlabs'; apiKey: string; agentId: string }
+    | { provider: 'mock'; port: number; url: string | null };
+  /** HMAC secret of the ElevenLabs post-call webhook */
+  elevenLabsWebhookSecret: string | null;
+}
+
+/**
+ * Settings the browser may see; never add secrets here
+ */
+export interface PublicConfig {
+  candidateAccess: ServerConfig['auth']['candidateAccess'];
+  /** Staff can sign in with single sign-on */
+  sso: boolean;
+  /** Interview modes that run against a scripted mock interviewer */
+  demo: { voice: boolean; text: boolean };
+}
+
+const MIN_SECRET_LENGTH = 32;
+
+let config: ServerConfig | null = null;
+
+/**
+ * The validated settings. Throws with every problem found, so a broken
+ * deployment fails at startup (see instrumentation.ts) rather than on the
+ * first request that needs the setting.
+ */
+export function getConfig(): ServerConfig {
+  if (config) {
+    return config;
+  }
+
+  const { config: parsed, errors } = readConfig(process.env);
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n${errors.map(error => `- ${error}`).join('\n')}`);
+  }
+
+  config = parsed;
+  return config;
+}
+
+export function getPublicConfig(): PublicConfig {
+  const { auth, llm, voice } = getConfig();
+  return {
+    candidateAccess: auth.candidateAccess,
+    sso: auth.oidc !== null,
+    demo: { voice: voice.provider === 'mock', text: llm.provider === 'mock' },
+  };
+}
+
+/**
+ * Parse the settings and collect all problems instead of stopping at the
+ * first one
+ */
+export function readConfig(env: NodeJS.ProcessEnv): { config: ServerConfig; errors: string[] } {
+  const read = new EnvReader(env);
+
+  const config: ServerConfig = {
+    dataDir: path.resolve(read.string('DATA_DIR') ?? path.join(process.cwd(), 'data')),
+    auth: {
+      secret: readSecret(read),
+      staffSessionHours: read.number('AUTH_SESSION_HOURS', 8, { min: 0.1 }),
+      candidateSessionHours: read.number('CANDIDATE_SESSION_HOURS', 4, { min: 0.1 }),
+      candidateAccess: read.oneOf('CANDIDATE_ACCESS', ['invitation', 'open'], 'invitation'),
+      invitationTtlHours: read.number('INVITATION_TTL_HOURS', 72, { min: 1, max: 30 * 24 }),
+      bootstrapAdmin: readBootstrapAdmin(read),
+      oidc: readOidc(read),
+    },
+    storage: readStorage(read),
+    parsing: {
+      pdfExtractionMode: read.oneOf('PDF_EXTRACTION_MODE', ['layout', 'plain'], 'layout'),
+      maxPdfPages: read.number('MAX_PDF_PAGES', 20, { min: 1, integer: true }),
+      ocr: {
+        enabled: read.boolean('OCR_ENABLED', true),
+        minConfidence: read.number('OCR_MIN_CONFIDENCE', 60, { min: 0, max: 100 }),
+        maxPages: read.number('OCR_MAX_PAGES', 5, { min: 1, integer: true }),
+        languages: read.list('OCR_LANGUAGES', ['eng', 'deu']),
+      },
+      quarantineLevel: read.oneOf('SCAN_QUARANTINE_LEVEL', ['dangerous', 'suspicious'], 'dangerous'),
+      redactionMode: read.oneOf('PII_REDACTION_MODE', ['full', 'contact', 'off'], 'full'),
+      timelineMinGapMonths: read.number('TIMELINE_MIN_GAP_MONTHS', 3, { min: 1, integer: true }),
+      skillTaxonomyPath: read.string('SKILL_TAXONOMY_PATH') ?? null,
+    },
+    retention: {
+      daysAfterInterview: read.number('RETENTION_DAYS_AFTER_INTERVIEW', 30, { min: 0 }),
+      daysWithoutInterview: read.number('RETENTION_DAYS_WITHOUT_INTERVIEW', 90, { min: 0 }),
+      daysQuarantine: read.number('RETENTION_DAYS_QUARANTINE', 7, { min: 0 }),
+      purgeIntervalHours: read.number('RETENTION_PURGE_INTERVAL_HOURS', 24, { min: 0 }),
+      cronSecret: read.secret('CRON_SECRET') ?? null,
+    },
+    llm: readLlm(read),
+    voice: readVoice(read),
+    elevenLabsWebhookSecret: read.secret('ELEVENLABS_WEBHOOK_SECRET') ?? null,
+  };
+
+  return { config, errors: read.errors };
+}
+
+function readSecret(read: EnvReader): string | null {
+  const secret = read.secret('AUTH_SECRET');
+  if (secret && secret.length < MIN_SECRET_LENGTH) {
+    read.errors.push(`AUTH_SECRET must be at least ${MIN_SECRET_LENGTH} characters long`);
+  }
+  return secret ?? null;
+}
+
+function readBootstrapAdmin(read: EnvReader): ServerConfig['auth']['bootstrapAdmin'] {
+  const email = read.string('AUTH_ADMIN_EMAIL');
+  const password = read.secret('AUTH_ADMIN_PASSWORD');
+  if (!email && !password) {
+    return null;
+  }
+
+  if (!email || !password) {
+    read.errors.push('AUTH_ADMIN_EMAIL and AUTH_ADMIN_PASSWORD must be set together');
+    return null;
+  }
+  return { email: email.toLowerCase(), password };
+}
+
+function readOidc(read: EnvReader): OidcConfig | null {
+  const required = read.allOrNone('single sign-on', ['OIDC_ISSUER', 'OIDC_CLIENT_ID', 'OIDC_CLIENT_SECRET']);
+  if (!required) {
+    return null;
+  }
+
+  const [issuer, clientId, clientSecret] = required;
+  read.url('OIDC_ISSUER', issuer, ['https:', 'http:']);
+
+  return {
+    issuer: issuer.replace(/\/+$/, ''),
+    clientId,
+    clientSecret,
+    redirectUri: read.string('OIDC_REDIRECT_URI'),
+    scopes: read.string('OIDC_SCOPES') ?? 'openid email profile',
+    roleClaim: read.string('OIDC_ROLE_CLAIM') ?? 'roles',
+    adminValues: read.list('OIDC_ADMIN_VALUES', ['admin']),
+    recruiterValues: read.list('OIDC_RECRUITER_VALUES', ['recruiter']),
+  };
+}
+
+function readStorage(read: EnvReader): ServerConfig['storage'] {
+  const backend = read.oneOf('RESUME_STORAGE', ['local', 's3'], 'local');
+
+  if (backend === 'local') {
+    return { backend, dir: path.resolve(read.string('RESUME_STORAGE_DIR') ?? path.join(process.cwd(), 'uploads')) };
+  }
+
+  const [endpoint = '', bucket = '', accessKeyId = '', secretAccessKey = ''] = read.required(
+    'RESUME_STORAGE=s3',
+    ['S3_ENDPOINT', 'S3_BUCKET', 'S3_ACCESS_KEY_ID', 'S3_SECRET_ACCESS_KEY']
+  );
+  if (endpoint) {
+    read.url('S3_ENDPOINT', endpoint, ['https:', 'http:']);
+  }
+
+  return {
+    backend,
+    s3: {
+      endpoint,
+      bucket,
+      region: read.string('S3_REGION') ?? 'us-east-1',
+      accessKeyId,
+      secretAccessKey,
+      forcePathStyle: read.boolean('S3_FORCE_PATH_STYLE', false),
+    },
+    prefix: read.string('S3_PREFIX') ?? '',
+  };
+}
+
+function readLlm(read: EnvReader): ServerConfig['llm'] {
+  const apiKey = read.string('LLM_API_KEY');
+  const provider = read.oneOf('LLM_PROVIDER', ['openai', 'mock'], apiKey ? 'openai' : 'mock');
+
+  if (provider === 'mock') {
+    return { provider };
+  }
+
+  if (!apiKey) {
+    read.errors.push('LLM_PROVIDER=openai requires LLM_API_KEY');
+  }
+  const baseUrl = read.string('LLM_BASE_URL') ?? 'https://api.openai.com/v1';
+  read.url('LLM_BASE_URL', baseUrl, ['https:', 'http:']);
+
+  return { provider, apiKey: apiKey ?? '', baseUrl, model: read.string('LLM_MODEL') ?? 'gpt-4o-mini' };
+}
+
+function readVoice(read: EnvReader): ServerConfig['voice'] {
+  const provider = read.oneOf('VOICE_PROVIDER', ['elevenlabs', 'mock'], read.string('ELEVENLABS_API_KEY') ? 'elevenlabs' : 'mock');
+
+  // A production server does not fall back to the scripted interviewer
+  if (provider === 'mock' && !read.string('VOICE_PROVIDER') && read.string('NODE_ENV') === 'production') {
+    read.errors.push('Set ELEVENLABS_API_KEY and ELEVENLABS_AGENT_ID, or VOICE_PROVIDER=mock to run the mock voice agent in production');
+  }
+
+  if (provider === 'elevenlabs') {
+    const [apiKey = '', agentId = ''] = read.required('VOICE_PROVIDER=elevenlabs', ['ELEVENLABS_API_KEY', 'ELEVENLABS_AGENT_ID']);
+    return { provider, apiKey, agentId };
+  }
+
+  const url = read.string('MOCK_VOICE_URL');
+  if (url) {
+    read.url('MOCK_VOICE_URL', url, ['ws:', 'wss:']);
+  }
+
+  return {
+    provider,
+    port: read.number('MOCK_VOICE_PORT', 8787, { min: 1, max: 65535, integer: true }),
+    url: url?.replace(/\/+$/, '') ?? null,
+  };
+}
+
+/**
+ * Typed access to environment variables that records what is wrong
+ * instead of throwing. Empty values count as unset.
+ */
+class EnvReader {
+  errors: string[] = [];
+
+  constructor(private env: NodeJS.ProcessEnv) {}
+
+  string(name: string): string | undefined {
+    const value = this.env[name]?.trim();
+    return value ? value : undefined;
+  }
+
+  /**
+   * Like `string`, but kept exactly as set
+   */
+  secret(name: string): string | undefined {
+    return this.env[name] || undefined;
+  }
+
+  number(name: string, fallback: number, limits: { min?: number; max?: number; integer?: boolean } = {}): number {
+    const raw = this.string(name);
+    if (raw === undefined) {
+      return fallback;
+    }
+
+    const value = Number(raw);
+    const { min = -Infinity, max = Infinity, integer = false } = limits;
+    if (!Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+      const range = [
+        min > -Infinity ? `at least ${min}` : '',
+        max < Infinity ? `at most ${max}` : '',
+      ].filter(Boolean).join(' and ');
+      this.errors.push(`${name} must be ${integer ? 'a whole number' : 'a number'}${range ? ` ${range}` : ''}, got "${raw}"`);
+      return fallback;
+    }
+    return value;
+  }
+
+  boolean(name: string, fallback: boolean): boolean {
+    const raw = this.string(name);
+    if (raw === undefined) {
+      return fallback;
+    }
+    if (raw !== 'true' && raw !== 'false') {
+      this.errors.push(`${name} must be "true" or "false", got "${raw}"`);
+      return fallback;
+    }
+    return raw === 'true';
+  }
+
+  oneOf<T extends string>(name: string, values: readonly T[], fallback: T): T {
+    const raw = this.string(name);
+    if (raw === undefined) {
+      return fallback;
+    }
+    if (!values.includes(raw as T)) {
+      this.errors.push(`${name} must be one of ${values.map(value => `"${value}"`).join(', ')}, got "${raw}"`);
+      return fallback;
+    }
+    return raw as T;
+  }
+
+  list(name: string, fallback: string[]): string[] {
+    const items = (this.string(name) ?? '').split(',').map(item => item.trim()).filter(Boolean);
+    return items.length > 0 ? items : fallback;
+  }
+
+  url(name: string, value: string, protocols: string[]): void {
+    let protocol: string | null = null;
+    try {
+      protocol = new URL(value).protocol;
+    } catch {
+      // Reported below
+    }
+    if (!protocol || !protocols.includes(protocol)) {
+      this.errors.push(`${name} must be a ${protocols.map(item => item.replace(':', '')).join(' or ')} URL, got "${value}"`);
+    }
+  }
+
+  /**
+   * Values of settings a feature needs; missing ones are reported
+   */
+  required(feature: string, names: string[]): (string | undefined)[] {
+    const values = names.map(name => this.string(name));
+    const missing = names.filter((_, i) => values[i] === undefined);
+    if (missing.length > 0) {
+      this.errors.push(`${feature} requires ${missing.join(', ')}`);
+    }
+    return values;
+  }
+
+  /**
+   * Values of settings that enable a feature together: null when none is
+   * set, and an error when only some are
+   */
+  allOrNone(feature: string, names: string[]): string[] | null {
+    const values = names.map(name => this.string(name));
+    if (values.every(value => value === undefined)) {
+      return null;
+    }
+    if (values.some(value => value === undefined)) {
+      this.errors.push(`${feature} requires ${names.join(', ')}; missing ${names.filter((_, i) => values[i] === undefined).join(', ')}`);
+      return null;
+    }
+    return values as string[];
+  }
+}
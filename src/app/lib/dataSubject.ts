@@ -0,0 +1,113 @@
+// lib/dataSubject.ts
+// Data subject rights (GDPR Art. 15 and 17): export and erasure of
+// everything held for a candidate, identified by their resume file ID
+import JSZip from 'jszip';
+import { JsonCollection } from './jsonStore';
+import { deleteInterview, listInterviewsForFile } from './interviews';
+import { getResumeStore } from './resumeStore';
+import { deleteTranscript, listTranscriptsForFile } from './transcripts';
+import { deleteScorecard, listScorecardsForFile } from './evaluation';
+import { deleteResumeIndexEntry } from './resumeIndex';
+import { deleteInvitation, listInvitationsForFile } from './invitations';
+import { deleteTextConversation } from './textInterview';
+import { deleteVoiceSession } from './voiceSessions';
+import type { ResumeFormat } from './extractors';
+
+export type DeletionReason = 'retention' | 'data-subject-request';
+
+/**
+ * Proof that a candidate's data was erased. Holds no personal data beyond
+ * the content hash, so it can be kept indefinitely.
+ */
+export interface Tombstone {
+  id: string;
+  fileId: string;
+  sha256: string;
+  detectedType: ResumeFormat;
+  uploadedAt: string;
+  deletedAt: string;
+  reason: DeletionReason;
+}
+
+const tombstones = new JsonCollection<Tombstone>('tombstones');
+
+export async function getTombstone(fileId: string): Promise<Tombstone | null> {
+  return tombstones.get(fileId);
+}
+
+/**
+ * Delete a candidate's resume and metadata and leave a tombstone.
+ * Returns null when nothing is stored for the file ID.
+ */
+export async function deleteCandidateData(fileId: string, reason: DeletionReason): Promise<Tombstone | null> {
+  const store = getResumeStore();
+  const metadata = await store.getMetadata(fileId);
+  if (!metadata) {
+    return null;
+  }
+
+  // Record the deletion first so that a crash never leaves an untracked gap
+  const tombstone = await tombstones.put({
+    id: fileId,
+    fileId,
+    sha256: metadata.sha256,
+    detectedType: metadata.detectedType,
+    uploadedAt: metadata.uploadedAt,
+    deletedAt: new Date().toISOString(),
+    reason,
+  });
+
+  for (const scorecard of await listScorecardsForFile(fileId)) {
+    await deleteScorecard(scorecard.id);
+  }
+  for (const transcript of await listTranscriptsForFile(fileId)) {
+    await deleteTranscript(transcript.id);
+  }
+  for (const interview of await listInterviewsForFile(fileId)) {
+    await deleteTextConversation(interview.id);
+    await deleteVoiceSession(interview.id);
+    await deleteInterview(interview.id);
+  }
+  for (const invitation of await listInvitationsForFile(fileId)) {
+    await deleteInvitation(invitation.id);
+  }
+  await deleteResumeIndexEntry(fileId);
+  await store.delete(fileId);
+  console.log(`Deleted candidate data for ${fileId} (${reason})`);
+
+  return tombstone;
+}
+
+/**
+ * Bundle everything held for a candidate into a ZIP archive
+ */
+export async function exportCandidateData(fileId: string): Promise<{ archive: Buffer; filename: string } | null> {
+  const resume = await getResumeStore().get(fileId);
+  if (!resume) {
+    return null;
+  }
+
+  const { metadata, buffer } = resume;
+  const interviews = await listInterviewsForFile(fileId);
+  const transcripts = await listTranscriptsForFile(fileId);
+  const scorecards = await listScorecardsForFile(fileId);
+  const invitations = await listInvitationsForFile(fileId);
+  const zip = new JSZip();
+
+  zip.file('export.json', JSON.stringify({
+    fileId,
+    exportedAt: new Date().toISOString(),
+    contents: ['metadata.json', `resume/${metadata.originalName}`, 'interviews.json', 'transcripts.json', 'scorecards.json', 'invitations.json'],
+  }, null, 2));
+  zip.file('metadata.json', JSON.stringify(metadata, null, 2));
+  zip.file(`resume/${metadata.originalName}`, buffer);
+  zip.file('interviews.json', JSON.stringify(interviews, null, 2));
+  zip.file('transcripts.json', JSON.stringify(transcripts, null, 2));
+  zip.file('scorecards.json', JSON.stringify(scorecards, null, 2));
+  zip.file('invitations.json', JSON.stringify(invitations, null, 2));
+
+  return {
+    archive: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }),
+    filename: `candidate-data-${fileId}.zip`,
+  };
+}
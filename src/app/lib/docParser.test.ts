@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { OLE_SIGNATURE, readCompoundFile } from './compoundFile';
+import { extractDocText } from './docParser';
+import { extractResumeFromBuffer } from './resumeParser';
+
+const SECTOR_SIZE = 512;
+const END_OF_CHAIN = 0xfffffffe;
+const FAT_SECTOR = 0xfffffffd;
+const NO_STREAM = 0xffffffff;
+// Streams of at least this size live in regular sectors, not the mini stream
+const MINI_STREAM_CUTOFF = 4096;
+
+const FLAG_ENCRYPTED = 0x0100;
+const FLAG_TABLE_1 = 0x0200;
+
+/**
+ * A compound file with one sector of FAT, one of directory and the given
+ * streams, each padded to the mini stream cutoff so that no mini FAT is
+ * needed
+ */
+function buildCompoundFile(streams: { name: string; data: Buffer }[]): Buffer {
+  const padded = streams.map(stream => Buffer.concat([
+    stream.data,
+    Buffer.alloc(Math.max(0, MINI_STREAM_CUTOFF - stream.data.length)),
+  ]));
+
+  const header = Buffer.alloc(SECTOR_SIZE);
+  OLE_SIGNATURE.copy(header, 0);
+  header.writeUInt16LE(0x3e, 0x18);
+  header.writeUInt16LE(3, 0x1a);
+  header.writeUInt16LE(0xfffe, 0x1c);
+  header.writeUInt16LE(9, 0x1e);
+  header.writeUInt16LE(6, 0x20);
+  header.writeUInt32LE(1, 0x2c);
+  header.writeUInt32LE(1, 0x30);
+  header.writeUInt32LE(MINI_STREAM_CUTOFF, 0x38);
+  header.writeUInt32LE(END_OF_CHAIN, 0x3c);
+  header.writeUInt32LE(END_OF_CHAIN, 0x44);
+  header.fill(0xff, 0x4c);
+  header.writeUInt32LE(0, 0x4c);
+
+  const fat = Buffer.alloc(SECTOR_SIZE, 0xff);
+  fat.writeUInt32LE(FAT_SECTOR, 0);
+  fat.writeUInt32LE(END_OF_CHAIN, 4);
+
+  const directory = Buffer.alloc(SECTOR_SIZE);
+  const writeEntry = (index: number, name: string, type: number, right: number, child: number, start: number, size: number) => {
+    const entry = directory.subarray(index * 128, (index + 1) * 128);
+    entry.write(`${name}\0`, 0, 'utf16le');
+    entry.writeUInt16LE((name.length + 1) * 2, 64);
+    entry.writeUInt8(type, 66);
+    entry.writeUInt32LE(NO_STREAM, 68);
+    entry.writeUInt32LE(right, 72);
+    entry.writeUInt32LE(child, 76);
+    entry.writeUInt32LE(start, 116);
+    entry.writeUInt32LE(size, 120);
+  };
+  writeEntry(0, 'Root Entry', 5, NO_STREAM, 1, END_OF_CHAIN, 0);
+
+  let sector = 2;
+  padded.forEach((data, i) => {
+    const sectors = data.length / SECTOR_SIZE;
+    for (let j = 0; j < sectors; j++) {
+      fat.writeUInt32LE(j === sectors - 1 ? END_OF_CHAIN : sector + j + 1, (sector + j) * 4);
+    }
+    // The streams form a chain of right siblings below the root
+    writeEntry(i + 1, streams[i].name, 2, i + 1 < streams.length ? i + 2 : NO_STREAM, NO_STREAM, sector, data.length);
+    sector += sectors;
+  });
+
+  return Buffer.concat([header, fat, directory, ...padded]);
+}
+
+/**
+ * A Word 97 document whose text is stored in two pieces: the first as
+ * Windows-1252, the second as UTF-16
+ */
+function buildDoc(pieces: [string, string], flags = FLAG_TABLE_1): Buffer {
+  const COMPRESSED_OFFSET = 0x800;
+  const UNICODE_OFFSET = 0xa00;
+
+  const wordDocument = Buffer.alloc(MINI_STREAM_CUTOFF);
+  wordDocument.writeUInt16LE(0xa5ec, 0);
+  wordDocument.writeUInt16LE(0x00c1, 2);
+  wordDocument.writeUInt16LE(flags, 0x0a);
+  wordDocument.writeUInt16LE(14, 0x20);
+  wordDocument.writeUInt16LE(22, 0x3e);
+  wordDocument.writeInt32LE(pieces[0].length + pieces[1].length, 0x40 + 3 * 4);
+  wordDocument.writeUInt16LE(93, 0x98);
+
+  Buffer.from(pieces[0], 'latin1').copy(wordDocument, COMPRESSED_OFFSET);
+  Buffer.from(pieces[1], 'utf16le').copy(wordDocument, UNICODE_OFFSET);
+
+  // Clx: a PlcPcd with the character positions and two piece descriptors
+  const plcPcd = Buffer.alloc(3 * 4 + 2 * 8);
+  plcPcd.writeUInt32LE(0, 0);
+  plcPcd.writeUInt32LE(pieces[0].length, 4);
+  plcPcd.writeUInt32LE(pieces[0].length + pieces[1].length, 8);
+  plcPcd.writeUInt32LE((COMPRESSED_OFFSET * 2) | 0x40000000, 12 + 2);
+  plcPcd.writeUInt32LE(UNICODE_OFFSET, 12 + 8 + 2);
+
+  const clx = Buffer.concat([Buffer.from([0x02]), Buffer.alloc(4), plcPcd]);
+  clx.writeUInt32LE(plcPcd.length, 1);
+  wordDocument.writeUInt32LE(0, 0x9a + 33 * 8);
+  wordDocument.writeUInt32LE(clx.length, 0x9a + 33 * 8 + 4);
+
+  return buildCompoundFile([
+    { name: 'WordDocument', data: wordDocument },
+    { name: flags & FLAG_TABLE_1 ? '1Table' : '0Table', data: clx },
+  ]);
+}
+
+const RESUME: [string, string] = [
+  'Erika Müller\rSoftware Engineer\rPortfolio: \x13 HYPERLINK "https://example.com" \x14example.com\x15\r',
+  'Zürich – Backend services in Kotlin and PostgreSQL\x07Since 2019\x07\r',
+];
+
+describe('readCompoundFile', () => {
+  it('lists the streams and reads them back', () => {
+    const file = readCompoundFile(buildCompoundFile([
+      { name: 'First', data: Buffer.alloc(MINI_STREAM_CUTOFF, 'a') },
+      { name: 'Second', data: Buffer.alloc(5120, 'b') },
+    ]));
+
+    expect(file.entries.map(entry => [entry.path, entry.type, entry.size])).toEqual([
+      ['', 'root', 0],
+      ['First', 'stream', MINI_STREAM_CUTOFF],
+      ['Second', 'stream', 5120],
+    ]);
+    expect(file.getStream('first')?.equals(Buffer.alloc(MINI_STREAM_CUTOFF, 'a'))).toBe(true);
+    expect(file.getStream('Second')?.equals(Buffer.alloc(5120, 'b'))).toBe(true);
+    expect(file.getStream('Missing')).toBeNull();
+  });
+
+  it('rejects buffers without the signature', () => {
+    expect(() => readCompoundFile(Buffer.alloc(1024))).toThrow('Not an OLE compound file.');
+  });
+});
+
+describe('extractDocText', () => {
+  it('joins compressed and Unicode pieces and keeps field results only', () => {
+    expect(extractDocText(buildDoc(RESUME))).toBe([
+      'Erika Müller',
+      'Software Engineer',
+      'Portfolio: example.com',
+      'Zürich – Backend services in Kotlin and PostgreSQL\tSince 2019',
+    ].join('\n'));
+  });
+
+  it('reads the table stream named in the header', () => {
+    expect(extractDocText(buildDoc(RESUME, 0))).toContain('Software Engineer');
+  });
+
+  it('refuses password-protected documents', () => {
+    expect(() => extractDocText(buildDoc(RESUME, FLAG_TABLE_1 | FLAG_ENCRYPTED))).toThrow('DOC file is password-protected.');
+  });
+
+  it('is used for .doc uploads', async () => {
+    const extraction = await extractResumeFromBuffer(buildDoc(RESUME), 'resume.doc');
+    expect(extraction.format).toBe('doc');
+    expect(extraction.text).toContain('Backend services in Kotlin');
+  });
+});
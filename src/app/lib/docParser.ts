@@ -0,0 +1,190 @@
+// lib/docParser.ts
+// Text extraction for Word 97-2003 binary documents (.doc)
+import { readCompoundFile } from './compoundFile';
+
+const WORD_IDENT = 0xa5ec;
+const MIN_SUPPORTED_NFIB = 0x00c1; // Word 97
+
+const FLAG_ENCRYPTED = 0x0100;
+const FLAG_WHICH_TABLE_STREAM = 0x0200;
+
+// Index of the fcClx/lcbClx pair in FibRgFcLcb97
+const CLX_PAIR_INDEX = 33;
+
+interface Piece {
+  cpStart: number;
+  cpEnd: number;
+  fc: number;
+  compressed: boolean;
+}
+
+/**
+ * Extract the main document text of a .doc file. Paragraph marks become
+ * line breaks; field instructions and embedded objects are dropped.
+ */
+export function extractDocText(buffer: Buffer): string {
+  const compoundFile = readCompoundFile(buffer);
+  const wordDocument = compoundFile.getStream('WordDocument');
+
+  if (!wordDocument || wordDocument.length < 0x20) {
+    throw new Error('DOC file has no WordDocument stream.');
+  }
+
+  if (wordDocument.readUInt16LE(0) !== WORD_IDENT) {
+    throw new Error('DOC file has an invalid Word header.');
+  }
+
+  const nFib = wordDocument.readUInt16LE(2);
+  if (nFib < MIN_SUPPORTED_NFIB) {
+    throw new Error('Word 6.0/95 documents are not supported. Please save the file as DOCX or PDF.');
+  }
+
+  const flags = wordDocument.readUInt16LE(0x0a);
+  if (flags & FLAG_ENCRYPTED) {
+    throw new Error('DOC file is password-protected.');
+  }
+
+  const tableStream = compoundFile.getStream(flags & FLAG_WHICH_TABLE_STREAM ? '1Table' : '0Table');
+  if (!tableStream) {
+    throw new Error('DOC file is missing its table stream.');
+  }
+
+  // The FIB is a fixed base followed by three variable-length arrays
+  let offset = 0x20;
+  const csw = wordDocument.readUInt16LE(offset);
+  offset += 2 + csw * 2;
+  const cslw = wordDocument.readUInt16LE(offset);
+  const fibRgLwOffset = offset + 2;
+  offset = fibRgLwOffset + cslw * 4;
+  const cbRgFcLcb = wordDocument.readUInt16LE(offset);
+  const fibRgFcLcbOffset = offset + 2;
+
+  if (cslw < 4 || cbRgFcLcb <= CLX_PAIR_INDEX) {
+    throw new Error('DOC file has an unsupported file information block.');
+  }
+
+  const ccpText = wordDocument.readInt32LE(fibRgLwOffset + 3 * 4);
+  const fcClx = wordDocument.readUInt32LE(fibRgFcLcbOffset + CLX_PAIR_INDEX * 8);
+  const lcbClx = wordDocument.readUInt32LE(fibRgFcLcbOffset + CLX_PAIR_INDEX * 8 + 4);
+
+  if (lcbClx === 0 || fcClx + lcbClx > tableStream.length) {
+    throw new Error('DOC file has no readable piece table.');
+  }
+
+  const pieces = readPieceTable(tableStream.subarray(fcClx, fcClx + lcbClx));
+  let text = '';
+
+  for (const piece of pieces) {
+    if (piece.cpStart >= ccpText) break;
+
+    const charCount = Math.min(piece.cpEnd, ccpText) - piece.cpStart;
+    if (piece.compressed) {
+      const start = piece.fc / 2;
+      text += decodeWindows1252(wordDocument.subarray(start, start + charCount));
+    } else {
+      text += wordDocument.subarray(piece.fc, piece.fc + charCount * 2).toString('utf16le');
+    }
+  }
+
+  return cleanWordText(text);
+}
+
+/**
+ * Read the PlcPcd from a Clx structure, skipping any leading Prc entries
+ */
+function readPieceTable(clx: Buffer): Piece[] {
+  let offset = 0;
+
+  while (offset < clx.length && clx[offset] === 0x01) {
+    const cbGrpprl = clx.readInt16LE(offset + 1);
+    offset += 3 + cbGrpprl;
+  }
+
+  if (clx[offset] !== 0x02) {
+    throw new Error('DOC file has a corrupted piece table.');
+  }
+
+  const lcb = clx.readUInt32LE(offset + 1);
+  const plcPcd = clx.subarray(offset + 5, offset + 5 + lcb);
+
+  // PlcPcd holds n+1 character positions followed by n 8-byte piece descriptors
+  const pieceCount = (plcPcd.length - 4) / 12;
+  if (!Number.isInteger(pieceCount) || pieceCount < 1) {
+    throw new Error('DOC file has a corrupted piece table.');
+  }
+
+  const pieces: Piece[] = [];
+  for (let i = 0; i < pieceCount; i++) {
+    const fcCompressed = plcPcd.readUInt32LE((pieceCount + 1) * 4 + i * 8 + 2);
+    const compressed = (fcCompressed & 0x40000000) !== 0;
+
+    pieces.push({
+      cpStart: plcPcd.readUInt32LE(i * 4),
+      cpEnd: plcPcd.readUInt32LE((i + 1) * 4),
+      fc: fcCompressed & 0x3fffffff,
+      compressed,
+    });
+  }
+
+  return pieces;
+}
+
+function decodeWindows1252(bytes: Buffer): string {
+  return new TextDecoder('windows-1252').decode(bytes);
+}
+
+/**
+ * Replace Word control characters with plain text equivalents
+ */
+function cleanWordText(text: string): string {
+  let result = '';
+  let fieldDepth = 0;
+  const showingResult: boolean[] = [];
+
+  for (const char of text) {
+    switch (char) {
+      case '\x13': // field begin: instructions follow
+        fieldDepth++;
+        showingResult.push(false);
+        continue;
+      case '\x14': // field separator: result follows
+        if (fieldDepth > 0) showingResult[fieldDepth - 1] = true;
+        continue;
+      case '\x15': // field end
+        if (fieldDepth > 0) {
+          fieldDepth--;
+          showingResult.pop();
+        }
+        continue;
+    }
+
+    if (fieldDepth > 0 && !showingResult[fieldDepth - 1]) {
+      continue;
+    }
+
+    switch (char) {
+      case '\r':
+      case '\x0b':
+      case '\x0c':
+        result += '\n';
+        break;
+      case '\x07': // table cell or row end
+        result += '\t';
+        break;
+      case '\x1e':
+        result += '-';
+        break;
+      case '\x01':
+      case '\x08':
+      case '\x1f':
+        break;
+      default:
+        result += char;
+    }
+  }
+
+  return result
+    .replace(/\t+\n/g, '\n')
+    .replace(/[ \t]+$/gm, '')
+    .trim();
+}
@@ -0,0 +1,251 @@
+// lib/documentScanner.ts
+// Safety scan for uploaded documents: macros, embedded objects, external
+// references and active PDF content
+import JSZip from 'jszip';
+import { readCompoundFile } from './compoundFile';
+import { getConfig } from './config';
+import type { ResumeFormat } from './extractors';
+import { loadPdfDocument } from './pdfDocument';
+
+export type ScanFindingType =
+  | 'macro'
+  | 'embedded-object'
+  | 'activex'
+  | 'external-reference'
+  | 'dde'
+  | 'pdf-javascript'
+  | 'pdf-launch-action'
+  | 'pdf-embedded-file'
+  | 'pdf-form-submission';
+
+export type ScanSeverity = 'high' | 'medium' | 'low';
+
+export interface ScanFinding {
+  type: ScanFindingType;
+  severity: ScanSeverity;
+  detail: string;
+  location?: string;
+}
+
+export interface ScanVerdict {
+  verdict: 'clean' | 'suspicious' | 'dangerous';
+  quarantined: boolean;
+  findings: ScanFinding[];
+  scannedAt: string;
+}
+
+// Relationship types whose external targets are harmless in a resume
+const BENIGN_EXTERNAL_RELATIONSHIPS = ['/hyperlink'];
+
+// External targets that fetch content when the document is opened
+const HIGH_RISK_EXTERNAL_RELATIONSHIPS = ['/attachedTemplate', '/oleObject', '/frame', '/subDocument'];
+
+/**
+ * Scan a document for active or remote content
+ */
+export async function scanDocument(buffer: Buffer, format: ResumeFormat): Promise<ScanVerdict> {
+  let findings: ScanFinding[] = [];
+
+  switch (format) {
+    case 'docx':
+    case 'odt':
+      findings = await scanZipDocument(buffer);
+      break;
+    case 'doc':
+      findings = scanCompoundDocument(buffer);
+      break;
+    case 'pdf':
+      findings = await scanPdf(buffer);
+      break;
+    case 'rtf':
+      findings = scanRtf(buffer);
+      break;
+  }
+
+  const verdict = findings.some(finding => finding.severity === 'high')
+    ? 'dangerous'
+    : findings.some(finding => finding.severity === 'medium')
+      ? 'suspicious'
+      : 'clean';
+
+  return {
+    verdict,
+    quarantined: shouldQuarantine(verdict),
+    findings,
+    scannedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Quarantine threshold: dangerous files always, suspicious ones when
+ * `SCAN_QUARANTINE_LEVEL=suspicious`
+ */
+function shouldQuarantine(verdict: ScanVerdict['verdict']): boolean {
+  if (verdict === 'dangerous') return true;
+  return verdict === 'suspicious' && getConfig().parsing.quarantineLevel === 'suspicious';
+}
+
+async function scanZipDocument(buffer: Buffer): Promise<ScanFinding[]> {
+  const findings: ScanFinding[] = [];
+  const zip = await JSZip.loadAsync(buffer);
+  const names = Object.keys(zip.files);
+
+  for (const name of names) {
+    const lower = name.toLowerCase();
+
+    if (lower.endsWith('vbaproject.bin') || lower.endsWith('vbadata.xml')) {
+      findings.push({ type: 'macro', severity: 'high', detail: 'VBA macro project', location: name });
+    } else if (/^(?:basic|scripts)\/.+/.test(lower) && !lower.endsWith('/')) {
+      findings.push({ type: 'macro', severity: 'high', detail: 'OpenDocument script', location: name });
+    } else if (lower.startsWith('word/activex/')) {
+      findings.push({ type: 'activex', severity: 'high', detail: 'ActiveX control', location: name });
+    } else if (lower.startsWith('word/embeddings/') || /^object \d+\//.test(lower)) {
+      const nested = /\.(?:docm|xlsm|pptm|bin|exe|dll|js|vbs|ps1|bat|cmd)$/.test(lower);
+      findings.push({
+        type: 'embedded-object',
+        severity: nested ? 'high' : 'medium',
+        detail: nested ? 'Embedded executable or macro-enabled object' : 'Embedded object',
+        location: name,
+      });
+    }
+  }
+
+  const contentTypes = await zip.file('[Content_Types].xml')?.async('string');
+  if (contentTypes && /macroEnabled/i.test(contentTypes)) {
+    findings.push({
+      type: 'macro',
+      severity: 'high',
+      detail: 'Macro-enabled document content type (renamed .docm)',
+      location: '[Content_Types].xml',
+    });
+  }
+
+  for (const name of names.filter(entry => entry.endsWith('.rels'))) {
+    const rels = await zip.file(name)?.async('string');
+    if (!rels) continue;
+
+    for (const match of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+      const relationship = match[0];
+      if (!/TargetMode\s*=\s*"External"/i.test(relationship)) continue;
+
+      const type = relationship.match(/Type\s*=\s*"([^"]*)"/)?.[1] ?? '';
+      const target = relationship.match(/Target\s*=\s*"([^"]*)"/)?.[1] ?? '';
+
+      if (BENIGN_EXTERNAL_RELATIONSHIPS.some(suffix => type.endsWith(suffix))) continue;
+
+      const highRisk = HIGH_RISK_EXTERNAL_RELATIONSHIPS.some(suffix => type.endsWith(suffix));
+      findings.push({
+        type: 'external-reference',
+        severity: highRisk ? 'high' : 'medium',
+        detail: type.endsWith('/image')
+          ? `Remote image (possible tracking pixel): ${target}`
+          : `External ${type.slice(type.lastIndexOf('/') + 1) || 'reference'}: ${target}`,
+        location: name,
+      });
+    }
+  }
+
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (documentXml && /\bDDE(?:AUTO)?\b/.test(documentXml.replace(/<[^>]+>/g, ''))) {
+    findings.push({ type: 'dde', severity: 'high', detail: 'DDE field that can launch programs', location: 'word/document.xml' });
+  }
+
+  return findings;
+}
+
+function scanCompoundDocument(buffer: Buffer): ScanFinding[] {
+  const findings: ScanFinding[] = [];
+  const entries = readCompoundFile(buffer).entries;
+
+  for (const entry of entries) {
+    const name = entry.name.toLowerCase();
+
+    if (name === 'macros' || name === '_vba_project_cur' || name === 'vba') {
+      findings.push({ type: 'macro', severity: 'high', detail: 'VBA macro storage', location: entry.path });
+    } else if (name === 'objectpool') {
+      findings.push({ type: 'embedded-object', severity: 'medium', detail: 'Embedded OLE objects', location: entry.path });
+    } else if (name === '\x01ole10native') {
+      findings.push({ type: 'embedded-object', severity: 'high', detail: 'Embedded OLE package', location: entry.path });
+    }
+  }
+
+  return dedupe(findings);
+}
+
+async function scanPdf(buffer: Buffer): Promise<ScanFinding[]> {
+  const findings: ScanFinding[] = [];
+
+  // Names may be obfuscated with #xx escapes (e.g. /J#61vaScript)
+  const raw = buffer
+    .toString('latin1')
+    .replace(/\/[^\s/<>[\]()]*#[0-9a-fA-F]{2}[^\s/<>[\]()]*/g, name =>
+      name.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    );
+
+  if (/\/(?:JavaScript|JS)\b/.test(raw)) {
+    findings.push({ type: 'pdf-javascript', severity: 'high', detail: 'Embedded JavaScript' });
+  }
+  if (/\/Launch\b/.test(raw)) {
+    findings.push({ type: 'pdf-launch-action', severity: 'high', detail: 'Launch action that can start programs' });
+  }
+  if (/\/EmbeddedFile\b/.test(raw)) {
+    findings.push({ type: 'pdf-embedded-file', severity: 'medium', detail: 'Embedded file attachment' });
+  }
+  if (/\/SubmitForm\b/.test(raw)) {
+    findings.push({ type: 'pdf-form-submission', severity: 'medium', detail: 'Form that submits data to a remote server' });
+  }
+
+  // Compressed object streams hide names from the raw scan; ask pdf.js too
+  try {
+    const document = await loadPdfDocument(buffer);
+    try {
+      const [jsActions, attachments] = await Promise.all([
+        document.getJSActions(),
+        document.getAttachments(),
+      ]);
+
+      if (jsActions && Object.keys(jsActions).length > 0) {
+        findings.push({ type: 'pdf-javascript', severity: 'high', detail: 'Document-level JavaScript actions' });
+      }
+      if (attachments && Object.keys(attachments).length > 0) {
+        findings.push({
+          type: 'pdf-embedded-file',
+          severity: 'medium',
+          detail: `Attachments: ${Object.keys(attachments).join(', ')}`,
+        });
+      }
+    } finally {
+      await document.destroy();
+    }
+  } catch (error) {
+    console.warn('PDF safety scan could not inspect document structure:', error);
+  }
+
+  return dedupe(findings);
+}
+
+function scanRtf(buffer: Buffer): ScanFinding[] {
+  const rtf = buffer.toString('latin1');
+  const findings: ScanFinding[] = [];
+
+  if (/\\objdata\b/.test(rtf) || /\\object\b/.test(rtf)) {
+    const autoUpdate = /\\objupdate\b/.test(rtf);
+    findings.push({
+      type: 'embedded-object',
+      severity: autoUpdate || /\\objocx\b|\\objemb\b/.test(rtf) ? 'high' : 'medium',
+      detail: autoUpdate ? 'Embedded object that activates on open' : 'Embedded object',
+    });
+  }
+
+  return findings;
+}
+
+function dedupe(findings: ScanFinding[]): ScanFinding[] {
+  const seen = new Set<string>();
+  return findings.filter(finding => {
+    const key = `${finding.type}:${finding.severity}:${finding.location ?? ''}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  getConversationInitiation,
+  ingestPostCallTranscript,
+  PostCallTranscriptionEvent,
+  validatePostCallEvent,
+  verifyBearerToken,
+  verifyWebhookSignature,
+} from './elevenLabsWebhook';
+import { createInterview, getInterview, transitionInterview } from './interviews';
+import { fetchMissingTranscript } from './transcriptIngestion';
+import { ElevenLabsConversation, setVoiceAgentProvider, toVoiceTranscript } from './voiceAgent';
+import { saveVoiceSession } from './voiceSessions';
+
+const SECRET = 'wsec_test_secret';
+const FIXTURES = path.join(__dirname, '../../../fixtures/elevenlabs');
+
+let root: string;
+
+async function readFixture(name: string): Promise<string> {
+  return fs.readFile(path.join(FIXTURES, name), 'utf8');
+}
+
+function sign(body: string, timestamp: number, secret = SECRET): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v0=${signature}`;
+}
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'webhook-test-'));
+  process.env.DATA_DIR = path.join(root, 'data');
+  process.env.RESUME_STORAGE_DIR = path.join(root, 'store');
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('verifyWebhookSignature', () => {
+  const now = new Date('2025-10-19T10:40:00Z');
+  const timestamp = Math.floor(now.getTime() / 1000);
+
+  it('accepts a fixture signed with the secret', async () => {
+    const body = await readFixture('post-call-transcription.json');
+    expect(verifyWebhookSignature(body, sign(body, timestamp), SECRET, now)).toEqual({ valid: true });
+  });
+
+  it('accepts signatures within the 30 minute tolerance', async () => {
+    const body = await readFixture('post-call-transcription.json');
+    expect(verifyWebhookSignature(body, sign(body, timestamp - 29 * 60), SECRET, now).valid).toBe(true);
+    expect(verifyWebhookSignature(body, sign(body, timestamp + 29 * 60), SECRET, now).valid).toBe(true);
+  });
+
+  it('rejects signatures outside the tolerance', async () => {
+    const body = await readFixture('post-call-transcription.json');
+    const result = verifyWebhookSignature(body, sign(body, timestamp - 31 * 60), SECRET, now);
+    expect(result).toEqual({ valid: false, error: 'Signature timestamp is outside the allowed window' });
+  });
+
+  it('rejects a tampered body', async () => {
+    const body = await readFixture('post-call-transcription.json');
+    const header = sign(body, timestamp);
+    const tampered = body.replace('"status": "done"', '"status": "failed"');
+
+    expect(tampered).not.toBe(body);
+    expect(verifyWebhookSignature(tampered, header, SECRET, now)).toEqual({ valid: false, error: 'Invalid signature' });
+  });
+
+  it('rejects a signature made with another secret', async () => {
+    const body = await readFixture('post-call-transcription.json');
+    expect(verifyWebhookSignature(body, sign(body, timestamp, 'other'), SECRET, now).valid).toBe(false);
+  });
+
+  it.each([
+    [null, 'Missing signature header'],
+    ['', 'Missing signature header'],
+    ['v0=abc', 'Malformed signature header'],
+    [`t=${timestamp}`, 'Malformed signature header'],
+    [`t=${timestamp},v1=abc`, 'Malformed signature header'],
+    [`t=abc,v0=abc`, 'Malformed signature header'],
+    [`t=${timestamp},v0=abc`, 'Invalid signature'],
+  ])('rejects the header %j', (header, error) => {
+    expect(verifyWebhookSignature('{}', header, SECRET, now)).toEqual({ valid: false, error });
+  });
+});
+
+describe('conversation initiation webhook', () => {
+  it.each([
+    [`Bearer ${SECRET}`, true],
+    [`bearer ${SECRET}`, true],
+    ['Bearer other', false],
+    [SECRET, false],
+    [null, false],
+  ])('checks the header %j', (header, valid) => {
+    expect(verifyBearerToken(header, SECRET)).toBe(valid);
+  });
+
+  it('hands the agent the prompt stored for the interview', async () => {
+    await saveVoiceSession({ id: 'interview-init-1', prompt: 'Interview Erika about Kotlin.', variables: { candidate_name: 'Erika' } });
+
+    expect(await getConversationInitiation('interview-init-1')).toEqual({
+      type: 'conversation_initiation_client_data',
+      dynamic_variables: { candidate_name: 'Erika', interview_id: 'interview-init-1' },
+      conversation_config_override: { agent: { prompt: { prompt: 'Interview Erika about Kotlin.' } } },
+    });
+    expect(await getConversationInitiation('unknown-interview')).toBeNull();
+  });
+});
+
+describe('ingestPostCallTranscript', () => {
+  async function readEvent(name: string, interviewId: string): Promise<PostCallTranscriptionEvent> {
+    const body = JSON.parse(await readFixture(name));
+    body.data.conversation_initiation_client_data.dynamic_variables.interview_id = interviewId;
+
+    const validation = validatePostCallEvent(body);
+    if (!validation.event) throw new Error(validation.error);
+    return validation.event;
+  }
+
+  it('completes the session once and acknowledges redeliveries', async () => {
+    const session = await createInterview({ fileId: crypto.randomUUID(), templateId: 'default', templateVersion: 1, mock: false });
+    const event = await readEvent('post-call-transcription.json', session.id);
+
+    const first = await ingestPostCallTranscript(event);
+    expect(first.duplicate).toBe(false);
+    expect(first.interview?.status).toBe('completed');
+    expect(first.interview?.conversationId).toBe(event.data.conversation_id);
+    expect(first.transcript.interviewId).toBe(session.id);
+    // The fixture ends with a tool call turn that has no message
+    expect(first.transcript.turns).toHaveLength(4);
+    expect(first.transcript.turns[0]).toMatchObject({ role: 'agent', timeInCallSecs: 0 });
+
+    const completed = await getInterview(session.id);
+    const again = await ingestPostCallTranscript(event);
+    expect(again.duplicate).toBe(true);
+    expect(again.transcript).toEqual(first.transcript);
+    expect(await getInterview(session.id)).toEqual(completed);
+  });
+
+  it('fails the session when the provider reports a failed call', async () => {
+    const session = await createInterview({ fileId: crypto.randomUUID(), templateId: 'default', templateVersion: 1, mock: false });
+    const event = await readEvent('post-call-transcription-failed.json', session.id);
+
+    const result = await ingestPostCallTranscript(event);
+    expect(result.interview?.status).toBe('failed');
+    expect(result.transcript.callStatus).toBe('failed');
+  });
+
+  it('links the transcript to a session abandoned before the webhook arrived', async () => {
+    const created = await createInterview({ fileId: crypto.randomUUID(), templateId: 'default', templateVersion: 1, mock: false });
+    const abandoned = await transitionInterview(created, { status: 'abandoned', reason: 'Browser closed' });
+    const event = await readEvent('post-call-transcription.json', abandoned.id);
+    event.data.conversation_id = 'conv_after_abandon';
+
+    const result = await ingestPostCallTranscript(event);
+    expect(result.transcript.interviewId).toBe(abandoned.id);
+    expect(await getInterview(abandoned.id)).toMatchObject({
+      status: 'abandoned',
+      conversationId: 'conv_after_abandon',
+      endedAt: abandoned.endedAt,
+    });
+  });
+});
+
+describe('fetchMissingTranscript', () => {
+  it('ingests a finished call the webhook never delivered', async () => {
+    const { data } = JSON.parse(await readFixture('post-call-transcription.json')) as { data: ElevenLabsConversation };
+    const requested: string[] = [];
+    setVoiceAgentProvider({
+      name: 'elevenlabs',
+      agentId: data.agent_id,
+      createSession: async () => ({ agentId: data.agent_id, signedUrl: 'wss://example.invalid' }),
+      getSignedUrl: async () => 'wss://example.invalid',
+      getTranscript: async conversationId => {
+        requested.push(conversationId);
+        return toVoiceTranscript({ ...data, conversation_id: conversationId });
+      },
+      checkHealth: async () => {},
+    });
+
+    const created = await createInterview({ fileId: crypto.randomUUID(), templateId: 'default', templateVersion: 1, mock: false });
+    const session = await transitionInterview(created, { status: 'in_progress', conversationId: 'conv_missing_webhook' });
+
+    const transcript = await fetchMissingTranscript(session);
+    expect(requested).toEqual(['conv_missing_webhook']);
+    expect(transcript).toMatchObject({ id: 'conv_missing_webhook', interviewId: session.id, callStatus: 'done' });
+    expect(transcript?.turns).toHaveLength(4);
+    expect((await getInterview(session.id))?.status).toBe('completed');
+  });
+});
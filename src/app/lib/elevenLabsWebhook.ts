@@ -0,0 +1,145 @@
+// lib/elevenLabsWebhook.ts
+// ElevenLabs webhooks: the conversation initiation webhook that hands the
+// agent its interviewer prompt, and post-call webhooks with signature
+// verification and transcript ingestion against the matching session
+import crypto from 'crypto';
+import { ingestTranscript, IngestResult } from './transcriptIngestion';
+import { ElevenLabsConversation, INTERVIEW_ID_VARIABLE, toVoiceTranscript } from './voiceAgent';
+import { getVoiceSession } from './voiceSessions';
+
+export interface PostCallTranscriptionEvent {
+  type: 'post_call_transcription';
+  /** Unix seconds */
+  event_timestamp: number;
+  data: ElevenLabsConversation;
+}
+
+/**
+ * Answer to the conversation initiation webhook: the session's variables
+ * and its prompt as a system prompt override
+ */
+export interface ConversationInitiation {
+  type: 'conversation_initiation_client_data';
+  dynamic_variables: Record<string, string>;
+  conversation_config_override: {
+    agent: { prompt: { prompt: string } };
+  };
+}
+
+// ElevenLabs signs with the delivery time; older signatures are replays
+const SIGNATURE_TOLERANCE_SECS = 30 * 60;
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+/**
+ * Check the `ElevenLabs-Signature` header (`t=<unix seconds>,v0=<hex>`),
+ * an HMAC-SHA256 of `<t>.<raw body>` with the webhook secret
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  header: string | null,
+  secret: string,
+  now = new Date()
+): { valid: boolean; error?: string } {
+  if (!header) {
+    return { valid: false, error: 'Missing signature header' };
+  }
+
+  const parts = new Map(
+    header.split(',').map(part => {
+      const index = part.indexOf('=');
+      return [part.slice(0, index).trim(), part.slice(index + 1).trim()] as const;
+    })
+  );
+  const timestamp = parts.get('t');
+  const signature = parts.get('v0');
+
+  if (!timestamp || !/^\d+$/.test(timestamp) || !signature) {
+    return { valid: false, error: 'Malformed signature header' };
+  }
+
+  if (Math.abs(now.getTime() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECS) {
+    return { valid: false, error: 'Signature timestamp is outside the allowed window' };
+  }
+
+  const expected = Buffer.from(crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex'));
+  const received = Buffer.from(signature);
+
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return { valid: false, error: 'Invalid signature' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Check an `Authorization: Bearer <secret>` header, which the agent sends
+ * with its conversation initiation webhook
+ */
+export function verifyBearerToken(header: string | null, secret: string): boolean {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  if (!match) {
+    return false;
+  }
+
+  const expected = crypto.createHash('sha256').update(secret).digest();
+  const received = crypto.createHash('sha256').update(match[1]).digest();
+  return crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * What the agent starts the call with for this interview, or null if no
+ * voice session was started for it
+ */
+export async function getConversationInitiation(interviewId: string): Promise<ConversationInitiation | null> {
+  const session = await getVoiceSession(interviewId);
+  if (!session) {
+    return null;
+  }
+
+  return {
+    type: 'conversation_initiation_client_data',
+    dynamic_variables: { ...session.variables, [INTERVIEW_ID_VARIABLE]: session.id },
+    conversation_config_override: { agent: { prompt: { prompt: session.prompt } } },
+  };
+}
+
+/**
+ * Validate the shape of a `post_call_transcription` event
+ */
+export function validatePostCallEvent(body: unknown): {
+  valid: boolean;
+  error?: string;
+  event?: PostCallTranscriptionEvent;
+} {
+  const event = body as Partial<PostCallTranscriptionEvent> | null;
+
+  if (!event || event.type !== 'post_call_transcription' || typeof event.event_timestamp !== 'number') {
+    return { valid: false, error: 'Not a post_call_transcription event' };
+  }
+
+  const data = event.data;
+  if (!data || typeof data.agent_id !== 'string' || typeof data.status !== 'string') {
+    return { valid: false, error: 'Event data is missing agent_id or status' };
+  }
+
+  if (typeof data.conversation_id !== 'string' || !CONVERSATION_ID_PATTERN.test(data.conversation_id)) {
+    return { valid: false, error: 'Event data has an invalid conversation_id' };
+  }
+
+  if (!Array.isArray(data.transcript) || data.transcript.some(turn => typeof turn?.role !== 'string')) {
+    return { valid: false, error: 'Event data has an invalid transcript' };
+  }
+
+  return { valid: true, event: event as PostCallTranscriptionEvent };
+}
+
+/**
+ * Store the transcript of a finished call and close its interview session.
+ * Redeliveries of the same conversation are acknowledged without changes.
+ */
+export async function ingestPostCallTranscript(
+  event: PostCallTranscriptionEvent,
+  receivedAt = new Date()
+): Promise<IngestResult> {
+  return ingestTranscript('elevenlabs', toVoiceTranscript(event.data), new Date(event.event_timestamp * 1000), receivedAt);
+}
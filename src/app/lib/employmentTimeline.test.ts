@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeTimeline } from './employmentTimeline';
+import { structureResume } from './resumeStructure';
+
+const NOW = new Date('2025-06-15T00:00:00Z');
+
+function timelineOf(...positions: string[][]) {
+  return analyzeTimeline(structureResume(['Berufserfahrung', ...positions.flat()].join('\n')), NOW);
+}
+
+describe('analyzeTimeline', () => {
+  it('reads open-ended ranges up to the current month', () => {
+    const timeline = timelineOf(
+      ['Backend Developer, Acme GmbH', '03/2019 – heute', '- Built services in Kotlin'],
+      ['Junior Developer, Beta AG', 'Jan. 2017 – Feb. 2019', '- Maintained Java applications']
+    );
+
+    expect(timeline.positions).toMatchObject([
+      { start: '2017-01', end: '2019-02', isCurrent: false, months: 26, precision: 'month' },
+      { start: '2019-03', end: '2025-06', isCurrent: true, months: 76, precision: 'month' },
+    ]);
+    expect(timeline.totalYears).toBe(8.5);
+    expect(timeline.gaps).toEqual([]);
+    expect(timeline.overlaps).toEqual([]);
+  });
+
+  it('counts overlapping jobs once and reports the overlap', () => {
+    const timeline = timelineOf(
+      ['Consultant, Gamma GmbH', '01/2020 – 12/2021'],
+      ['Lecturer, Delta University', '06/2021 – present']
+    );
+
+    expect(timeline.overlaps).toEqual([
+      expect.objectContaining({ from: '2021-06', to: '2021-12', months: 7 }),
+    ]);
+    expect(timeline.totalYears).toBe(5.5);
+  });
+
+  it('ignores a shared handover month', () => {
+    const timeline = timelineOf(
+      ['Developer, Alpha GmbH', '01/2018 – 03/2020'],
+      ['Developer, Beta GmbH', '03/2020 – present']
+    );
+
+    expect(timeline.overlaps).toEqual([]);
+  });
+
+  it('reports gaps between positions and after the last one', () => {
+    const timeline = timelineOf(
+      ['Analyst, Epsilon AG', '01/2015 – 06/2016', '- Reporting'],
+      ['Analyst, Zeta AG', '01/2017 – 12/2023', '- Forecasting']
+    );
+
+    expect(timeline.gaps).toEqual([
+      { from: '2016-07', to: '2016-12', months: 6, after: 'Analyst at Epsilon AG', before: 'Analyst at Zeta AG' },
+      { from: '2024-01', to: '2025-06', months: 18, after: 'Analyst at Zeta AG' },
+    ]);
+  });
+
+  it('does not treat year-only neighbours as overlapping', () => {
+    const timeline = timelineOf(
+      ['Engineer, Eta GmbH', '2015 – 2018'],
+      ['Engineer, Theta GmbH', '2018 – 2020']
+    );
+
+    expect(timeline.positions.every(position => position.precision === 'year')).toBe(true);
+    expect(timeline.overlaps).toEqual([]);
+  });
+
+  it('adds up years per skill from the positions that mention it', () => {
+    const timeline = timelineOf(
+      ['Backend Developer, Acme GmbH', '03/2019 – heute', '- Built services in Kotlin'],
+      ['Junior Developer, Beta AG', 'Jan. 2017 – Feb. 2019', '- Maintained Java applications']
+    );
+
+    expect(timeline.skillExperience.find(skill => skill.id === 'kotlin')?.years).toBe(6.3);
+    expect(timeline.skillExperience.find(skill => skill.id === 'java')?.years).toBe(2.2);
+  });
+});
@@ -0,0 +1,256 @@
+// lib/employmentTimeline.ts
+// Employment timeline from the work history: total and per-skill years of
+// experience, gaps between positions and overlapping positions
+import { getConfig } from './config';
+import type { StructuredResume, WorkHistoryEntry } from './resumeStructure';
+import { getSkillPatterns, getSkillTaxonomy } from './skillTaxonomy';
+
+export interface TimelinePosition {
+  label: string;
+  /** `YYYY-MM` */
+  start: string;
+  /** `YYYY-MM`; the current month for ongoing positions */
+  end: string;
+  isCurrent: boolean;
+  months: number;
+  /** `year` when the resume only gives years, e.g. "2015 – 2018" */
+  precision: 'month' | 'year';
+}
+
+export interface TimelineGap {
+  /** First month without a position, `YYYY-MM` */
+  from: string;
+  /** Last month without a position, `YYYY-MM` */
+  to: string;
+  months: number;
+  after: string;
+  /** Next position, absent when the gap lasts until today */
+  before?: string;
+}
+
+export interface TimelineOverlap {
+  first: string;
+  second: string;
+  from: string;
+  to: string;
+  months: number;
+}
+
+export interface SkillExperience {
+  id: string;
+  name: string;
+  years: number;
+}
+
+export interface EmploymentTimeline {
+  positions: TimelinePosition[];
+  /** Years covered by at least one position; overlaps count once */
+  totalYears: number;
+  gaps: TimelineGap[];
+  overlaps: TimelineOverlap[];
+  /** Years of positions that mention each skill, most experienced first */
+  skillExperience: SkillExperience[];
+  /** Work history entries whose dates could not be read */
+  undatedPositions: number;
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+interface DatedPosition extends Interval {
+  entry: WorkHistoryEntry;
+  label: string;
+  yearPrecision: boolean;
+}
+
+// A shared month is a normal handover between jobs
+const MIN_OVERLAP_MONTHS = 2;
+
+const MONTHS: Record<string, number> = {
+  jan: 0, jän: 0, feb: 1, mar: 2, mär: 2, mae: 2, apr: 3, may: 4, mai: 4, jun: 5,
+  jul: 6, aug: 7, sep: 8, oct: 9, okt: 9, nov: 10, dec: 11, dez: 11,
+};
+
+/**
+ * Analyze the dated work history entries of a structured resume
+ */
+export function analyzeTimeline(resume: StructuredResume, now = new Date()): EmploymentTimeline {
+  const currentMonth = now.getFullYear() * 12 + now.getMonth();
+  const positions: DatedPosition[] = [];
+  let undatedPositions = 0;
+
+  resume.workHistory.forEach((entry, index) => {
+    const start = parseResumeDate(entry.startDate, 'start');
+    const end = entry.isCurrent
+      ? { month: currentMonth, yearPrecision: false }
+      : parseResumeDate(entry.endDate ?? entry.startDate, 'end');
+
+    if (!start || !end || end.month < start.month) {
+      undatedPositions++;
+      return;
+    }
+
+    positions.push({
+      entry,
+      label: [entry.title, entry.employer].filter(Boolean).join(' at ') || `Position ${index + 1}`,
+      start: start.month,
+      end: Math.min(end.month, currentMonth),
+      yearPrecision: start.yearPrecision || end.yearPrecision,
+    });
+  });
+
+  positions.sort((a, b) => a.start - b.start || a.end - b.end);
+
+  return {
+    positions: positions.map(position => ({
+      label: position.label,
+      start: formatMonth(position.start),
+      end: formatMonth(position.end),
+      isCurrent: position.entry.isCurrent,
+      months: position.end - position.start + 1,
+      precision: position.yearPrecision ? 'year' : 'month',
+    })),
+    totalYears: toYears(coveredMonths(positions)),
+    gaps: findGaps(positions, currentMonth),
+    overlaps: findOverlaps(positions),
+    skillExperience: skillExperience(resume.text, positions),
+    undatedPositions,
+  };
+}
+
+/**
+ * Parse a date as written in a resume: "03/2019", "03.2019", "März 2019",
+ * "Mar. 2019" or "2019". Year-only dates resolve to January for start
+ * dates and December for end dates.
+ */
+function parseResumeDate(
+  value: string | undefined,
+  edge: 'start' | 'end'
+): { month: number; yearPrecision: boolean } | null {
+  if (!value) return null;
+  const text = value.trim().toLowerCase();
+
+  const numeric = text.match(/^(\d{1,2})[./](\d{4})$/);
+  if (numeric && Number(numeric[1]) >= 1 && Number(numeric[1]) <= 12) {
+    return { month: Number(numeric[2]) * 12 + Number(numeric[1]) - 1, yearPrecision: false };
+  }
+
+  const named = text.match(/^([a-zäöü]+)\.?\s+(\d{4})$/);
+  if (named) {
+    const month = MONTHS[named[1].slice(0, 3)];
+    if (month !== undefined) {
+      return { month: Number(named[2]) * 12 + month, yearPrecision: false };
+    }
+  }
+
+  const year = text.match(/^(\d{4})$/);
+  if (year) {
+    return { month: Number(year[1]) * 12 + (edge === 'start' ? 0 : 11), yearPrecision: true };
+  }
+
+  return null;
+}
+
+function findGaps(positions: DatedPosition[], currentMonth: number): TimelineGap[] {
+  const gaps: TimelineGap[] = [];
+  let latest: DatedPosition | null = null;
+  // Shorter breaks (notice periods, holidays between jobs) are not reported
+  const minGapMonths = getConfig().parsing.timelineMinGapMonths;
+
+  for (const position of positions) {
+    if (latest && position.start - latest.end - 1 >= minGapMonths) {
+      gaps.push({
+        from: formatMonth(latest.end + 1),
+        to: formatMonth(position.start - 1),
+        months: position.start - latest.end - 1,
+        after: latest.label,
+        before: position.label,
+      });
+    }
+    if (!latest || position.end > latest.end) {
+      latest = position;
+    }
+  }
+
+  // Not currently employed
+  if (latest && currentMonth - latest.end >= minGapMonths) {
+    gaps.push({
+      from: formatMonth(latest.end + 1),
+      to: formatMonth(currentMonth),
+      months: currentMonth - latest.end,
+      after: latest.label,
+    });
+  }
+
+  return gaps;
+}
+
+function findOverlaps(positions: DatedPosition[]): TimelineOverlap[] {
+  const overlaps: TimelineOverlap[] = [];
+
+  for (let i = 0; i < positions.length; i++) {
+    for (let j = i + 1; j < positions.length; j++) {
+      const first = positions[i];
+      const second = positions[j];
+      const from = Math.max(first.start, second.start);
+      const to = Math.min(first.end, second.end);
+      const months = to - from + 1;
+
+      // With year-only dates, "2015 – 2018" and "2018 – 2020" may not overlap at all
+      const threshold = first.yearPrecision || second.yearPrecision ? 13 : MIN_OVERLAP_MONTHS;
+      if (months >= threshold) {
+        overlaps.push({ first: first.label, second: second.label, from: formatMonth(from), to: formatMonth(to), months });
+      }
+    }
+  }
+
+  return overlaps;
+}
+
+function skillExperience(text: string, positions: DatedPosition[]): SkillExperience[] {
+  const experience: SkillExperience[] = [];
+
+  for (const skill of getSkillTaxonomy().skills) {
+    const patterns = getSkillPatterns(skill);
+    const intervals = positions.filter(position => {
+      const positionText = text.slice(position.entry.span.start, position.entry.span.end);
+      return patterns.some(pattern => positionText.search(pattern) >= 0);
+    });
+
+    if (intervals.length > 0) {
+      experience.push({ id: skill.id, name: skill.name, years: toYears(coveredMonths(intervals)) });
+    }
+  }
+
+  return experience.sort((a, b) => b.years - a.years);
+}
+
+/**
+ * Months covered by the union of the intervals
+ */
+function coveredMonths(intervals: Interval[]): number {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  let total = 0;
+  let current: Interval | null = null;
+
+  for (const interval of sorted) {
+    if (current && interval.start <= current.end + 1) {
+      current.end = Math.max(current.end, interval.end);
+    } else {
+      if (current) total += current.end - current.start + 1;
+      current = { ...interval };
+    }
+  }
+
+  return current ? total + current.end - current.start + 1 : total;
+}
+
+function toYears(months: number): number {
+  return Math.round((months / 12) * 10) / 10;
+}
+
+function formatMonth(month: number): string {
+  return `${Math.floor(month / 12)}-${String((month % 12) + 1).padStart(2, '0')}`;
+}
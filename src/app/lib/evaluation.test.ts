@@ -0,0 +1,188 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { evaluateInterview, EvaluationOutput } from './evaluation';
+import { createInterview, InterviewRecord } from './interviews';
+import { LlmProvider, MockLlmProvider, setLlmProvider } from './llm';
+import { getRubric, Rubric } from './rubrics';
+import type { TranscriptRecord } from './transcripts';
+
+const rubric: Rubric = loadRubric('general', 1);
+
+let root: string;
+let interview: InterviewRecord;
+
+const transcript: TranscriptRecord = {
+  id: 'conv_evaluation_test',
+  provider: 'text',
+  agentId: 'mock',
+  callStatus: 'done',
+  turns: [
+    { role: 'agent', message: 'Could you walk me through your current role?', timeInCallSecs: 0 },
+    { role: 'user', message: 'I led the billing migration project. My role was to plan the rollout and I cut costs by 30 percent.', timeInCallSecs: 5 },
+    { role: 'agent', message: 'Which tools did you use, and why?', timeInCallSecs: 20 },
+    { role: 'user', message: 'We used PostgreSQL. I explained the trade-offs of partitioning to the team.', timeInCallSecs: 25 },
+  ],
+  durationSecs: 40,
+  eventAt: '2025-10-19T10:00:00.000Z',
+  receivedAt: '2025-10-19T10:00:01.000Z',
+};
+
+function loadRubric(id: string, version: number): Rubric {
+  const rubric = getRubric(id, version);
+  if (!rubric) {
+    throw new Error(`Rubric ${id} v${version} is missing`);
+  }
+  return rubric;
+}
+
+/**
+ * A provider that answers every evaluation with the given output
+ */
+function respondWith(output: unknown): LlmProvider {
+  return {
+    name: 'stub',
+    model: 'fixed',
+    complete: async () => (typeof output === 'string' ? output : JSON.stringify(output)),
+    chat: async function* () {},
+    checkHealth: async () => {},
+  };
+}
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'evaluation-test-'));
+  process.env.DATA_DIR = path.join(root, 'data');
+  interview = await createInterview({ fileId: crypto.randomUUID(), templateId: 'general', templateVersion: 1, mock: true });
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('evaluateInterview with the mock provider', () => {
+  it('scores the same transcript the same way every time', async () => {
+    setLlmProvider(new MockLlmProvider());
+    const first = await evaluateInterview(interview, transcript, rubric, true);
+    const second = await evaluateInterview(interview, transcript, rubric, true);
+
+    expect(second.competencies).toEqual(first.competencies);
+    expect(second.overallScore).toBe(first.overallScore);
+    expect(first.provider).toBe('mock');
+    expect(first.rejectedQuotes).toBe(0);
+
+    for (const competency of first.competencies) {
+      const score = competency.score;
+      if (typeof score === 'number') {
+        expect(score).toBeGreaterThanOrEqual(rubric.scale.min);
+        expect(score).toBeLessThanOrEqual(rubric.scale.max);
+      }
+      for (const evidence of competency.evidence) {
+        expect(transcript.turns[evidence.turn].role).toBe('user');
+        expect(transcript.turns[evidence.turn].message).toContain(evidence.quote);
+      }
+    }
+  });
+
+  it('returns the stored scorecard unless forced', async () => {
+    setLlmProvider(respondWith('not json'));
+    const stored = await evaluateInterview(interview, transcript, rubric);
+    expect(stored.provider).toBe('mock');
+  });
+});
+
+describe('evaluateInterview output checks', () => {
+  it('drops scores outside the rubric scale', async () => {
+    const output: EvaluationOutput = {
+      competencies: [
+        { id: 'relevant-experience', score: 4, rationale: 'Concrete project', evidence: [] },
+        { id: 'skills', score: 2, rationale: 'Some depth', evidence: [] },
+        { id: 'problem-solving', score: 7, rationale: 'Too high', evidence: [] },
+        { id: 'communication', score: 0, rationale: 'Too low', evidence: [] },
+        { id: 'motivation', score: 2.5, rationale: 'Not on the scale', evidence: [] },
+      ],
+      summary: 'Stubbed',
+    };
+    setLlmProvider(respondWith(output));
+
+    const scorecard = await evaluateInterview(interview, transcript, rubric, true);
+    const scores = Object.fromEntries(scorecard.competencies.map(competency => [competency.id, competency.score]));
+
+    expect(scores).toEqual({
+      'relevant-experience': 4,
+      skills: 2,
+      'problem-solving': null,
+      communication: null,
+      motivation: null,
+    });
+    // Weights 2 and 2: (4 * 2 + 2 * 2) / 4
+    expect(scorecard.overallScore).toBe(3);
+  });
+
+  it('weights the scores that have evidence and rounds to one decimal', async () => {
+    setLlmProvider(respondWith({
+      competencies: [
+        { id: 'relevant-experience', score: 5, rationale: '', evidence: [] },
+        { id: 'skills', score: 4, rationale: '', evidence: [] },
+        { id: 'problem-solving', score: 2, rationale: '', evidence: [] },
+      ],
+      summary: '',
+    }));
+
+    const scorecard = await evaluateInterview(interview, transcript, rubric, true);
+    // (5 * 2 + 4 * 2 + 2 * 1) / 5
+    expect(scorecard.overallScore).toBe(4);
+    expect(scorecard.competencies.find(competency => competency.id === 'motivation')).toMatchObject({
+      score: null,
+      rationale: 'Not evaluated',
+    });
+  });
+
+  it('has no overall score without any scored competency', async () => {
+    setLlmProvider(respondWith({ competencies: [], summary: 'Nothing to score' }));
+
+    const scorecard = await evaluateInterview(interview, transcript, rubric, true);
+    expect(scorecard.overallScore).toBeNull();
+  });
+
+  it('keeps only quotes found in candidate turns', async () => {
+    setLlmProvider(respondWith({
+      competencies: [{
+        id: 'relevant-experience',
+        score: 4,
+        rationale: '',
+        evidence: [
+          { turn: 1, quote: 'I led the billing migration project.' },
+          // Cites the wrong turn, with different spacing and case
+          { turn: 0, quote: 'explained  the TRADE-OFFS of partitioning' },
+          // Not said by the candidate
+          { turn: 0, quote: 'walk me through your current role' },
+          // Not said at all
+          { turn: 1, quote: 'I managed a team of twenty engineers' },
+          { turn: 1, quote: '   ' },
+        ],
+      }],
+      summary: '',
+    }));
+
+    const scorecard = await evaluateInterview(interview, transcript, rubric, true);
+    expect(scorecard.competencies[0].evidence).toEqual([
+      { turn: 1, quote: 'I led the billing migration project.' },
+      { turn: 3, quote: 'explained  the TRADE-OFFS of partitioning' },
+    ]);
+    expect(scorecard.rejectedQuotes).toBe(3);
+  });
+
+  it('accepts JSON in a code fence and rejects anything else', async () => {
+    setLlmProvider(respondWith('```json\n{"competencies":[],"summary":"Fenced"}\n```'));
+    expect((await evaluateInterview(interview, transcript, rubric, true)).summary).toBe('Fenced');
+
+    setLlmProvider(respondWith('I cannot score this'));
+    await expect(evaluateInterview(interview, transcript, rubric, true)).rejects.toThrow('invalid JSON');
+
+    setLlmProvider(respondWith({ summary: 'No list' }));
+    await expect(evaluateInterview(interview, transcript, rubric, true)).rejects.toThrow('no competencies');
+  });
+});
@@ -0,0 +1,272 @@
+// lib/evaluation.ts
+// Rubric-based evaluation of interview transcripts into scorecards, one per
+// interview session and rubric version
+import { JsonCollection } from './jsonStore';
+import { getLlmProvider } from './llm';
+import { redactPii } from './piiRedaction';
+import { getInterview, InterviewRecord } from './interviews';
+import { getRubricForTemplate, Rubric } from './rubrics';
+import type { TranscriptRecord } from './transcripts';
+
+/**
+ * Transcript turn as sent to the LLM; `index` is what evidence cites
+ */
+export interface EvaluationTurn {
+  index: number;
+  speaker: 'interviewer' | 'candidate';
+  text: string;
+}
+
+/**
+ * The prompt of an evaluation request, serialized as JSON
+ */
+export interface EvaluationInput {
+  task: 'score-transcript';
+  rubric: Pick<Rubric, 'scale' | 'competencies'>;
+  transcript: EvaluationTurn[];
+}
+
+/**
+ * The response expected from the LLM
+ */
+export interface EvaluationOutput {
+  competencies: {
+    id: string;
+    score: number | null;
+    rationale: string;
+    evidence: EvidenceQuote[];
+  }[];
+  summary: string;
+}
+
+export interface EvidenceQuote {
+  /** Index of the candidate turn the quote comes from */
+  turn: number;
+  quote: string;
+}
+
+export interface CompetencyScore {
+  id: string;
+  name: string;
+  weight: number;
+  /** Null when the transcript holds no evidence for the competency */
+  score: number | null;
+  rationale: string;
+  evidence: EvidenceQuote[];
+}
+
+export interface Scorecard {
+  /** `<interviewId>_<rubricId>_v<rubricVersion>` */
+  id: string;
+  interviewId: string;
+  fileId: string;
+  conversationId: string;
+  rubricId: string;
+  rubricVersion: number;
+  provider: string;
+  model: string;
+  competencies: CompetencyScore[];
+  /** Weighted mean of the competency scores that have evidence */
+  overallScore: number | null;
+  summary: string;
+  /** Quotes from the LLM that were dropped because they are not in the transcript */
+  rejectedQuotes: number;
+  createdAt: string;
+}
+
+const SYSTEM_PROMPT = [
+  'You assess job interview transcripts against a rubric.',
+  'Score each competency on the rubric scale using only evidence from the candidate turns of the transcript.',
+  'Use null as the score when the transcript holds no evidence for a competency.',
+  'Support every score with short verbatim quotes from candidate turns and cite the turn index.',
+  'Do not draw conclusions from names, accent, grammar, age, gender, origin or other personal characteristics.',
+  'Respond with a single JSON object: {"competencies":[{"id":string,"score":number|null,"rationale":string,',
+  '"evidence":[{"turn":number,"quote":string}]}],"summary":string}',
+].join(' ');
+
+const MAX_EVIDENCE_PER_COMPETENCY = 3;
+
+const scorecards = new JsonCollection<Scorecard>('scorecards');
+
+export function scorecardId(interviewId: string, rubric: Pick<Rubric, 'id' | 'version'>): string {
+  return `${interviewId}_${rubric.id}_v${rubric.version}`;
+}
+
+export async function getScorecard(interviewId: string, rubric: Pick<Rubric, 'id' | 'version'>): Promise<Scorecard | null> {
+  return scorecards.get(scorecardId(interviewId, rubric));
+}
+
+/**
+ * Scorecards of a session (or of all sessions), newest first
+ */
+export async function listScorecards(interviewId?: string): Promise<Scorecard[]> {
+  const all = await scorecards.list();
+  return all
+    .filter(scorecard => !interviewId || scorecard.interviewId === interviewId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function listScorecardsForFile(fileId: string): Promise<Scorecard[]> {
+  const all = await scorecards.list();
+  return all.filter(scorecard => scorecard.fileId === fileId);
+}
+
+export async function deleteScorecard(id: string): Promise<boolean> {
+  return scorecards.delete(id);
+}
+
+/**
+ * Score a session's transcript against a rubric version and store the
+ * scorecard. An existing scorecard for the same rubric version is returned
+ * as is unless `force` is set.
+ */
+export async function evaluateInterview(
+  interview: InterviewRecord,
+  transcript: TranscriptRecord,
+  rubric: Rubric,
+  force = false
+): Promise<Scorecard> {
+  if (!force) {
+    const existing = await getScorecard(interview.id, rubric);
+    if (existing) {
+      return existing;
+    }
+  }
+
+  // Candidates may say personal details out loud; they are not sent on
+  const turns: EvaluationTurn[] = transcript.turns.map((turn, index) => ({
+    index,
+    speaker: turn.role === 'user' ? 'candidate' : 'interviewer',
+    text: redactPii(turn.message).text,
+  }));
+
+  const input: EvaluationInput = {
+    task: 'score-transcript',
+    rubric: { scale: rubric.scale, competencies: rubric.competencies },
+    transcript: turns,
+  };
+
+  const provider = getLlmProvider();
+  const completion = await provider.complete({ system: SYSTEM_PROMPT, prompt: JSON.stringify(input), json: true });
+  const output = parseEvaluationOutput(completion);
+
+  let rejectedQuotes = 0;
+  const competencies: CompetencyScore[] = rubric.competencies.map(competency => {
+    const result = output.competencies.find(candidate => candidate.id === competency.id);
+    const score = result?.score;
+    const evidence: EvidenceQuote[] = [];
+
+    for (const quote of result?.evidence ?? []) {
+      const verified = verifyQuote(quote, turns);
+      if (verified && evidence.length < MAX_EVIDENCE_PER_COMPETENCY) evidence.push(verified);
+      else if (!verified) rejectedQuotes++;
+    }
+
+    return {
+      id: competency.id,
+      name: competency.name,
+      weight: competency.weight,
+      score: typeof score === 'number' && Number.isInteger(score) && score >= rubric.scale.min && score <= rubric.scale.max
+        ? score
+        : null,
+      rationale: result?.rationale ?? 'Not evaluated',
+      evidence,
+    };
+  });
+
+  if (rejectedQuotes > 0) {
+    console.warn(`Dropped ${rejectedQuotes} evidence quotes not found in the transcript of interview ${interview.id}`);
+  }
+
+  return scorecards.put({
+    id: scorecardId(interview.id, rubric),
+    interviewId: interview.id,
+    fileId: interview.fileId,
+    conversationId: transcript.id,
+    rubricId: rubric.id,
+    rubricVersion: rubric.version,
+    provider: provider.name,
+    model: provider.model,
+    competencies,
+    overallScore: weightedScore(competencies),
+    summary: output.summary,
+    rejectedQuotes,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Score a newly stored transcript with the rubric matching its interview
+ * template. Returns null when the session did not complete.
+ */
+export async function evaluateTranscript(transcript: TranscriptRecord): Promise<Scorecard | null> {
+  const interview = transcript.interviewId ? await getInterview(transcript.interviewId) : null;
+  if (!interview || interview.status !== 'completed' || transcript.turns.length === 0) {
+    return null;
+  }
+
+  return evaluateInterview(interview, transcript, getRubricForTemplate(interview.templateId));
+}
+
+function parseEvaluationOutput(completion: string): EvaluationOutput {
+  // Some models wrap JSON in a Markdown code fence despite the instructions
+  const json = completion.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let output: Partial<EvaluationOutput>;
+  try {
+    output = JSON.parse(json);
+  } catch {
+    throw new Error('LLM returned invalid JSON for the evaluation');
+  }
+
+  if (!output || !Array.isArray(output.competencies)) {
+    throw new Error('LLM evaluation has no competencies list');
+  }
+
+  return {
+    competencies: output.competencies
+      .filter(competency => typeof competency?.id === 'string')
+      .map(competency => ({
+        id: competency.id,
+        score: typeof competency.score === 'number' ? competency.score : null,
+        rationale: typeof competency.rationale === 'string' ? competency.rationale : '',
+        evidence: Array.isArray(competency.evidence) ? competency.evidence : [],
+      })),
+    summary: typeof output.summary === 'string' ? output.summary : '',
+  };
+}
+
+/**
+ * Accept a quote only if a candidate turn contains it verbatim (ignoring
+ * whitespace and case); the cited turn is corrected if another one matches
+ */
+function verifyQuote(quote: EvidenceQuote, turns: EvaluationTurn[]): EvidenceQuote | null {
+  if (typeof quote?.quote !== 'string' || !quote.quote.trim()) {
+    return null;
+  }
+
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+  const needle = normalize(quote.quote);
+  const candidateTurns = turns.filter(turn => turn.speaker === 'candidate');
+  const match = candidateTurns.find(turn => turn.index === quote.turn && normalize(turn.text).includes(needle))
+    ?? candidateTurns.find(turn => normalize(turn.text).includes(needle));
+
+  return match ? { turn: match.index, quote: quote.quote.trim() } : null;
+}
+
+function weightedScore(competencies: CompetencyScore[]): number | null {
+  let total = 0;
+  let totalWeight = 0;
+  for (const { score, weight } of competencies) {
+    if (typeof score === 'number') {
+      total += score * weight;
+      totalWeight += weight;
+    }
+  }
+
+  if (totalWeight === 0) {
+    return null;
+  }
+
+  return Math.round((total / totalWeight) * 10) / 10;
+}
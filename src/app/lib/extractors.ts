@@ -0,0 +1,244 @@
+// lib/extractors.ts
+import path from 'path';
+import mammoth from 'mammoth';
+import { getConfig } from './config';
+import { extractDocText } from './docParser';
+import { extractRtfText } from './rtfParser';
+import { extractOdtText } from './odtParser';
+import { extractHtmlText } from './htmlParser';
+import { extractMarkdownText } from './markdownParser';
+import { isOcrEnabled, ocrPdf, OcrResult } from './ocr';
+import { extractPdfLayout } from './pdfLayout';
+
+// PDFs with less text than this are treated as scanned images
+const MIN_PDF_TEXT_LENGTH = 50;
+
+/**
+ * Resume formats the parser can extract text from
+ */
+export type ResumeFormat = 'pdf' | 'docx' | 'doc' | 'rtf' | 'odt' | 'txt' | 'md' | 'html';
+
+/**
+ * Text produced by an extractor. `ocr` is set when the text was recognized
+ * from page images rather than read from the file.
+ */
+export interface ExtractedText {
+  text: string;
+  ocr?: OcrResult;
+}
+
+/**
+ * Turns the raw bytes of a file into plain text with line breaks
+ */
+export type TextExtractor = (buffer: Buffer) => Promise<ExtractedText>;
+
+interface FormatInfo {
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+}
+
+export const RESUME_FORMATS: Record<ResumeFormat, FormatInfo> = {
+  pdf: { label: 'PDF', extensions: ['.pdf'], mimeTypes: ['application/pdf'] },
+  docx: {
+    label: 'DOCX',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  },
+  doc: { label: 'DOC', extensions: ['.doc'], mimeTypes: ['application/msword'] },
+  rtf: { label: 'RTF', extensions: ['.rtf'], mimeTypes: ['application/rtf', 'text/rtf'] },
+  odt: { label: 'ODT', extensions: ['.odt'], mimeTypes: ['application/vnd.oasis.opendocument.text'] },
+  txt: { label: 'TXT', extensions: ['.txt'], mimeTypes: ['text/plain'] },
+  md: { label: 'Markdown', extensions: ['.md', '.markdown'], mimeTypes: ['text/markdown', 'text/x-markdown'] },
+  html: { label: 'HTML', extensions: ['.html', '.htm'], mimeTypes: ['text/html'] },
+};
+
+const extractors = new Map<ResumeFormat, TextExtractor>();
+
+/**
+ * Register (or replace) the text extractor for a format
+ */
+export function registerExtractor(format: ResumeFormat, extractor: TextExtractor): void {
+  extractors.set(format, extractor);
+}
+
+/**
+ * Look up the text extractor for a format
+ */
+export function getExtractor(format: ResumeFormat): TextExtractor | undefined {
+  return extractors.get(format);
+}
+
+/**
+ * Formats that currently have an extractor registered
+ */
+export function getSupportedFormats(): ResumeFormat[] {
+  return (Object.keys(RESUME_FORMATS) as ResumeFormat[]).filter(format => extractors.has(format));
+}
+
+/**
+ * Check that every format has an extractor and the PDF libraries load,
+ * for health checks
+ */
+export async function checkExtractors(): Promise<void> {
+  const missing = (Object.keys(RESUME_FORMATS) as ResumeFormat[]).filter(format => !extractors.has(format));
+  if (missing.length > 0) {
+    throw new Error(`No extractor registered for ${missing.join(', ')}`);
+  }
+
+  await import('pdf-parse');
+  await import('pdfjs-dist/legacy/build/pdf.mjs');
+}
+
+/**
+ * Detect the resume format from a filename
+ */
+export function detectFormat(filename: string): ResumeFormat | null {
+  const extension = path.extname(filename).toLowerCase();
+
+  for (const [format, info] of Object.entries(RESUME_FORMATS)) {
+    if (info.extensions.includes(extension)) {
+      return format as ResumeFormat;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Decode text files: honours UTF-8/UTF-16 byte order marks and falls back
+ * to Windows-1252 for legacy 8-bit files
+ */
+export function decodeText(buffer: Buffer): string {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return buffer.subarray(3).toString('utf8');
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return buffer.subarray(2).toString('utf16le');
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(buffer.subarray(2));
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+}
+
+/**
+ * Parse PDF files, falling back to OCR for scanned PDFs
+ */
+async function extractPDF(buffer: Buffer): Promise<ExtractedText> {
+  let text: string | undefined;
+
+  // 'layout' keeps lines, paragraphs and column order; 'plain' is pdf-parse's
+  // raw text stream
+  if (getConfig().parsing.pdfExtractionMode === 'layout') {
+    try {
+      const layout = await extractPdfLayout(buffer);
+      text = layout.text;
+    } catch (error) {
+      console.warn('PDF layout extraction failed, using plain text extraction:', error);
+    }
+  }
+
+  if (text === undefined) {
+    try {
+      const { PDFParse } = await import('pdf-parse');
+      const parser = new PDFParse({ data: new Uint8Array(buffer) });
+      const result = await parser.getText();
+      text = result.text;
+    } catch (error) {
+      console.error('PDF parsing error:', error);
+      throw new Error('Failed to parse PDF file. The file may be corrupted or password-protected.');
+    }
+  }
+
+  if (text.replace(/\s+/g, '').length >= MIN_PDF_TEXT_LENGTH) {
+    return { text };
+  }
+
+  if (!isOcrEnabled()) {
+    throw new Error('PDF contains no extractable text. It may be an image-based PDF.');
+  }
+
+  try {
+    const ocr = await ocrPdf(buffer);
+    console.log(`PDF OCR fallback: ${ocr.pages.length} page(s), confidence ${ocr.averageConfidence}`);
+
+    return { text: ocr.pages.map(page => page.text).join('\n\n'), ocr };
+  } catch (error) {
+    console.error('PDF OCR error:', error);
+    throw new Error('PDF contains no extractable text and OCR failed. Please upload a text-based PDF or DOCX.');
+  }
+}
+
+/**
+ * Parse DOCX files using mammoth
+ */
+async function extractDOCX(buffer: Buffer): Promise<ExtractedText> {
+  try {
+    const result = await mammoth.extractRawText({ buffer });
+
+    if (!result.value || result.value.trim().length === 0) {
+      throw new Error('DOCX contains no extractable text.');
+    }
+
+    // Log any conversion warnings
+    if (result.messages && result.messages.length > 0) {
+      console.warn('DOCX conversion warnings:', result.messages);
+    }
+
+    return { text: result.value };
+  } catch (error) {
+    console.error('DOCX parsing error:', error);
+    throw new Error('Failed to parse DOCX file. The file may be corrupted or in an unsupported format.');
+  }
+}
+
+/**
+ * Parse legacy Word 97-2003 DOC files from their OLE compound file
+ */
+async function extractDOC(buffer: Buffer): Promise<ExtractedText> {
+  try {
+    return { text: extractDocText(buffer) };
+  } catch (error) {
+    console.error('DOC parsing error:', error);
+    throw new Error('Failed to parse DOC file. The file may be corrupted, password-protected or saved by a pre-97 version of Word.');
+  }
+}
+
+/**
+ * Parse RTF files
+ */
+async function extractRTF(buffer: Buffer): Promise<ExtractedText> {
+  try {
+    return { text: extractRtfText(buffer.toString('latin1')) };
+  } catch (error) {
+    console.error('RTF parsing error:', error);
+    throw new Error('Failed to parse RTF file. The file may be corrupted.');
+  }
+}
+
+/**
+ * Parse OpenDocument text files
+ */
+async function extractODT(buffer: Buffer): Promise<ExtractedText> {
+  try {
+    return { text: await extractOdtText(buffer) };
+  } catch (error) {
+    console.error('ODT parsing error:', error);
+    throw new Error('Failed to parse ODT file. The file may be corrupted or in an unsupported format.');
+  }
+}
+
+registerExtractor('pdf', extractPDF);
+registerExtractor('docx', extractDOCX);
+registerExtractor('doc', extractDOC);
+registerExtractor('rtf', extractRTF);
+registerExtractor('odt', extractODT);
+registerExtractor('txt', async buffer => ({ text: decodeText(buffer) }));
+registerExtractor('md', async buffer => ({ text: extractMarkdownText(decodeText(buffer)) }));
+registerExtractor('html', async buffer => ({ text: extractHtmlText(decodeText(buffer)) }));
@@ -0,0 +1,245 @@
+// lib/fileSniffer.ts
+// Content-based file type detection from magic bytes and container layout
+import zlib from 'zlib';
+import { isCompoundFile, readCompoundFile } from './compoundFile';
+import type { ResumeFormat } from './extractors';
+
+/**
+ * What the bytes of a file look like. `text` covers plain text and
+ * Markdown, which cannot be told apart by content.
+ */
+export type SniffedType = Exclude<ResumeFormat, 'txt' | 'md'> | 'text' | 'zip' | 'ole' | 'encrypted-office' | 'unknown';
+
+export interface ZipEntryInfo {
+  name: string;
+  /** 0 = stored, 8 = deflate */
+  method: number;
+  compressedSize: number;
+  /** As declared by the archive; see `measureZipEntry` for the real size */
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_MARKER = 0xffffffff;
+
+/**
+ * Detect the file type from content alone
+ */
+export function sniffFileType(buffer: Buffer): SniffedType {
+  if (buffer.length === 0) {
+    return 'unknown';
+  }
+
+  // PDF readers accept the header anywhere in the first KB
+  if (buffer.subarray(0, 1024).includes('%PDF-')) {
+    return 'pdf';
+  }
+
+  if (buffer.length >= 4 && buffer.readUInt32LE(0) === ZIP_LOCAL_HEADER) {
+    return sniffZip(buffer);
+  }
+
+  if (isCompoundFile(buffer)) {
+    return sniffCompoundFile(buffer);
+  }
+
+  const head = buffer.subarray(0, 8192);
+
+  if (head.subarray(0, 5).toString('latin1') === '{\\rtf') {
+    return 'rtf';
+  }
+
+  if (!looksLikeText(head)) {
+    return 'unknown';
+  }
+
+  const start = head.toString('utf8').replace(/^\uFEFF/, '').trimStart().slice(0, 512).toLowerCase();
+  if (/^(?:<\?xml[^>]*>\s*)?(?:<!--[\s\S]*?-->\s*)*<(?:!doctype html|html)\b/.test(start)) {
+    return 'html';
+  }
+
+  return 'text';
+}
+
+/**
+ * Check whether sniffed content is acceptable for a declared format
+ */
+export function matchesDeclaredFormat(sniffed: SniffedType, declared: ResumeFormat): boolean {
+  switch (declared) {
+    case 'txt':
+    case 'md':
+      return sniffed === 'text' || sniffed === 'html';
+    case 'html':
+      return sniffed === 'html' || sniffed === 'text';
+    default:
+      return sniffed === declared;
+  }
+}
+
+/**
+ * Read ZIP entry names and sizes from the central directory without
+ * decompressing anything
+ */
+export function readZipEntries(buffer: Buffer): ZipEntryInfo[] {
+  const eocdOffset = findEndOfCentralDirectory(buffer);
+  if (eocdOffset < 0) {
+    throw new Error('ZIP archive has no central directory.');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocdOffset + 10);
+  let offset = buffer.readUInt32LE(eocdOffset + 16);
+  const entries: ZipEntryInfo[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+      throw new Error('ZIP archive has a corrupted central directory.');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeaderOffset = buffer.readUInt32LE(offset + 42);
+
+    entries.push({
+      name: buffer.subarray(offset + 46, offset + 46 + nameLength).toString('utf8'),
+      method,
+      // ZIP64 sizes are reported as unbounded so size limits reject them
+      compressedSize: compressedSize === ZIP64_MARKER ? Infinity : compressedSize,
+      uncompressedSize: uncompressedSize === ZIP64_MARKER ? Infinity : uncompressedSize,
+      localHeaderOffset,
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * The compressed bytes of an entry, located through its local header
+ */
+export function readZipEntryData(buffer: Buffer, entry: ZipEntryInfo): Buffer {
+  const offset = entry.localHeaderOffset;
+  if (offset + 30 > buffer.length || buffer.readUInt32LE(offset) !== ZIP_LOCAL_HEADER) {
+    throw new Error(`ZIP entry ${entry.name} has no local header.`);
+  }
+
+  const dataStart = offset + 30 + buffer.readUInt16LE(offset + 26) + buffer.readUInt16LE(offset + 28);
+  if (dataStart + entry.compressedSize > buffer.length) {
+    throw new Error(`ZIP entry ${entry.name} is truncated.`);
+  }
+  return buffer.subarray(dataStart, dataStart + entry.compressedSize);
+}
+
+/**
+ * Decompress an entry and count its real size, ignoring the size the
+ * archive declares. Stops as soon as more than `limit` bytes come out and
+ * returns null then, so a decompression bomb is never fully inflated.
+ */
+export function measureZipEntry(buffer: Buffer, entry: ZipEntryInfo, limit: number): Promise<number | null> {
+  const data = readZipEntryData(buffer, entry);
+
+  if (entry.method === 0) {
+    return Promise.resolve(data.length > limit ? null : data.length);
+  }
+  if (entry.method !== 8) {
+    return Promise.reject(new Error(`ZIP entry ${entry.name} uses unsupported compression method ${entry.method}.`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const inflate = zlib.createInflateRaw();
+    let size = 0;
+
+    inflate.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        inflate.destroy();
+        resolve(null);
+      }
+    });
+    inflate.on('end', () => resolve(size));
+    inflate.on('error', reject);
+    inflate.end(data);
+  });
+}
+
+function sniffZip(buffer: Buffer): SniffedType {
+  let names: string[];
+  try {
+    names = readZipEntries(buffer).map(entry => entry.name);
+  } catch {
+    return 'unknown';
+  }
+
+  // OOXML packages must declare their parts in [Content_Types].xml
+  if (names.includes('[Content_Types].xml') && names.includes('word/document.xml')) {
+    return 'docx';
+  }
+
+  // ODF stores its mimetype uncompressed as the first entry
+  if (names[0] === 'mimetype') {
+    const nameLength = buffer.readUInt16LE(26);
+    const extraLength = buffer.readUInt16LE(28);
+    const dataStart = 30 + nameLength + extraLength;
+    const mimetype = buffer.subarray(dataStart, dataStart + 64).toString('latin1');
+    if (mimetype.startsWith('application/vnd.oasis.opendocument.text')) {
+      return 'odt';
+    }
+  }
+
+  return 'zip';
+}
+
+function sniffCompoundFile(buffer: Buffer): SniffedType {
+  try {
+    const entries = readCompoundFile(buffer).entries.map(entry => entry.path);
+
+    if (entries.includes('WordDocument')) {
+      return 'doc';
+    }
+
+    // Password-protected OOXML files are wrapped in an OLE container
+    if (entries.includes('EncryptedPackage')) {
+      return 'encrypted-office';
+    }
+  } catch {
+    return 'unknown';
+  }
+
+  return 'ole';
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64KB
+  const lowest = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= lowest; offset--) {
+    if (buffer.readUInt32LE(offset) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Heuristic: text has no NUL bytes and few control characters
+ */
+function looksLikeText(head: Buffer): boolean {
+  // UTF-16 text carries a BOM and NUL bytes
+  if ((head[0] === 0xff && head[1] === 0xfe) || (head[0] === 0xfe && head[1] === 0xff)) {
+    return true;
+  }
+
+  let control = 0;
+  for (const byte of head) {
+    if (byte === 0) return false;
+    if (byte < 0x09 || (byte > 0x0d && byte < 0x20)) control++;
+  }
+
+  return control <= head.length * 0.01;
+}
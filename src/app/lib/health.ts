@@ -0,0 +1,103 @@
+// lib/health.ts
+// Readiness checks behind /api/health: configuration, storage, parsers and
+// the LLM and voice services interviews depend on
+import { getConfig } from './config';
+import { checkExtractors } from './extractors';
+import { checkDataDir } from './jsonStore';
+import { getLlmProvider } from './llm';
+import { getOcrProvider } from './ocr';
+import { getResumeStore } from './resumeStore';
+import { getVoiceAgentProvider } from './voiceAgent';
+
+export type HealthCheckName = 'config' | 'dataDir' | 'storage' | 'parsers' | 'ocr' | 'llm' | 'voice';
+
+export interface HealthCheckResult {
+  ok: boolean;
+  latencyMs: number;
+  /** Set when the check was not run, e.g. OCR when it is disabled */
+  skipped?: string;
+  error?: string;
+}
+
+export interface HealthReport {
+  status: 'ok' | 'unavailable';
+  checks: Record<HealthCheckName, HealthCheckResult>;
+  checkedAt: string;
+}
+
+const CHECK_TIMEOUT_MS = 5000;
+// Repeated probes within this window share one run, so polling the public
+// endpoint does not turn into a request per poll to the LLM and voice APIs
+const CACHE_MS = 10 * 1000;
+
+let cached: { report: Promise<HealthReport>; expiresAt: number } | null = null;
+
+/**
+ * Run every check; the report is only `ok` when all of them pass
+ */
+export function checkHealth(now = Date.now()): Promise<HealthReport> {
+  if (!cached || cached.expiresAt <= now) {
+    cached = { report: runChecks(), expiresAt: now + CACHE_MS };
+  }
+  return cached.report;
+}
+
+async function runChecks(): Promise<HealthReport> {
+  const config = await runCheck(async () => {
+    getConfig();
+  });
+
+  // Every other check reads the configuration
+  if (!config.ok) {
+    const notRun: HealthCheckResult = { ok: false, latencyMs: 0, skipped: 'Invalid configuration' };
+    return {
+      status: 'unavailable',
+      checks: { config, dataDir: notRun, storage: notRun, parsers: notRun, ocr: notRun, llm: notRun, voice: notRun },
+      checkedAt: new Date().toISOString(),
+    };
+  }
+
+  const { ocr } = getConfig().parsing;
+  const [dataDir, storage, parsers, ocrCheck, llm, voice] = await Promise.all([
+    runCheck(() => checkDataDir()),
+    runCheck(() => getResumeStore().checkWritable()),
+    runCheck(() => checkExtractors()),
+    ocr.enabled
+      ? runCheck(() => getOcrProvider().checkHealth(ocr.languages))
+      : Promise.resolve<HealthCheckResult>({ ok: true, latencyMs: 0, skipped: 'OCR_ENABLED=false' }),
+    runCheck(signal => getLlmProvider().checkHealth(signal)),
+    runCheck(signal => getVoiceAgentProvider().checkHealth(signal)),
+  ]);
+
+  const checks = { config, dataDir, storage, parsers, ocr: ocrCheck, llm, voice };
+  return {
+    status: Object.values(checks).every(check => check.ok) ? 'ok' : 'unavailable',
+    checks,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Time a check and turn failures and timeouts into a result
+ */
+async function runCheck(check: (signal: AbortSignal) => Promise<void>): Promise<HealthCheckResult> {
+  const started = Date.now();
+  const signal = AbortSignal.timeout(CHECK_TIMEOUT_MS);
+  const timedOut = new Promise<never>((_, reject) => {
+    signal.addEventListener('abort', () => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS} ms`)), { once: true });
+  });
+
+  try {
+    await Promise.race([check(signal), timedOut]);
+    return { ok: true, latencyMs: Date.now() - started };
+  } catch (error) {
+    return {
+      ok: false,
+      latencyMs: Date.now() - started,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    // The timeout may still fire after the check has finished
+    timedOut.catch(() => {});
+  }
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { decodeXmlEntities, extractHtmlText } from './htmlParser';
+
+describe('decodeXmlEntities', () => {
+  it('decodes named and numeric references', () => {
+    expect(decodeXmlEntities('M&uuml;ller &amp; S&#246;hne &#x2013; Berlin')).toBe('Müller & Söhne – Berlin');
+  });
+
+  it('replaces code points outside the Unicode range and surrogates', () => {
+    expect(decodeXmlEntities('a&#99999999;b&#xD800;c&#0;d')).toBe('a�b�c�d');
+  });
+
+  it('leaves unknown names, including prototype keys, untouched', () => {
+    expect(decodeXmlEntities('&constructor; &toString; &foo;')).toBe('&constructor; &toString; &foo;');
+  });
+});
+
+describe('extractHtmlText', () => {
+  it('parses documents with malformed entities', () => {
+    const text = extractHtmlText('<p>Jane&#xFFFFFFF; Doe</p><p>Engineer</p>');
+    expect(text).toContain('Jane� Doe');
+    expect(text).toContain('Engineer');
+  });
+});
@@ -0,0 +1,57 @@
+// lib/htmlParser.ts
+// Plain text extraction for HTML resumes
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  bull: '•', middot: '·', hellip: '…', copy: '©', reg: '®', euro: '€', auml: 'ä', ouml: 'ö',
+  uuml: 'ü', Auml: 'Ä', Ouml: 'Ö', Uuml: 'Ü', szlig: 'ß', eacute: 'é', egrave: 'è', aacute: 'á',
+  lsquo: "'", rsquo: "'", ldquo: '"', rdquo: '"', laquo: '«', raquo: '»',
+};
+
+const BLOCK_TAGS = 'p|div|section|article|header|footer|aside|main|nav|h[1-6]|ul|ol|table|tr|blockquote|pre|address|dl|dt|dd|hr';
+
+/**
+ * Decode named and numeric character references
+ */
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X'
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+      return Number.isNaN(value) ? entity : fromCodePoint(value);
+    }
+    return Object.hasOwn(NAMED_ENTITIES, code) ? NAMED_ENTITIES[code] : entity;
+  });
+}
+
+/**
+ * Out-of-range values, surrogates and NUL become U+FFFD, as in browsers
+ */
+function fromCodePoint(value: number): string {
+  const valid = value > 0 && value <= 0x10ffff && (value < 0xd800 || value > 0xdfff);
+  return String.fromCodePoint(valid ? value : 0xfffd);
+}
+
+/**
+ * Convert an HTML document to text, keeping block structure as line breaks
+ */
+export function extractHtmlText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|head|template|noscript|svg)\b[\s\S]*?<\/\1>/gi, '')
+    // Source formatting whitespace is not significant in HTML
+    .replace(/\s+/g, ' ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n• ')
+    .replace(/<\/(?:td|th)>/gi, '\t')
+    .replace(new RegExp(`</?(?:${BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeXmlEntities(text)
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
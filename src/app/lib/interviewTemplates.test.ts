@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TEMPLATE_ID, getDefaultTemplate, getTemplate, listTemplates } from './interviewTemplates';
+
+describe('getTemplate', () => {
+  it('returns the latest version unless a version is given', () => {
+    expect(getTemplate('technical-backend')).toMatchObject({ id: 'technical-backend', version: 1 });
+    expect(getTemplate('technical-backend', 1)?.version).toBe(1);
+  });
+
+  it('returns null for unknown templates and versions', () => {
+    expect(getTemplate('astronaut')).toBeNull();
+    expect(getTemplate('sales', 99)).toBeNull();
+  });
+
+  it('falls back to the general template', () => {
+    expect(getDefaultTemplate().id).toBe(DEFAULT_TEMPLATE_ID);
+  });
+});
+
+describe('listTemplates', () => {
+  it('lists every template with its versions', () => {
+    const templates = listTemplates();
+
+    expect(templates.map(template => template.id).sort()).toEqual([
+      'behavioural',
+      'general',
+      'graduate',
+      'sales',
+      'technical-backend',
+    ]);
+    for (const summary of templates) {
+      const latest = getTemplate(summary.id);
+      expect(summary).toMatchObject({
+        latestVersion: latest?.version,
+        versions: [1],
+        questionCount: latest?.questionCount,
+        durationMinutes: latest?.durationMinutes,
+      });
+      expect(latest?.instructions.length).toBeGreaterThan(0);
+    }
+  });
+});
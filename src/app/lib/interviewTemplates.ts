@@ -0,0 +1,132 @@
+// lib/interviewTemplates.ts
+// Versioned interview templates. Each version is a JSON file under
+// `templates/<id>/v<version>.json` and is never edited once released;
+// changes go into a new version so recorded interviews stay reproducible.
+import generalV1 from './templates/general/v1.json';
+import technicalBackendV1 from './templates/technical-backend/v1.json';
+import salesV1 from './templates/sales/v1.json';
+import graduateV1 from './templates/graduate/v1.json';
+import behaviouralV1 from './templates/behavioural/v1.json';
+
+export interface InterviewTemplate {
+  id: string;
+  version: number;
+  name: string;
+  description: string;
+  /** Target number of main questions, excluding follow-ups */
+  questionCount: number;
+  durationMinutes: number;
+  instructions: string[];
+  focusAreas: string[];
+}
+
+export interface InterviewTemplateSummary {
+  id: string;
+  name: string;
+  description: string;
+  latestVersion: number;
+  versions: number[];
+  questionCount: number;
+  durationMinutes: number;
+}
+
+export const DEFAULT_TEMPLATE_ID = 'general';
+
+// Register new template versions here
+const TEMPLATE_FILES: unknown[] = [
+  generalV1,
+  technicalBackendV1,
+  salesV1,
+  graduateV1,
+  behaviouralV1,
+];
+
+const templates = loadTemplates(TEMPLATE_FILES);
+
+/**
+ * Look up a template; without a version the latest one is returned
+ */
+export function getTemplate(id: string, version?: number): InterviewTemplate | null {
+  const versions = templates.get(id);
+  if (!versions) {
+    return null;
+  }
+
+  if (version === undefined) {
+    return versions[versions.length - 1];
+  }
+
+  return versions.find(template => template.version === version) ?? null;
+}
+
+export function getDefaultTemplate(): InterviewTemplate {
+  const template = getTemplate(DEFAULT_TEMPLATE_ID);
+  if (!template) {
+    throw new Error(`Default interview template "${DEFAULT_TEMPLATE_ID}" is missing`);
+  }
+  return template;
+}
+
+export function listTemplates(): InterviewTemplateSummary[] {
+  return [...templates.values()].map(versions => {
+    const latest = versions[versions.length - 1];
+    return {
+      id: latest.id,
+      name: latest.name,
+      description: latest.description,
+      latestVersion: latest.version,
+      versions: versions.map(template => template.version),
+      questionCount: latest.questionCount,
+      durationMinutes: latest.durationMinutes,
+    };
+  });
+}
+
+/**
+ * Validate template files and group them by ID, versions in ascending order
+ */
+function loadTemplates(files: unknown[]): Map<string, InterviewTemplate[]> {
+  const byId = new Map<string, InterviewTemplate[]>();
+
+  for (const file of files) {
+    const template = validateTemplate(file);
+    const versions = byId.get(template.id) ?? [];
+
+    if (versions.some(existing => existing.version === template.version)) {
+      throw new Error(`Duplicate interview template version: ${template.id} v${template.version}`);
+    }
+
+    versions.push(template);
+    versions.sort((a, b) => a.version - b.version);
+    byId.set(template.id, versions);
+  }
+
+  if (!byId.has(DEFAULT_TEMPLATE_ID)) {
+    throw new Error(`Default interview template "${DEFAULT_TEMPLATE_ID}" is missing`);
+  }
+
+  return byId;
+}
+
+function validateTemplate(file: unknown): InterviewTemplate {
+  const template = file as Partial<InterviewTemplate>;
+  const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+  if (
+    typeof template?.id !== 'string' ||
+    !/^[a-z0-9-]+$/.test(template.id) ||
+    !Number.isInteger(template.version) ||
+    typeof template.name !== 'string' ||
+    typeof template.description !== 'string' ||
+    !Number.isInteger(template.questionCount) ||
+    !Number.isInteger(template.durationMinutes) ||
+    !isStringList(template.instructions) ||
+    template.instructions.length === 0 ||
+    !isStringList(template.focusAreas)
+  ) {
+    throw new Error(`Invalid interview template: ${JSON.stringify(template?.id ?? template)}`);
+  }
+
+  return template as InterviewTemplate;
+}
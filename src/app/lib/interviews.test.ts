@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { checkCandidateTransition, validateTransitionInput } from './interviews';
+
+function candidateCheck(body: unknown): string | null {
+  const { input } = validateTransitionInput(body);
+  if (!input) throw new Error('invalid transition');
+  return checkCandidateTransition(input);
+}
+
+describe('checkCandidateTransition', () => {
+  it.each([
+    { status: 'in_progress' },
+    { status: 'abandoned' },
+    { status: 'abandoned', reason: 'Connection lost' },
+  ])('allows %j', body => {
+    expect(candidateCheck(body)).toBeNull();
+  });
+
+  it.each([
+    { status: 'completed' },
+    { status: 'failed', reason: 'Connection lost' },
+    { status: 'in_progress', conversationId: 'conv_someone_else' },
+  ])('rejects %j', body => {
+    expect(candidateCheck(body)).toEqual(expect.any(String));
+  });
+});
@@ -0,0 +1,220 @@
+// lib/interviews.ts
+// Interview sessions: which resume, template version, job description and
+// voice or text conversation each interview used, and its lifecycle state
+import { v4 as uuidv4 } from 'uuid';
+import { JsonCollection } from './jsonStore';
+
+/** Spoken with the voice agent, or typed in the chat */
+export type InterviewMode = 'voice' | 'text';
+
+export type InterviewStatus = 'created' | 'in_progress' | 'completed' | 'abandoned' | 'failed';
+
+export const INTERVIEW_STATUSES: InterviewStatus[] = ['created', 'in_progress', 'completed', 'abandoned', 'failed'];
+
+export interface InterviewRecord {
+  /** Session ID returned by /api/start-interview */
+  id: string;
+  fileId: string;
+  candidateName?: string;
+  templateId: string;
+  templateVersion: number;
+  jobDescriptionId?: string;
+  /** Invitation the candidate started the session with */
+  invitationId?: string;
+  /** Voice agent the session was started with, or the text interviewer */
+  agentId?: string;
+  /** Voice provider or chat conversation ID, known once the conversation has started */
+  conversationId?: string;
+  /** Missing on sessions from before text interviews, which were all voice */
+  mode?: InterviewMode;
+  /** Run against the local mock voice agent or the mock LLM */
+  mock: boolean;
+  status: InterviewStatus;
+  createdAt: string;
+  /** When the session entered `in_progress` */
+  startedAt?: string;
+  /** When the session reached `completed`, `abandoned` or `failed` */
+  endedAt?: string;
+  failureReason?: string;
+  updatedAt: string;
+}
+
+export type InterviewInput = Pick<InterviewRecord, 'fileId' | 'templateId' | 'templateVersion' | 'mock'> &
+  Partial<Pick<InterviewRecord, 'candidateName' | 'jobDescriptionId' | 'invitationId' | 'agentId' | 'mode'>>;
+
+export interface InterviewTransition {
+  status: InterviewStatus;
+  conversationId?: string;
+  /** Why the session failed or was abandoned */
+  reason?: string;
+}
+
+export interface InterviewFilter {
+  fileId?: string;
+  status?: InterviewStatus;
+  templateId?: string;
+  jobDescriptionId?: string;
+  conversationId?: string;
+  /** Only sessions created at or after this time */
+  createdFrom?: Date;
+  /** Only sessions created before this time */
+  createdTo?: Date;
+}
+
+const TRANSITIONS: Record<InterviewStatus, InterviewStatus[]> = {
+  created: ['in_progress', 'abandoned', 'failed'],
+  in_progress: ['completed', 'abandoned', 'failed'],
+  completed: [],
+  abandoned: [],
+  failed: [],
+};
+
+// Completion and the conversation ID come from the provider (transcript
+// ingestion) or the chat routes, never from the candidate's browser:
+// completing starts the shorter resume retention, and the conversation ID
+// decides which transcript belongs to the session
+const CANDIDATE_STATUSES: InterviewStatus[] = ['in_progress', 'abandoned'];
+
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+const MAX_REASON_LENGTH = 500;
+
+const interviews = new JsonCollection<InterviewRecord>('interviews');
+
+export function isInterviewStatus(value: unknown): value is InterviewStatus {
+  return INTERVIEW_STATUSES.includes(value as InterviewStatus);
+}
+
+export function canTransition(from: InterviewStatus, to: InterviewStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Validate the request body for a state transition
+ */
+export function validateTransitionInput(body: unknown): {
+  valid: boolean;
+  error?: string;
+  input?: InterviewTransition;
+} {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Request body must be a JSON object' };
+  }
+
+  const { status, conversationId, reason } = body as Record<string, unknown>;
+
+  if (!isInterviewStatus(status) || status === 'created') {
+    return { valid: false, error: `status must be one of ${INTERVIEW_STATUSES.slice(1).join(', ')}` };
+  }
+
+  if (conversationId !== undefined && (typeof conversationId !== 'string' || !CONVERSATION_ID_PATTERN.test(conversationId))) {
+    return { valid: false, error: 'conversationId must contain only letters, digits, "_" and "-"' };
+  }
+
+  if (reason !== undefined && (typeof reason !== 'string' || reason.length > MAX_REASON_LENGTH)) {
+    return { valid: false, error: `reason must be a string (max ${MAX_REASON_LENGTH} characters)` };
+  }
+
+  return {
+    valid: true,
+    input: {
+      status,
+      conversationId: typeof conversationId === 'string' ? conversationId : undefined,
+      reason: typeof reason === 'string' && reason.trim() ? reason.trim() : undefined,
+    },
+  };
+}
+
+/**
+ * Why a candidate may not make this transition, or null if they may
+ */
+export function checkCandidateTransition(transition: InterviewTransition): string | null {
+  if (!CANDIDATE_STATUSES.includes(transition.status)) {
+    return `Candidates can only report ${CANDIDATE_STATUSES.join(' or ')}`;
+  }
+  if (transition.conversationId !== undefined) {
+    return 'Candidates cannot set the conversation ID';
+  }
+  return null;
+}
+
+export async function createInterview(input: InterviewInput): Promise<InterviewRecord> {
+  const now = new Date().toISOString();
+
+  return interviews.put({
+    ...input,
+    id: uuidv4(),
+    status: 'created',
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Move a session to its next state at `at`, which becomes `startedAt` or
+ * `endedAt`. Throws if the transition is not allowed; check
+ * `canTransition` first.
+ */
+export async function transitionInterview(
+  interview: InterviewRecord,
+  transition: InterviewTransition,
+  at = new Date()
+): Promise<InterviewRecord> {
+  if (!canTransition(interview.status, transition.status)) {
+    throw new Error(`Interview ${interview.id} cannot move from ${interview.status} to ${transition.status}`);
+  }
+
+  const now = at.toISOString();
+  const ended = TRANSITIONS[transition.status].length === 0;
+
+  return interviews.put({
+    ...interview,
+    status: transition.status,
+    conversationId: transition.conversationId ?? interview.conversationId,
+    startedAt: transition.status === 'in_progress' ? now : interview.startedAt,
+    endedAt: ended ? now : interview.endedAt,
+    failureReason: transition.status === 'completed' ? undefined : transition.reason,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Record the conversation of a session without changing its status, e.g.
+ * when the transcript of an abandoned call arrives
+ */
+export async function setInterviewConversation(
+  interview: InterviewRecord,
+  conversationId: string
+): Promise<InterviewRecord> {
+  return interviews.put({ ...interview, conversationId, updatedAt: new Date().toISOString() });
+}
+
+export async function getInterview(id: string): Promise<InterviewRecord | null> {
+  return interviews.get(id);
+}
+
+/**
+ * Sessions matching every given filter, newest first
+ */
+export async function listInterviews(filter: InterviewFilter = {}): Promise<InterviewRecord[]> {
+  const all = await interviews.list();
+
+  return all
+    .filter(interview =>
+      (!filter.fileId || interview.fileId === filter.fileId) &&
+      (!filter.status || interview.status === filter.status) &&
+      (!filter.templateId || interview.templateId === filter.templateId) &&
+      (!filter.jobDescriptionId || interview.jobDescriptionId === filter.jobDescriptionId) &&
+      (!filter.conversationId || interview.conversationId === filter.conversationId) &&
+      (!filter.createdFrom || new Date(interview.createdAt) >= filter.createdFrom) &&
+      (!filter.createdTo || new Date(interview.createdAt) < filter.createdTo)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function listInterviewsForFile(fileId: string): Promise<InterviewRecord[]> {
+  return listInterviews({ fileId });
+}
+
+export async function deleteInterview(id: string): Promise<boolean> {
+  return interviews.delete(id);
+}
@@ -0,0 +1,90 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  claimInvitation,
+  createInvitation,
+  getInvitation,
+  InvitationRecord,
+  redeemInvitation,
+  releaseInvitation,
+  revokeInvitation,
+} from './invitations';
+
+const interview = { id: 'interview-1', fileId: 'file-1' };
+
+let root: string;
+
+function invite(): Promise<InvitationRecord> {
+  return createInvitation(
+    { candidateName: 'Erika Muster', templateId: 'general', templateVersion: 1, expiresInHours: 72 },
+    'recruiter'
+  );
+}
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'invitations-test-'));
+  process.env.DATA_DIR = path.join(root, 'data');
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('claimInvitation', () => {
+  it('lets only one of several parallel requests use an invitation', async () => {
+    const { id } = await invite();
+
+    const claims = await Promise.all(Array.from({ length: 5 }, () => claimInvitation(id)));
+
+    expect(claims.filter(claim => claim.invitation)).toHaveLength(1);
+    expect(claims.filter(claim => claim.problem?.code === 'INVITATION_USED')).toHaveLength(4);
+  });
+
+  it('makes the invitation pending again when released', async () => {
+    const { id } = await invite();
+    await claimInvitation(id);
+
+    expect((await releaseInvitation(id))?.status).toBe('pending');
+    expect((await getInvitation(id))?.redeemedAt).toBeUndefined();
+    expect((await claimInvitation(id)).invitation?.status).toBe('redeemed');
+  });
+
+  it('does not release an invitation that started an interview', async () => {
+    const { id } = await invite();
+    await claimInvitation(id);
+    await redeemInvitation(id, interview);
+
+    expect(await releaseInvitation(id)).toMatchObject({ status: 'redeemed', interviewId: interview.id });
+  });
+
+  it('refuses revoked and expired invitations', async () => {
+    const revoked = await invite();
+    await revokeInvitation(revoked.id);
+    expect((await claimInvitation(revoked.id)).problem?.code).toBe('INVITATION_REVOKED');
+
+    const expired = await invite();
+    const later = new Date(Date.parse(expired.expiresAt) + 1000);
+    expect((await claimInvitation(expired.id, later)).problem?.code).toBe('INVITATION_EXPIRED');
+
+    expect((await claimInvitation('missing')).problem?.code).toBe('INVITATION_INVALID');
+  });
+});
+
+describe('redeemInvitation and revokeInvitation', () => {
+  it('keeps a revoke made from another copy', async () => {
+    const pending = await invite();
+    await revokeInvitation(pending.id);
+
+    expect(await redeemInvitation(pending.id, interview)).toMatchObject({ status: 'revoked' });
+    expect((await getInvitation(pending.id))?.interviewId).toBeUndefined();
+  });
+
+  it('does not revoke a claimed invitation', async () => {
+    const { id } = await invite();
+    await claimInvitation(id);
+
+    expect((await revokeInvitation(id))?.status).toBe('redeemed');
+  });
+});
@@ -0,0 +1,322 @@
+// lib/invitations.ts
+// Invitation links for candidates. A link carries a signed, expiring token
+// and starts one interview, with the candidate's name, the template and
+// optionally a resume fixed by the recruiter.
+import { v4 as uuidv4 } from 'uuid';
+import { getConfig } from './config';
+import { JsonCollection } from './jsonStore';
+import { DEFAULT_TEMPLATE_ID } from './interviewTemplates';
+import { signToken, verifyToken } from './session';
+
+export type InvitationStatus = 'pending' | 'redeemed' | 'revoked';
+
+export const INVITATION_STATUSES: InvitationStatus[] = ['pending', 'redeemed', 'revoked'];
+
+export interface InvitationRecord {
+  id: string;
+  candidateName: string;
+  candidateEmail?: string;
+  templateId: string;
+  templateVersion: number;
+  jobDescriptionId?: string;
+  /** Resume provided by the recruiter, or the one the interview used */
+  fileId?: string;
+  /** Session subject of the recruiter who created the invitation */
+  createdBy: string;
+  status: InvitationStatus;
+  createdAt: string;
+  expiresAt: string;
+  redeemedAt?: string;
+  /** Interview started with the invitation */
+  interviewId?: string;
+  revokedAt?: string;
+  updatedAt: string;
+}
+
+export type InvitationInput = Pick<InvitationRecord, 'candidateName' | 'templateId'> &
+  Partial<Pick<InvitationRecord, 'candidateEmail' | 'templateVersion' | 'jobDescriptionId' | 'fileId'>> & {
+    expiresInHours: number;
+  };
+
+/**
+ * What the candidate's interview page learns from an invitation
+ */
+export interface InvitationDetails {
+  id: string;
+  candidateName: string;
+  template: { id: string; version: number; name: string };
+  resume?: { fileId: string; originalName: string };
+  expiresAt: string;
+}
+
+export interface InvitationProblem {
+  code: 'INVITATION_INVALID' | 'INVITATION_EXPIRED' | 'INVITATION_USED' | 'INVITATION_REVOKED';
+  error: string;
+}
+
+/**
+ * Either the invitation or why it cannot be used
+ */
+export type InvitationLookup =
+  | { invitation: InvitationRecord; problem?: undefined }
+  | { invitation?: undefined; problem: InvitationProblem };
+
+interface InvitationToken {
+  invitationId: string;
+  exp: number;
+}
+
+const MAX_TTL_HOURS = 30 * 24;
+const MAX_NAME_LENGTH = 200;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const invitations = new JsonCollection<InvitationRecord>('invitations');
+
+// Status changes read the stored record and write it back; they run one at
+// a time per invitation so that none of them works from a stale copy
+const invitationLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Validate the request body for creating an invitation. Whether the
+ * template, job description and resume exist is checked by the caller.
+ */
+export function validateInvitationInput(body: unknown): {
+  valid: boolean;
+  error?: string;
+  input?: InvitationInput;
+} {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Request body must be a JSON object' };
+  }
+
+  const {
+    candidateName,
+    candidateEmail,
+    templateId,
+    templateVersion,
+    jobDescriptionId,
+    fileId,
+    expiresInHours,
+  } = body as Record<string, unknown>;
+
+  if (typeof candidateName !== 'string' || !candidateName.trim() || candidateName.length > MAX_NAME_LENGTH) {
+    return { valid: false, error: `candidateName is required (max ${MAX_NAME_LENGTH} characters)` };
+  }
+
+  if (candidateEmail !== undefined && (typeof candidateEmail !== 'string' || !EMAIL_PATTERN.test(candidateEmail.trim()))) {
+    return { valid: false, error: 'candidateEmail must be a valid email address' };
+  }
+
+  if (templateId !== undefined && typeof templateId !== 'string') {
+    return { valid: false, error: 'templateId must be a string' };
+  }
+
+  if (templateVersion !== undefined && !(Number.isInteger(templateVersion) && (templateVersion as number) > 0)) {
+    return { valid: false, error: 'templateVersion must be a positive integer' };
+  }
+
+  for (const [field, value] of Object.entries({ jobDescriptionId, fileId })) {
+    if (value !== undefined && typeof value !== 'string') {
+      return { valid: false, error: `${field} must be a string` };
+    }
+  }
+
+  if (expiresInHours !== undefined && !(typeof expiresInHours === 'number' && expiresInHours > 0 && expiresInHours <= MAX_TTL_HOURS)) {
+    return { valid: false, error: `expiresInHours must be a number between 0 and ${MAX_TTL_HOURS}` };
+  }
+
+  return {
+    valid: true,
+    input: {
+      candidateName: candidateName.trim(),
+      candidateEmail: typeof candidateEmail === 'string' ? candidateEmail.trim().toLowerCase() : undefined,
+      templateId: (templateId as string | undefined) || DEFAULT_TEMPLATE_ID,
+      templateVersion: templateVersion as number | undefined,
+      jobDescriptionId: (jobDescriptionId as string | undefined) || undefined,
+      fileId: (fileId as string | undefined) || undefined,
+      expiresInHours: (expiresInHours as number | undefined) ?? getConfig().auth.invitationTtlHours,
+    },
+  };
+}
+
+/**
+ * Store an invitation; the template version must already be resolved
+ */
+export async function createInvitation(
+  input: InvitationInput & { templateVersion: number },
+  createdBy: string
+): Promise<InvitationRecord> {
+  const now = new Date();
+
+  return invitations.put({
+    id: uuidv4(),
+    candidateName: input.candidateName,
+    candidateEmail: input.candidateEmail,
+    templateId: input.templateId,
+    templateVersion: input.templateVersion,
+    jobDescriptionId: input.jobDescriptionId,
+    fileId: input.fileId,
+    createdBy,
+    status: 'pending',
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + input.expiresInHours * 3600 * 1000).toISOString(),
+    updatedAt: now.toISOString(),
+  });
+}
+
+/**
+ * The signed token for an invitation link; it expires with the invitation
+ */
+export function invitationToken(invitation: InvitationRecord): string {
+  const token: InvitationToken = {
+    invitationId: invitation.id,
+    exp: Math.floor(Date.parse(invitation.expiresAt) / 1000),
+  };
+  return signToken('invitation', token);
+}
+
+/**
+ * Why an invitation cannot start an interview, or null if it can
+ */
+export function checkInvitation(invitation: InvitationRecord, now = new Date()): InvitationProblem | null {
+  if (invitation.status === 'revoked') {
+    return { code: 'INVITATION_REVOKED', error: 'This invitation has been withdrawn' };
+  }
+  if (invitation.status === 'redeemed') {
+    return { code: 'INVITATION_USED', error: 'This invitation has already been used' };
+  }
+  if (Date.parse(invitation.expiresAt) <= now.getTime()) {
+    return { code: 'INVITATION_EXPIRED', error: 'This invitation has expired' };
+  }
+  return null;
+}
+
+/**
+ * The pending invitation a link token stands for
+ */
+export async function resolveInvitationToken(token: string): Promise<InvitationLookup> {
+  const payload = verifyToken<InvitationToken>('invitation', token);
+  const invitation = payload ? await invitations.get(payload.invitationId) : null;
+
+  if (!invitation) {
+    return { problem: { code: 'INVITATION_INVALID', error: 'This invitation link is invalid or has expired' } };
+  }
+
+  const problem = checkInvitation(invitation);
+  return problem ? { problem } : { invitation };
+}
+
+/**
+ * Use up a pending invitation before an interview is started from it, so
+ * that parallel requests cannot start two interviews from one link. The
+ * stored record is checked, not the caller's copy. Release the claim if
+ * the interview cannot be started.
+ */
+export async function claimInvitation(id: string, now = new Date()): Promise<InvitationLookup> {
+  return withInvitationLock(id, async () => {
+    const current = await invitations.get(id);
+    if (!current) {
+      return { problem: { code: 'INVITATION_INVALID', error: 'This invitation link is invalid or has expired' } };
+    }
+
+    const problem = checkInvitation(current, now);
+    if (problem) {
+      return { problem };
+    }
+
+    return {
+      invitation: await invitations.put({
+        ...current,
+        status: 'redeemed',
+        redeemedAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      }),
+    };
+  });
+}
+
+/**
+ * Record the interview a claimed invitation started. An invitation revoked
+ * in the meantime stays revoked.
+ */
+export async function redeemInvitation(
+  id: string,
+  interview: { id: string; fileId: string }
+): Promise<InvitationRecord | null> {
+  return withInvitationLock(id, async () => {
+    const current = await invitations.get(id);
+    if (!current || current.status !== 'redeemed' || current.interviewId) {
+      return current;
+    }
+
+    return invitations.put({
+      ...current,
+      interviewId: interview.id,
+      fileId: interview.fileId,
+      updatedAt: new Date().toISOString(),
+    });
+  });
+}
+
+/**
+ * Make a claimed invitation pending again when its interview failed to start
+ */
+export async function releaseInvitation(id: string): Promise<InvitationRecord | null> {
+  return withInvitationLock(id, async () => {
+    const current = await invitations.get(id);
+    if (!current || current.status !== 'redeemed' || current.interviewId) {
+      return current;
+    }
+
+    return invitations.put({ ...current, status: 'pending', redeemedAt: undefined, updatedAt: new Date().toISOString() });
+  });
+}
+
+/**
+ * Revoke an invitation if it is still pending. Returns the stored record,
+ * which is unchanged if the invitation was used or revoked meanwhile.
+ */
+export async function revokeInvitation(id: string): Promise<InvitationRecord | null> {
+  return withInvitationLock(id, async () => {
+    const current = await invitations.get(id);
+    if (!current || current.status !== 'pending') {
+      return current;
+    }
+
+    const now = new Date().toISOString();
+    return invitations.put({ ...current, status: 'revoked', revokedAt: now, updatedAt: now });
+  });
+}
+
+export async function getInvitation(id: string): Promise<InvitationRecord | null> {
+  return invitations.get(id);
+}
+
+/**
+ * Invitations, newest first
+ */
+export async function listInvitations(status?: InvitationStatus): Promise<InvitationRecord[]> {
+  const all = await invitations.list();
+  return all
+    .filter(invitation => !status || invitation.status === status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function listInvitationsForFile(fileId: string): Promise<InvitationRecord[]> {
+  const all = await invitations.list();
+  return all.filter(invitation => invitation.fileId === fileId);
+}
+
+export async function deleteInvitation(id: string): Promise<boolean> {
+  return invitations.delete(id);
+}
+
+function withInvitationLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const result = (invitationLocks.get(id) ?? Promise.resolve()).then(task);
+  const done = result.catch(() => {});
+  invitationLocks.set(id, done);
+  done.then(() => {
+    if (invitationLocks.get(id) === done) invitationLocks.delete(id);
+  });
+  return result;
+}
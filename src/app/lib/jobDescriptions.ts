@@ -0,0 +1,125 @@
+// lib/jobDescriptions.ts
+// Job descriptions that interviews can be run against
+import { v4 as uuidv4 } from 'uuid';
+import { JsonCollection } from './jsonStore';
+
+export interface JobDescription {
+  id: string;
+  title: string;
+  company?: string;
+  description: string;
+  requiredSkills: string[];
+  niceToHaveSkills: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type JobDescriptionInput = Pick<JobDescription, 'title' | 'description' | 'requiredSkills'> &
+  Partial<Pick<JobDescription, 'company' | 'niceToHaveSkills'>>;
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 20000;
+const MAX_SKILLS = 50;
+const MAX_SKILL_LENGTH = 100;
+
+const jobDescriptions = new JsonCollection<JobDescription>('job-descriptions');
+
+/**
+ * Validate the request body for creating a job description
+ */
+export function validateJobDescriptionInput(body: unknown): {
+  valid: boolean;
+  error?: string;
+  input?: JobDescriptionInput;
+} {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Request body must be a JSON object' };
+  }
+
+  const { title, company, description, requiredSkills, niceToHaveSkills } = body as Record<string, unknown>;
+
+  if (typeof title !== 'string' || !title.trim() || title.length > MAX_TITLE_LENGTH) {
+    return { valid: false, error: `title is required (max ${MAX_TITLE_LENGTH} characters)` };
+  }
+
+  if (company !== undefined && (typeof company !== 'string' || company.length > MAX_TITLE_LENGTH)) {
+    return { valid: false, error: `company must be a string (max ${MAX_TITLE_LENGTH} characters)` };
+  }
+
+  if (description !== undefined && (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+    return { valid: false, error: `description must be a string (max ${MAX_DESCRIPTION_LENGTH} characters)` };
+  }
+
+  const required = normalizeSkills(requiredSkills);
+  if (!required || required.length === 0) {
+    return { valid: false, error: `requiredSkills must be a non-empty list of up to ${MAX_SKILLS} skills` };
+  }
+
+  const niceToHave = niceToHaveSkills === undefined ? [] : normalizeSkills(niceToHaveSkills);
+  if (!niceToHave) {
+    return { valid: false, error: `niceToHaveSkills must be a list of up to ${MAX_SKILLS} skills` };
+  }
+
+  return {
+    valid: true,
+    input: {
+      title: title.trim(),
+      company: typeof company === 'string' && company.trim() ? company.trim() : undefined,
+      description: typeof description === 'string' ? description.trim() : '',
+      requiredSkills: required,
+      // A skill listed as required is not also nice-to-have
+      niceToHaveSkills: niceToHave.filter(skill => !required.some(r => r.toLowerCase() === skill.toLowerCase())),
+    },
+  };
+}
+
+export async function createJobDescription(input: JobDescriptionInput): Promise<JobDescription> {
+  const now = new Date().toISOString();
+
+  return jobDescriptions.put({
+    id: uuidv4(),
+    title: input.title,
+    company: input.company,
+    description: input.description,
+    requiredSkills: input.requiredSkills,
+    niceToHaveSkills: input.niceToHaveSkills ?? [],
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export async function getJobDescription(id: string): Promise<JobDescription | null> {
+  return jobDescriptions.get(id);
+}
+
+export async function listJobDescriptions(): Promise<JobDescription[]> {
+  const all = await jobDescriptions.list();
+  return all.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function deleteJobDescription(id: string): Promise<boolean> {
+  return jobDescriptions.delete(id);
+}
+
+/**
+ * Trim, de-duplicate and bound a skill list. Returns null if it is not a
+ * list of strings.
+ */
+function normalizeSkills(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.length > MAX_SKILLS) {
+    return null;
+  }
+
+  const skills: string[] = [];
+  for (const item of value) {
+    if (typeof item !== 'string' || item.length > MAX_SKILL_LENGTH) {
+      return null;
+    }
+    const skill = item.trim();
+    if (skill && !skills.some(existing => existing.toLowerCase() === skill.toLowerCase())) {
+      skills.push(skill);
+    }
+  }
+
+  return skills;
+}
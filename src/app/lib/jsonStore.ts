@@ -0,0 +1,90 @@
+// lib/jsonStore.ts
+// File-backed JSON record collections for application data (tombstones,
+// interview records and similar), one file per record under `DATA_DIR`
+import fs from 'fs/promises';
+import path from 'path';
+import { getConfig } from './config';
+
+const RECORD_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export function getDataDir(): string {
+  return getConfig().dataDir;
+}
+
+/**
+ * Write and remove a probe file, for health checks
+ */
+export async function checkDataDir(): Promise<void> {
+  const probe = path.join(getDataDir(), `.health-${process.pid}-${Date.now()}`);
+  await fs.mkdir(getDataDir(), { recursive: true });
+  await fs.writeFile(probe, '');
+  await fs.rm(probe);
+}
+
+/**
+ * A named collection of JSON records keyed by `id`
+ */
+export class JsonCollection<T extends { id: string }> {
+  constructor(private name: string) {}
+
+  async get(id: string): Promise<T | null> {
+    if (!RECORD_ID_PATTERN.test(id)) return null;
+
+    try {
+      return JSON.parse(await fs.readFile(this.recordPath(id), 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async put(record: T): Promise<T> {
+    if (!RECORD_ID_PATTERN.test(record.id)) {
+      throw new Error(`Invalid ${this.name} record ID: ${record.id}`);
+    }
+
+    await fs.mkdir(this.directory(), { recursive: true });
+
+    // Write to a temporary file first so readers never see a partial record
+    const target = this.recordPath(record.id);
+    const temporary = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(record, null, 2));
+    await fs.rename(temporary, target);
+    return record;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!RECORD_ID_PATTERN.test(id)) return false;
+
+    try {
+      await fs.unlink(this.recordPath(id));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  async list(): Promise<T[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records: (T | null)[] = await Promise.all(
+      entries.filter(entry => entry.endsWith('.json')).map(entry => this.get(entry.slice(0, -'.json'.length)))
+    );
+    return records.filter((record): record is T => record !== null);
+  }
+
+  private directory(): string {
+    return path.join(getDataDir(), this.name);
+  }
+
+  private recordPath(id: string): string {
+    return path.join(this.directory(), `${id}.json`);
+  }
+}
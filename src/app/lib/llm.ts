@@ -0,0 +1,256 @@
+// lib/llm.ts
+// Pluggable LLM access for evaluation and text chat interviews: an
+// OpenAI-compatible chat completions provider and a deterministic mock for
+// tests and local use
+import { getConfig } from './config';
+import type { EvaluationInput, EvaluationOutput } from './evaluation';
+
+export interface LlmCompletionRequest {
+  system: string;
+  prompt: string;
+  /** Ask for a single JSON object as the response */
+  json?: boolean;
+  maxTokens?: number;
+}
+
+export interface LlmChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmChatRequest {
+  system: string;
+  /** The conversation so far, oldest first */
+  messages: LlmChatMessage[];
+  maxTokens?: number;
+}
+
+/**
+ * Pluggable LLM backend. Implementations return the raw completion text.
+ */
+export interface LlmProvider {
+  name: string;
+  model: string;
+  complete(request: LlmCompletionRequest): Promise<string>;
+  /** The next assistant message, streamed in chunks of text */
+  chat(request: LlmChatRequest): AsyncIterable<string>;
+  /** Resolves when the backend is reachable and accepts the credentials */
+  checkHealth(signal: AbortSignal): Promise<void>;
+}
+
+/**
+ * Any service that implements the OpenAI chat completions API (OpenAI,
+ * Azure OpenAI, Mistral, vLLM, Ollama and others)
+ */
+export class OpenAiCompatibleLlmProvider implements LlmProvider {
+  name = 'openai-compatible';
+
+  constructor(
+    private baseUrl: string,
+    private apiKey: string,
+    public model: string
+  ) {}
+
+  async complete(request: LlmCompletionRequest): Promise<string> {
+    const response = await this.request({
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.prompt },
+      ],
+      // Scores should not change between runs on the same transcript
+      temperature: 0,
+      max_tokens: request.maxTokens,
+      response_format: request.json ? { type: 'json_object' } : undefined,
+    });
+
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('LLM response has no message content');
+    }
+
+    return content;
+  }
+
+  async *chat(request: LlmChatRequest): AsyncIterable<string> {
+    const response = await this.request({
+      model: this.model,
+      messages: [{ role: 'system', content: request.system }, ...request.messages],
+      temperature: 0.7,
+      max_tokens: request.maxTokens,
+      stream: true,
+    });
+
+    if (!response.body) {
+      throw new Error('LLM response has no body to stream');
+    }
+
+    // Server-sent events, one `data:` line per chunk, ending with [DONE]
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() ?? '';
+
+        for (const line of lines.map(line => line.trim())) {
+          if (!line.startsWith('data:')) continue;
+          const data = line.slice('data:'.length).trim();
+          if (data === '[DONE]') return;
+
+          const content = JSON.parse(data)?.choices?.[0]?.delta?.content;
+          if (typeof content === 'string' && content) {
+            yield content;
+          }
+        }
+      }
+    } finally {
+      // Stops the request when the consumer gives up early
+      reader.cancel().catch(() => {});
+    }
+  }
+
+  async checkHealth(signal: AbortSignal): Promise<void> {
+    // Listing models costs no tokens and still checks the API key
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/models`, {
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`LLM health check failed: ${response.status}`);
+    }
+  }
+
+  private async request(body: Record<string, unknown>): Promise<Response> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(`LLM request failed: ${response.status} ${(await response.text()).slice(0, 500)}`);
+    }
+
+    return response;
+  }
+}
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'and', 'beyond', 'clear', 'does', 'from', 'gives', 'have', 'into', 'just', 'level',
+  'names', 'needs', 'other', 'others', 'that', 'their', 'them', 'they', 'this', 'what', 'when', 'with',
+]);
+
+// Questions of the mock interviewer; the last line closes the chat
+const MOCK_CHAT_SCRIPT = [
+  'Thank you. Which project are you most proud of, and what was your role in it?',
+  'Tell me about a difficult problem you solved recently. How did you approach it?',
+  'How do you keep your skills up to date?',
+  'That is all my questions. Thank you for your time! You can end the interview now.',
+];
+
+/**
+ * Deterministic stand-in for tests and local development. Answers
+ * evaluation requests by keyword overlap between each competency and the
+ * candidate's answers, and chats as a scripted interviewer; it is not a
+ * real assessment.
+ */
+export class MockLlmProvider implements LlmProvider {
+  name = 'mock';
+  model = 'keyword-overlap';
+
+  async complete(request: LlmCompletionRequest): Promise<string> {
+    const input = JSON.parse(request.prompt) as EvaluationInput;
+    const answers = input.transcript.filter(turn => turn.speaker === 'candidate');
+
+    const output: EvaluationOutput = {
+      competencies: input.rubric.competencies.map(competency => {
+        const keywords = keywordsOf([competency.name, competency.description, ...competency.indicators].join(' '));
+        const hits = answers
+          .map(turn => ({ turn, matched: keywords.filter(keyword => turn.text.toLowerCase().includes(keyword)) }))
+          .filter(hit => hit.matched.length > 0)
+          .sort((a, b) => b.matched.length - a.matched.length || a.turn.index - b.turn.index);
+
+        if (hits.length === 0) {
+          return { id: competency.id, score: null, rationale: 'No answer touched on this competency.', evidence: [] };
+        }
+
+        const matched = new Set(hits.flatMap(hit => hit.matched));
+        return {
+          id: competency.id,
+          score: Math.min(input.rubric.scale.max, input.rubric.scale.min + matched.size),
+          rationale: `Answers mention ${[...matched].slice(0, 5).join(', ')}.`,
+          evidence: hits.slice(0, 2).map(hit => ({ turn: hit.turn.index, quote: sentenceWith(hit.turn.text, hit.matched[0]) })),
+        };
+      }),
+      summary: `Mock evaluation of ${answers.length} candidate answers by keyword overlap.`,
+    };
+
+    return JSON.stringify(output);
+  }
+
+  async *chat(request: LlmChatRequest): AsyncIterable<string> {
+    const asked = request.messages.filter(message => message.role === 'assistant').length;
+    const name = request.system.match(/^CANDIDATE NAME: (.+)$/m)?.[1] ?? 'there';
+    const reply = asked === 0
+      ? `Hello ${name}, thank you for joining. This is a practice run with a simulated interviewer. Could you briefly introduce yourself?`
+      : MOCK_CHAT_SCRIPT[Math.min(asked, MOCK_CHAT_SCRIPT.length) - 1];
+
+    // Word by word, so the client's streaming is exercised
+    for (const word of reply.split(/(?<= )/)) {
+      await new Promise(resolve => setTimeout(resolve, 30));
+      yield word;
+    }
+  }
+
+  async checkHealth(): Promise<void> {}
+}
+
+let llmProvider: LlmProvider | null = null;
+
+/**
+ * Replace the LLM backend, e.g. with a different vendor SDK
+ */
+export function setLlmProvider(provider: LlmProvider): void {
+  llmProvider = provider;
+}
+
+/**
+ * The configured provider. `LLM_PROVIDER=openai` (the default when
+ * `LLM_API_KEY` is set) uses `LLM_BASE_URL` and `LLM_MODEL`; otherwise
+ * the mock provider is used.
+ */
+export function getLlmProvider(): LlmProvider {
+  llmProvider ??= createLlmProvider();
+  return llmProvider;
+}
+
+function createLlmProvider(): LlmProvider {
+  const { llm } = getConfig();
+  return llm.provider === 'openai'
+    ? new OpenAiCompatibleLlmProvider(llm.baseUrl, llm.apiKey, llm.model)
+    : new MockLlmProvider();
+}
+
+function keywordsOf(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-zäöüß]{4,}/g) ?? [];
+  return [...new Set(words.filter(word => !STOP_WORDS.has(word)))];
+}
+
+/**
+ * The sentence of `text` that contains `keyword`, verbatim
+ */
+function sentenceWith(text: string, keyword: string): string {
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  return (sentences.find(sentence => sentence.toLowerCase().includes(keyword)) ?? text).trim();
+}
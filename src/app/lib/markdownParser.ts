@@ -0,0 +1,71 @@
+// lib/markdownParser.ts
+// Plain text extraction for Markdown resumes
+import { extractHtmlText } from './htmlParser';
+
+/**
+ * Strip Markdown syntax while keeping headings, list items and line breaks
+ */
+export function extractMarkdownText(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const output: string[] = [];
+  let inCodeBlock = false;
+
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+
+    if (inCodeBlock) {
+      output.push(line);
+      continue;
+    }
+
+    // Setext heading underlines and horizontal rules
+    if (/^\s*(?:=+|-{3,}|\*{3,}|_{3,})\s*$/.test(line)) {
+      continue;
+    }
+
+    // Table separator rows
+    if (/^\s*\|?\s*:?-{3,}:?\s*(?:\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line)) {
+      continue;
+    }
+
+    const converted = line
+      .replace(/^\s{0,3}#{1,6}\s+/, '')
+      .replace(/\s+#+\s*$/, '')
+      .replace(/^\s{0,3}>\s?/, '')
+      .replace(/^(\s*)[-*+]\s+\[[ xX]\]\s+/, '$1• ')
+      .replace(/^(\s*)[-*+]\s+/, '$1• ')
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_, label: string, url: string) =>
+        label === url ? label : `${label} (${url})`
+      )
+      .replace(/<(https?:\/\/[^>]+)>/g, '$1')
+      .replace(/(\*\*|__)(.+?)\1/g, '$2')
+      .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, '$1$2')
+      .replace(/~~(.+?)~~/g, '$1')
+      .replace(/`([^`]+)`/g, '$1')
+      .replace(/^\s*\|(.*)\|\s*$/, (_, cells: string) => cells.split('|').map(cell => cell.trim()).join('\t'));
+
+    output.push(converted);
+  }
+
+  // Inline HTML is allowed in Markdown
+  const text = output.join('\n');
+  return /<[a-z][\s\S]*>/i.test(text)
+    ? extractHtmlLines(text)
+    : text.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Strip inline HTML without collapsing the Markdown line structure
+ */
+function extractHtmlLines(text: string): string {
+  return text
+    .split('\n')
+    .map(line => (/<[a-z/][^>]*>/i.test(line) ? extractHtmlText(line) : line))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,261 @@
+import fs from 'fs/promises';
+import http from 'http';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import type { Duplex } from 'stream';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { POST as startInterview } from '@/app/api/start-interview/route';
+import { listScorecards } from './evaluation';
+import { createInterview, getInterview } from './interviews';
+import { checkMockVoiceServer, getMockConversation, MOCK_AGENT_ID, startMockVoiceServer } from './mockVoiceServer';
+import { getResumeStore, hashContent } from './resumeStore';
+import { createSession, SESSION_COOKIE, signToken } from './session';
+import { getTranscript } from './transcripts';
+import { MockVoiceProvider } from './voiceAgent';
+
+let root: string;
+
+/**
+ * A free port on this machine for the mock server
+ */
+async function freePort(): Promise<number> {
+  const probe = net.createServer();
+  await new Promise<void>(resolve => probe.listen(0, '127.0.0.1', resolve));
+  const { port } = probe.address() as net.AddressInfo;
+  await new Promise(resolve => probe.close(resolve));
+  return port;
+}
+
+async function waitFor<T>(check: () => Promise<T | null | undefined | false>, timeoutMs = 5000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const result = await check().catch(() => null);
+    if (result) return result;
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the mock voice agent');
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+/**
+ * The browser's side of the conversation: a WebSocket client exchanging
+ * JSON messages, like the ElevenLabs client SDK
+ */
+async function connect(signedUrl: string, onMessage: (message: Record<string, unknown>, send: (message: object) => void) => void) {
+  const request = http.request(signedUrl.replace(/^ws:/, 'http:'), {
+    headers: {
+      Connection: 'Upgrade',
+      Upgrade: 'websocket',
+      'Sec-WebSocket-Version': '13',
+      'Sec-WebSocket-Key': Buffer.from('mock-voice-test!').toString('base64'),
+      'Sec-WebSocket-Protocol': 'convai',
+    },
+  });
+
+  const [response, socket] = await new Promise<[http.IncomingMessage, Duplex]>((resolve, reject) => {
+    request.on('upgrade', (upgrade, upgraded) => resolve([upgrade, upgraded]));
+    request.on('error', reject);
+    request.end();
+  });
+
+  // Client frames are masked (RFC 6455); a zero mask keeps the payload as is
+  const send = (message: object) => {
+    const payload = Buffer.from(JSON.stringify(message));
+    const header = payload.length < 126
+      ? Buffer.from([0x81, 0x80 | payload.length])
+      : Buffer.from([0x81, 0x80 | 126, payload.length >> 8, payload.length & 0xff]);
+    socket.write(Buffer.concat([header, Buffer.alloc(4), payload]));
+  };
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', chunk => {
+    pending = Buffer.concat([pending, chunk]);
+    while (pending.length >= 2) {
+      let length = pending[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (pending.length < 4) return;
+        length = pending.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (pending.length < 10) return;
+        length = Number(pending.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (pending.length < offset + length) return;
+
+      const opcode = pending[0] & 0x0f;
+      const payload = pending.subarray(offset, offset + length);
+      pending = pending.subarray(offset + length);
+      if (opcode === 0x1) onMessage(JSON.parse(payload.toString('utf8')), send);
+    }
+  });
+
+  const closed = new Promise<void>(resolve => socket.on('close', () => resolve()));
+  return { protocol: response.headers['sec-websocket-protocol'], send, closed };
+}
+
+/**
+ * Answer every question by typing until the interviewer hangs up; resolves
+ * with the conversation ID and the interviewer's lines
+ */
+async function runCall(signedUrl: string, dynamicVariables: Record<string, string>) {
+  let conversationId = '';
+  const questions: string[] = [];
+  const client = await connect(signedUrl, (message, send) => {
+    if (message.type === 'conversation_initiation_metadata') {
+      conversationId = (message.conversation_initiation_metadata_event as { conversation_id: string }).conversation_id;
+    } else if (message.type === 'agent_response') {
+      questions.push((message.agent_response_event as { agent_response: string }).agent_response);
+      // Typed answers interrupt the interviewer, which keeps the call short
+      send({ type: 'user_message', text: `Answer ${questions.length}` });
+    }
+  });
+
+  client.send({ type: 'conversation_initiation_client_data', dynamic_variables: dynamicVariables });
+
+  // The interviewer hangs up after its closing line
+  await client.closed;
+  return { protocol: client.protocol, conversationId, questions };
+}
+
+/**
+ * Store a plain text resume as if it had been uploaded
+ */
+async function storeResume(text: string): Promise<string> {
+  const fileId = crypto.randomUUID();
+  const buffer = Buffer.from(text);
+  await getResumeStore().save(buffer, {
+    fileId,
+    originalName: 'resume.txt',
+    extension: '.txt',
+    size: buffer.length,
+    sha256: hashContent(buffer),
+    uploadedAt: new Date().toISOString(),
+    detectedType: 'txt',
+    scan: { verdict: 'clean', quarantined: false, findings: [], scannedAt: new Date().toISOString() },
+  });
+  return fileId;
+}
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'mock-voice-test-'));
+  process.env.DATA_DIR = path.join(root, 'data');
+  process.env.VOICE_PROVIDER = 'mock';
+  process.env.LLM_PROVIDER = 'mock';
+  process.env.MOCK_VOICE_PORT = String(await freePort());
+  process.env.RESUME_STORAGE_DIR = path.join(root, 'store');
+  process.env.AUTH_SECRET = 'mock-voice-test-secret-0123456789abcdef';
+  process.env.CANDIDATE_ACCESS = 'open';
+
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  startMockVoiceServer();
+  await waitFor(async () => {
+    await checkMockVoiceServer(AbortSignal.timeout(1000));
+    return true;
+  });
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('mock voice agent', () => {
+  it('runs a scripted call and delivers its transcript to the interview', async () => {
+    const provider = new MockVoiceProvider();
+    const interview = await createInterview({
+      fileId: crypto.randomUUID(),
+      templateId: 'general',
+      templateVersion: 1,
+      agentId: provider.agentId,
+      mode: 'voice',
+      mock: true,
+    });
+    const session = await provider.createSession({
+      interviewId: interview.id,
+      prompt: 'You are interviewing Erika.',
+      variables: { candidate_name: 'Erika' },
+    });
+
+    const { protocol, conversationId, questions } = await runCall(session.signedUrl, { interview_id: interview.id });
+    expect(protocol).toBe('convai');
+    expect(questions[0]).toContain('Hello Erika');
+    expect(questions).toHaveLength(4);
+
+    const transcript = await waitFor(() => getTranscript(conversationId));
+    expect(transcript).toMatchObject({ provider: 'mock', agentId: MOCK_AGENT_ID, interviewId: interview.id, callStatus: 'done' });
+    expect(transcript.turns.map(turn => turn.role)).toEqual(['agent', 'user', 'agent', 'user', 'agent', 'user', 'agent']);
+    expect(transcript.turns[1].message).toBe('Answer 1');
+
+    expect(await getInterview(interview.id)).toMatchObject({ status: 'completed', conversationId });
+    expect((await provider.getTranscript(conversationId))?.conversation).toMatchObject({ status: 'done', interviewId: interview.id });
+
+    // Scored by the mock LLM once the transcript is stored
+    const [scorecard] = await waitFor(async () => {
+      const scorecards = await listScorecards(interview.id);
+      return scorecards.length > 0 && scorecards;
+    });
+    expect(scorecard.conversationId).toBe(conversationId);
+  }, 20000);
+
+  it('gives the agent the prompt of a candidate voice start that the browser never sees', async () => {
+    const fileId = await storeResume([
+      'Erika Muster',
+      'erika.muster@example.com',
+      'Experience',
+      'Backend Developer, Acme GmbH',
+      '03/2019 – present',
+      '- Built billing services in Kotlin',
+    ].join('\n'));
+    const candidate = createSession({ sub: 'candidate_1', role: 'candidate', name: 'Erika', provider: 'candidate', fileIds: [fileId] });
+
+    const response = await startInterview(new NextRequest('http://localhost/api/start-interview', {
+      method: 'POST',
+      headers: { cookie: `${SESSION_COOKIE}=${signToken('session', candidate)}`, 'content-type': 'application/json' },
+      body: JSON.stringify({ fileId, mode: 'voice', candidateName: 'Erika' }),
+    }));
+    const started = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(started).not.toHaveProperty('resumeContext');
+    expect(JSON.stringify(started)).not.toContain('Kotlin');
+
+    // The browser passes only what VoiceInterview.tsx passes
+    const { conversationId, questions } = await runCall(started.signedUrl, {
+      interview_id: started.interviewId,
+      candidate_name: 'Erika',
+    });
+    expect(questions[0]).toContain('Hello Erika');
+
+    const record = await waitFor(() => getMockConversation(conversationId));
+    expect(record.interviewId).toBe(started.interviewId);
+    expect(record.prompt).toContain('Kotlin');
+    expect(record.prompt).not.toContain('erika.muster@example.com');
+
+    // Delivered and scored like any other call
+    await waitFor(async () => (await listScorecards(started.interviewId)).length > 0);
+  }, 20000);
+
+  it('refuses connections without the token of a started session', async () => {
+    const provider = new MockVoiceProvider();
+    const { signedUrl } = await provider.createSession({ interviewId: crypto.randomUUID(), prompt: 'Prompt', variables: {} });
+
+    const forged = new URL(signedUrl);
+    forged.searchParams.set('token', 'guessed');
+
+    for (const url of [forged.toString(), await provider.getSignedUrl(MOCK_AGENT_ID)]) {
+      const status = await new Promise<number | undefined>((resolve, reject) => {
+        const request = http.request(url.replace(/^ws:/, 'http:'), {
+          headers: { Connection: 'Upgrade', Upgrade: 'websocket', 'Sec-WebSocket-Version': '13', 'Sec-WebSocket-Key': 'dGVzdA==' },
+        });
+        request.on('response', response => resolve(response.statusCode));
+        request.on('upgrade', () => resolve(101));
+        request.on('error', reject);
+        request.end();
+      });
+      expect(status).toBe(403);
+    }
+  });
+});
@@ -0,0 +1,496 @@
+// lib/mockVoiceServer.ts
+// Local stand-in for ElevenLabs Conversational AI: a small WebSocket server
+// that speaks the ElevenLabs client protocol and plays a scripted
+// interviewer, so the whole interview flow works offline. It cannot
+// transcribe speech; answers are recorded by length. Like the real agent,
+// it takes the interviewer prompt from the server, not from the browser.
+import crypto from 'crypto';
+import http from 'http';
+import type { Duplex } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { getConfig } from './config';
+import { JsonCollection } from './jsonStore';
+import { evaluateTranscript } from './evaluation';
+import { ingestTranscript } from './transcriptIngestion';
+import type { TranscriptTurn } from './transcripts';
+import type { VoiceTranscript } from './voiceAgent';
+import { getVoiceSession, VoiceSessionRecord } from './voiceSessions';
+
+export interface MockConversationRecord {
+  id: string;
+  agentId: string;
+  status: 'in-progress' | 'done';
+  interviewId: string;
+  /** The interviewer prompt the agent was given; the script ignores it */
+  prompt: string;
+  startedAt: string;
+  endedAt?: string;
+  durationSecs?: number;
+  turns: TranscriptTurn[];
+}
+
+export const MOCK_AGENT_ID = 'mock-agent';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_SIZE = 1024 * 1024;
+
+// Audio both ways is 16 kHz, 16-bit mono PCM, as agreed in the metadata
+const SAMPLE_RATE = 16000;
+// Roughly how long the interviewer takes to say a word
+const SECS_PER_WORD = 0.35;
+// Mean amplitude above which a microphone chunk counts as speech
+const SPEECH_LEVEL = 500;
+const MIN_SPEECH_MS = 300;
+// Pause after which an answer is considered finished
+const END_OF_ANSWER_SILENCE_MS = 1200;
+// Moves on when the candidate says nothing
+const ANSWER_TIMEOUT_MS = 30 * 1000;
+
+const SCRIPT: ((candidateName: string) => string)[] = [
+  name => `Hello ${name}, thank you for joining. This is a practice run with a simulated interviewer. Could you briefly introduce yourself?`,
+  () => 'Thank you. Which project are you most proud of, and what was your role in it?',
+  () => 'Tell me about a difficult problem you solved recently. How did you approach it?',
+  () => 'That is all for today. Thank you for your time, goodbye!',
+];
+
+const conversations = new JsonCollection<MockConversationRecord>('mock-conversations');
+
+let server: http.Server | null = null;
+
+/**
+ * Base URL of the mock server as the browser reaches it: `MOCK_VOICE_URL`,
+ * or `ws://127.0.0.1:<MOCK_VOICE_PORT>` (default 8787)
+ */
+export function getMockVoiceServerUrl(): string {
+  const { port, url } = getSettings();
+  return url ?? `ws://127.0.0.1:${port}`;
+}
+
+/**
+ * Start listening; later calls do nothing
+ */
+export function startMockVoiceServer(): void {
+  if (server) {
+    return;
+  }
+
+  server = http.createServer((request, response) => {
+    if (request.url === '/health') {
+      response.writeHead(200, { 'Content-Type': 'text/plain' });
+      response.end('ok\n');
+      return;
+    }
+
+    response.writeHead(426, { 'Content-Type': 'text/plain' });
+    response.end('Mock voice agent: connect with a WebSocket to /v1/convai/conversation\n');
+  });
+  server.on('upgrade', (request, socket) => void acceptConnection(request, socket));
+  server.on('error', error => console.error('Mock voice server error:', error));
+  // Only reachable from this machine; put a proxy in front and set
+  // MOCK_VOICE_URL to reach it from elsewhere
+  server.listen(getSettings().port, '127.0.0.1', () => console.log(`Mock voice agent listening on ${getMockVoiceServerUrl()}`));
+}
+
+/**
+ * Resolves when the server in this process answers on its port
+ */
+export async function checkMockVoiceServer(signal: AbortSignal): Promise<void> {
+  const response = await fetch(`http://127.0.0.1:${getSettings().port}/health`, { signal });
+  if (!response.ok) {
+    throw new Error(`Mock voice agent health check failed: ${response.status}`);
+  }
+}
+
+export async function getMockConversation(conversationId: string): Promise<MockConversationRecord | null> {
+  return conversations.get(conversationId);
+}
+
+export function toMockTranscript(record: MockConversationRecord): VoiceTranscript {
+  return {
+    conversation: {
+      id: record.id,
+      agentId: record.agentId,
+      status: record.status,
+      startedAt: record.startedAt,
+      durationSecs: record.durationSecs,
+      interviewId: record.interviewId,
+    },
+    turns: record.turns,
+  };
+}
+
+function getSettings(): { port: number; url: string | null } {
+  const { voice } = getConfig();
+  if (voice.provider !== 'mock') {
+    throw new Error('The mock voice agent is only available with VOICE_PROVIDER=mock');
+  }
+  return voice;
+}
+
+/**
+ * Complete the WebSocket handshake (RFC 6455) for the conversation path,
+ * if the signed URL names a session started by /api/start-interview
+ */
+async function acceptConnection(request: http.IncomingMessage, socket: Duplex): Promise<void> {
+  const { pathname, searchParams } = new URL(request.url ?? '/', 'http://localhost');
+  const key = request.headers['sec-websocket-key'];
+
+  if (pathname !== '/v1/convai/conversation' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+    return;
+  }
+
+  const session = await findSession(searchParams.get('interview_id'), searchParams.get('token')).catch(error => {
+    console.error('Mock voice session lookup failed:', error);
+    return null;
+  });
+  if (!session) {
+    socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+    return;
+  }
+
+  // The client SDK asks for the `convai` subprotocol and rejects a
+  // handshake that does not confirm it
+  const protocols = (request.headers['sec-websocket-protocol'] ?? '').split(',').map(protocol => protocol.trim());
+  const accept = crypto.createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    ...(protocols.includes('convai') ? ['Sec-WebSocket-Protocol: convai'] : []),
+    '',
+    '',
+  ].join('\r\n'));
+
+  new MockCall(new MockSocket(socket), session);
+}
+
+async function findSession(interviewId: string | null, token: string | null): Promise<VoiceSessionRecord | null> {
+  const session = interviewId && token ? await getVoiceSession(interviewId) : null;
+  if (!session?.token || !token) {
+    return null;
+  }
+
+  const expected = Buffer.from(session.token);
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual) ? session : null;
+}
+
+/**
+ * Just enough of the WebSocket framing for JSON messages: unmasks client
+ * frames, joins fragments and answers pings and closes
+ */
+class MockSocket {
+  onMessage: (text: string) => void = () => {};
+  onClose: () => void = () => {};
+
+  private pending = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private closed = false;
+
+  constructor(private socket: Duplex) {
+    socket.on('data', chunk => this.receive(chunk));
+    socket.on('close', () => this.handleClose());
+    socket.on('error', () => socket.destroy());
+  }
+
+  send(message: object): void {
+    this.writeFrame(0x1, Buffer.from(JSON.stringify(message)));
+  }
+
+  close(code = 1000): void {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    this.writeFrame(0x8, payload);
+    this.socket.end();
+    this.handleClose();
+  }
+
+  private writeFrame(opcode: number, payload: Buffer): void {
+    if (this.closed || this.socket.destroyed) return;
+
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 65536) {
+      header = Buffer.alloc(4);
+      header[0] = 0x80 | opcode;
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[0] = 0x80 | opcode;
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+
+  private receive(chunk: Buffer): void {
+    this.pending = Buffer.concat([this.pending, chunk]);
+
+    while (this.pending.length >= 2) {
+      const fin = (this.pending[0] & 0x80) !== 0;
+      const opcode = this.pending[0] & 0x0f;
+      const masked = (this.pending[1] & 0x80) !== 0;
+      let length = this.pending[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.pending.length < 4) return;
+        length = this.pending.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.pending.length < 10) return;
+        length = Number(this.pending.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      if (length > MAX_MESSAGE_SIZE) {
+        this.socket.destroy();
+        return;
+      }
+
+      const mask = masked ? this.pending.subarray(offset, offset + 4) : null;
+      offset += masked ? 4 : 0;
+      if (this.pending.length < offset + length) return;
+
+      const payload = Buffer.from(this.pending.subarray(offset, offset + length));
+      if (mask) {
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] ^= mask[i % 4];
+        }
+      }
+      this.pending = this.pending.subarray(offset + length);
+
+      if (opcode === 0x8) {
+        this.close();
+        return;
+      }
+      if (opcode === 0x9) {
+        this.writeFrame(0xa, payload);
+        continue;
+      }
+      if (opcode === 0x0 || opcode === 0x1 || opcode === 0x2) {
+        this.fragments.push(payload);
+        if (fin) {
+          const message = Buffer.concat(this.fragments).toString('utf8');
+          this.fragments = [];
+          this.onMessage(message);
+        }
+      }
+    }
+  }
+
+  private handleClose(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.onClose();
+  }
+}
+
+/**
+ * One scripted conversation: the interviewer asks each question, then
+ * listens until the candidate has spoken and paused
+ */
+class MockCall {
+  private record: MockConversationRecord | null = null;
+  private state: 'waiting' | 'speaking' | 'listening' | 'ended' = 'waiting';
+  private step = 0;
+  private startedAtMs = Date.now();
+  private nextEventId = 1;
+  private speechMs = 0;
+  private silenceMs = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private saving: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private socket: MockSocket,
+    private session: VoiceSessionRecord
+  ) {
+    socket.onMessage = text => this.handleMessage(text);
+    socket.onClose = () => this.end();
+  }
+
+  private handleMessage(text: string): void {
+    let message: Record<string, unknown>;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return;
+    }
+
+    if (message.type === 'conversation_initiation_client_data' && this.state === 'waiting') {
+      this.begin();
+    } else if (typeof message.user_audio_chunk === 'string' && this.state === 'listening') {
+      this.listen(Buffer.from(message.user_audio_chunk, 'base64'));
+    } else if (message.type === 'user_message' && typeof message.text === 'string') {
+      // Typed messages interrupt the agent, as with the real service
+      this.answer(message.text, true);
+    }
+  }
+
+  /**
+   * The client's own dynamic variables are ignored; the session from the
+   * server has them
+   */
+  private begin(): void {
+    this.startedAtMs = Date.now();
+    this.record = {
+      id: `mock_${uuidv4().replace(/-/g, '')}`,
+      agentId: MOCK_AGENT_ID,
+      status: 'in-progress',
+      interviewId: this.session.id,
+      prompt: this.session.prompt,
+      startedAt: new Date(this.startedAtMs).toISOString(),
+      turns: [],
+    };
+    this.save();
+
+    this.socket.send({
+      type: 'conversation_initiation_metadata',
+      conversation_initiation_metadata_event: {
+        conversation_id: this.record.id,
+        agent_output_audio_format: `pcm_${SAMPLE_RATE}`,
+        user_input_audio_format: `pcm_${SAMPLE_RATE}`,
+      },
+    });
+
+    this.speak();
+  }
+
+  private speak(): void {
+    const text = SCRIPT[this.step](this.session.variables.candidate_name?.trim() || 'there');
+    const durationSecs = Math.max(1.5, text.split(/\s+/).length * SECS_PER_WORD);
+
+    this.state = 'speaking';
+    this.addTurn('agent', text);
+    this.socket.send({ type: 'agent_response', agent_response_event: { agent_response: text } });
+
+    // The SDK shows the agent as speaking while audio plays; one chunk per
+    // second of a short tone followed by silence
+    for (let second = 0; second < durationSecs; second++) {
+      this.socket.send({
+        type: 'audio',
+        audio_event: {
+          audio_base_64: speechPlaceholder(Math.min(1, durationSecs - second), second === 0).toString('base64'),
+          event_id: this.nextEventId++,
+        },
+      });
+    }
+
+    this.timer = setTimeout(() => {
+      if (this.step === SCRIPT.length - 1) {
+        this.socket.close();
+        return;
+      }
+      this.state = 'listening';
+      this.speechMs = 0;
+      this.silenceMs = 0;
+      this.timer = setTimeout(() => this.answer(null), ANSWER_TIMEOUT_MS);
+    }, durationSecs * 1000);
+  }
+
+  private listen(pcm: Buffer): void {
+    const samples = Math.floor(pcm.length / 2);
+    if (samples === 0) return;
+
+    let sum = 0;
+    for (let i = 0; i < samples; i++) {
+      sum += Math.abs(pcm.readInt16LE(i * 2));
+    }
+    const chunkMs = (samples / SAMPLE_RATE) * 1000;
+
+    if (sum / samples > SPEECH_LEVEL) {
+      this.speechMs += chunkMs;
+      this.silenceMs = 0;
+    } else if (this.speechMs > 0) {
+      this.silenceMs += chunkMs;
+    }
+
+    if (this.speechMs >= MIN_SPEECH_MS && this.silenceMs >= END_OF_ANSWER_SILENCE_MS) {
+      this.answer(`[Spoken answer, ${(this.speechMs / 1000).toFixed(1)} seconds]`);
+    }
+  }
+
+  private answer(text: string | null, interrupting = false): void {
+    const canInterrupt = interrupting && this.state === 'speaking' && this.step < SCRIPT.length - 1;
+    if (this.state !== 'listening' && !canInterrupt) return;
+    if (this.timer) clearTimeout(this.timer);
+
+    if (text) {
+      this.addTurn('user', text);
+      this.socket.send({ type: 'user_transcript', user_transcription_event: { user_transcript: text } });
+    }
+
+    this.step++;
+    this.speak();
+  }
+
+  private addTurn(role: TranscriptTurn['role'], message: string): void {
+    this.record?.turns.push({ role, message, timeInCallSecs: Math.round((Date.now() - this.startedAtMs) / 1000) });
+    this.save();
+  }
+
+  /**
+   * Called when the socket closes, whichever side hung up. Delivers the
+   * transcript the way the ElevenLabs post-call webhook would.
+   */
+  private end(): void {
+    if (this.state === 'ended') return;
+    const wasStarted = this.state !== 'waiting';
+    this.state = 'ended';
+    if (this.timer) clearTimeout(this.timer);
+
+    const record = this.record;
+    if (!wasStarted || !record) return;
+
+    const endedAt = new Date();
+    record.status = 'done';
+    record.endedAt = endedAt.toISOString();
+    record.durationSecs = Math.round((endedAt.getTime() - this.startedAtMs) / 1000);
+
+    this.save()
+      .then(() => ingestTranscript('mock', toMockTranscript(record), endedAt))
+      .then(async ({ transcript, duplicate }) => {
+        if (!duplicate) {
+          await evaluateTranscript(transcript);
+        }
+      })
+      .catch(error => console.error(`Mock conversation ${record.id} could not be delivered:`, error));
+  }
+
+  /**
+   * Writes one after another, so records are never saved out of order
+   */
+  private save(): Promise<unknown> {
+    const record = this.record;
+    if (record) {
+      this.saving = this.saving
+        .then(() => conversations.put({ ...record, turns: [...record.turns] }))
+        .catch(error => console.error(`Failed to save mock conversation ${record.id}:`, error));
+    }
+    return this.saving;
+  }
+}
+
+/**
+ * PCM audio standing in for the interviewer's voice: silence, starting
+ * with a short soft tone so the audio path can be heard working
+ */
+function speechPlaceholder(durationSecs: number, withTone: boolean): Buffer {
+  const samples = Math.round(durationSecs * SAMPLE_RATE);
+  const pcm = Buffer.alloc(samples * 2);
+
+  if (withTone) {
+    const toneSamples = Math.min(samples, SAMPLE_RATE * 0.15);
+    for (let i = 0; i < toneSamples; i++) {
+      pcm.writeInt16LE(Math.round(Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE) * 2000), i * 2);
+    }
+  }
+
+  return pcm;
+}
@@ -0,0 +1,164 @@
+// lib/ocr.ts
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { getConfig } from './config';
+import { loadPdfDocument, renderPageToPng } from './pdfDocument';
+
+/**
+ * Recognized text of a single image
+ */
+export interface OcrRecognition {
+  text: string;
+  /** Mean word confidence, 0-100 */
+  confidence: number;
+}
+
+/**
+ * Pluggable OCR engine. Implementations receive PNG images.
+ */
+export interface OcrProvider {
+  name: string;
+  recognize(image: Buffer, languages: string[]): Promise<OcrRecognition>;
+  /** Resolves when the engine and its language data can be loaded */
+  checkHealth(languages: string[]): Promise<void>;
+}
+
+export interface OcrPageResult extends OcrRecognition {
+  page: number;
+  lowConfidence: boolean;
+}
+
+export interface OcrResult {
+  provider: string;
+  pages: OcrPageResult[];
+  averageConfidence: number;
+  lowConfidence: boolean;
+  /** Pages beyond `OCR_MAX_PAGES` that were not processed */
+  skippedPages: number;
+}
+
+// ~216 DPI: a good trade-off between recognition quality and memory use
+const RENDER_SCALE = 3;
+
+/**
+ * Local Tesseract engine (WebAssembly). Language data is loaded from the
+ * bundled @tesseract.js-data packages, so no network access is needed.
+ */
+export class TesseractOcrProvider implements OcrProvider {
+  name = 'tesseract';
+
+  async recognize(image: Buffer, languages: string[]): Promise<OcrRecognition> {
+    const { createWorker, OEM } = await import('tesseract.js');
+    const langPath = await prepareLanguageData(languages);
+
+    const worker = await createWorker(languages, OEM.LSTM_ONLY, {
+      langPath,
+      gzip: true,
+      cacheMethod: 'none',
+    });
+
+    try {
+      const { data } = await worker.recognize(image);
+      return { text: data.text, confidence: data.confidence };
+    } finally {
+      await worker.terminate();
+    }
+  }
+
+  async checkHealth(languages: string[]): Promise<void> {
+    await import('tesseract.js');
+    await prepareLanguageData(languages);
+  }
+}
+
+let ocrProvider: OcrProvider = new TesseractOcrProvider();
+
+/**
+ * Replace the OCR engine, e.g. with a cloud service
+ */
+export function setOcrProvider(provider: OcrProvider): void {
+  ocrProvider = provider;
+}
+
+export function getOcrProvider(): OcrProvider {
+  return ocrProvider;
+}
+
+/**
+ * Check whether OCR fallback is enabled for this deployment
+ */
+export function isOcrEnabled(): boolean {
+  return getConfig().parsing.ocr.enabled;
+}
+
+/**
+ * Rasterize the pages of a PDF and run them through the OCR provider
+ */
+export async function ocrPdf(buffer: Buffer): Promise<OcrResult> {
+  // Pages scoring below minConfidence are flagged for the interviewer and recruiters
+  const { minConfidence, maxPages, languages } = getConfig().parsing.ocr;
+  const document = await loadPdfDocument(buffer);
+  const pages: OcrPageResult[] = [];
+  const pageCount = Math.min(document.numPages, maxPages);
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const image = await renderPageToPng(document, page, RENDER_SCALE);
+      page.cleanup();
+
+      const recognition = await ocrProvider.recognize(image, languages);
+      pages.push({
+        page: pageNumber,
+        text: recognition.text,
+        confidence: recognition.confidence,
+        lowConfidence: recognition.confidence < minConfidence,
+      });
+    }
+  } finally {
+    await document.destroy();
+  }
+
+  const averageConfidence = pages.length > 0
+    ? pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length
+    : 0;
+
+  return {
+    provider: ocrProvider.name,
+    pages,
+    averageConfidence: Math.round(averageConfidence * 10) / 10,
+    lowConfidence: averageConfidence < minConfidence || pages.some(page => page.lowConfidence),
+    skippedPages: document.numPages - pageCount,
+  };
+}
+
+/**
+ * Tesseract reads every language from one directory, while each data
+ * package ships its own. Link them into a shared temp directory once.
+ */
+async function prepareLanguageData(languages: string[]): Promise<string> {
+  const langPath = path.join(os.tmpdir(), 'deubel-tessdata');
+  await fs.mkdir(langPath, { recursive: true });
+
+  for (const language of languages) {
+    const filename = `${language}.traineddata.gz`;
+    const target = path.join(langPath, filename);
+
+    try {
+      await fs.access(target);
+    } catch {
+      const source = path.join(
+        process.cwd(),
+        'node_modules',
+        '@tesseract.js-data',
+        language,
+        '4.0.0_best_int',
+        filename
+      );
+      await fs.copyFile(source, target);
+    }
+  }
+
+  return langPath;
+}
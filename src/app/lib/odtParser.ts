@@ -0,0 +1,40 @@
+// lib/odtParser.ts
+// Plain text extraction for OpenDocument text files (.odt)
+import JSZip from 'jszip';
+import { decodeXmlEntities } from './htmlParser';
+
+/**
+ * Extract the body text of an ODT document from its content.xml
+ */
+export async function extractOdtText(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const contentFile = zip.file('content.xml');
+
+  if (!contentFile) {
+    throw new Error('ODT file has no content.xml.');
+  }
+
+  const xml = await contentFile.async('string');
+  const bodyMatch = xml.match(/<office:body\b[^>]*>([\s\S]*)<\/office:body>/);
+  const body = bodyMatch ? bodyMatch[1] : xml;
+
+  const text = body
+    // Annotations and tracked deletions are not part of the visible text
+    .replace(/<office:annotation\b[\s\S]*?<\/office:annotation>/g, '')
+    .replace(/<text:tracked-changes\b[\s\S]*?<\/text:tracked-changes>/g, '')
+    .replace(/<text:s\b[^>]*?text:c="(\d+)"[^>]*\/>/g, (_, count: string) => ' '.repeat(Number(count)))
+    .replace(/<text:s\b[^>]*\/>/g, ' ')
+    .replace(/<text:tab\b[^>]*\/>/g, '\t')
+    .replace(/<text:line-break\b[^>]*\/>/g, '\n')
+    .replace(/<text:list-item\b[^>]*>/g, '• ')
+    .replace(/<\/text:(?:p|h)>/g, '\n')
+    .replace(/<\/table:table-cell>/g, '\t')
+    .replace(/<\/table:table-row>/g, '\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeXmlEntities(text)
+    .replace(/• \n/g, '• ')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,201 @@
+// lib/oidc.ts
+// Single sign-on for staff through any OpenID Connect provider, using the
+// authorization code flow with PKCE. Roles come from a claim of the ID token.
+import crypto from 'crypto';
+import { getConfig } from './config';
+import type { StaffRole } from './session';
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  /** Defaults to `<origin>/api/auth/oidc/callback` */
+  redirectUri?: string;
+  scopes: string;
+  /** ID token claim holding the user's roles or groups */
+  roleClaim: string;
+  /** Claim values that grant each role */
+  adminValues: string[];
+  recruiterValues: string[];
+}
+
+/**
+ * Short-lived state kept in a signed cookie between redirect and callback
+ */
+export interface OidcFlowState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  /** Where to go after signing in */
+  next: string;
+  exp: number;
+}
+
+export interface OidcIdentity {
+  subject: string;
+  name: string;
+  email?: string;
+  /** Null when the role claim grants no staff role */
+  role: StaffRole | null;
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+export const OIDC_FLOW_COOKIE = 'oidc_flow';
+
+const FLOW_TTL_SECONDS = 10 * 60;
+
+// Tolerated clock difference when checking ID token times
+const CLOCK_SKEW_SECONDS = 60;
+
+let discovery: Promise<DiscoveryDocument> | null = null;
+
+/**
+ * The OIDC settings, or null when SSO is not configured
+ */
+export function getOidcConfig(): OidcConfig | null {
+  return getConfig().auth.oidc;
+}
+
+/**
+ * Start a sign-in: the provider URL to redirect to and the state to keep
+ */
+export async function createAuthorizationRequest(
+  config: OidcConfig,
+  redirectUri: string,
+  next: string
+): Promise<{ url: string; flow: OidcFlowState }> {
+  const endpoints = await discover(config);
+  const flow: OidcFlowState = {
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: randomToken(48),
+    redirectUri,
+    next,
+    exp: Math.floor(Date.now() / 1000) + FLOW_TTL_SECONDS,
+  };
+
+  const url = new URL(endpoints.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: redirectUri,
+    scope: config.scopes,
+    state: flow.state,
+    nonce: flow.nonce,
+    code_challenge: crypto.createHash('sha256').update(flow.codeVerifier).digest('base64url'),
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return { url: url.toString(), flow };
+}
+
+/**
+ * Exchange the authorization code and map the ID token to an identity.
+ * Throws if the token is invalid.
+ */
+export async function completeAuthorization(
+  config: OidcConfig,
+  flow: OidcFlowState,
+  code: string
+): Promise<OidcIdentity> {
+  const endpoints = await discover(config);
+
+  const response = await fetch(endpoints.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: flow.redirectUri,
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+      code_verifier: flow.codeVerifier,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`OIDC token request failed: ${response.status} ${await response.text()}`);
+  }
+
+  const { id_token: idToken } = await response.json() as { id_token?: string };
+  if (!idToken) {
+    throw new Error('OIDC token response has no ID token');
+  }
+
+  // The token comes straight from the token endpoint over TLS, which OIDC
+  // Core (3.1.3.7) accepts in place of checking its signature
+  const claims = decodeJwtPayload(idToken);
+  const now = Math.floor(Date.now() / 1000);
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== endpoints.issuer) {
+    throw new Error(`ID token issuer ${claims.iss} does not match ${endpoints.issuer}`);
+  }
+  if (!audience.includes(config.clientId)) {
+    throw new Error('ID token was not issued for this client');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error('ID token has expired');
+  }
+  if (claims.nonce !== flow.nonce) {
+    throw new Error('ID token nonce does not match');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new Error('ID token has no subject');
+  }
+
+  const email = typeof claims.email === 'string' ? claims.email : undefined;
+  return {
+    subject: claims.sub,
+    name: typeof claims.name === 'string' ? claims.name : email ?? claims.sub,
+    email,
+    role: mapRole(config, claims[config.roleClaim]),
+  };
+}
+
+/**
+ * The highest role granted by a claim value (a string or list of strings)
+ */
+function mapRole(config: OidcConfig, claim: unknown): StaffRole | null {
+  const values = (Array.isArray(claim) ? claim : [claim]).filter((value): value is string => typeof value === 'string');
+
+  if (values.some(value => config.adminValues.includes(value))) return 'admin';
+  if (values.some(value => config.recruiterValues.includes(value))) return 'recruiter';
+  return null;
+}
+
+async function discover(config: OidcConfig): Promise<DiscoveryDocument> {
+  discovery ??= fetch(`${config.issuer}/.well-known/openid-configuration`)
+    .then(async response => {
+      if (!response.ok) {
+        throw new Error(`OIDC discovery failed: ${response.status}`);
+      }
+      return await response.json() as DiscoveryDocument;
+    })
+    .catch(error => {
+      // Retry on the next sign-in
+      discovery = null;
+      throw error;
+    });
+
+  return discovery;
+}
+
+function decodeJwtPayload(token: string): Record<string, unknown> {
+  const [, payload] = token.split('.');
+  try {
+    return JSON.parse(Buffer.from(payload ?? '', 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('ID token is not a valid JWT');
+  }
+}
+
+function randomToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
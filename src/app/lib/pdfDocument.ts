@@ -0,0 +1,55 @@
+// lib/pdfDocument.ts
+// Thin helpers around pdf.js for page-level access (rendering, text positions)
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+interface CanvasAndContext {
+  canvas: { toBuffer(mimeType: 'image/png'): Buffer };
+  context: unknown;
+}
+
+interface CanvasFactory {
+  create(width: number, height: number): CanvasAndContext;
+  destroy(canvasAndContext: CanvasAndContext): void;
+}
+
+/**
+ * Open a PDF from memory with pdf.js. Callers must `destroy()` the document.
+ */
+export async function loadPdfDocument(buffer: Buffer): Promise<PDFDocumentProxy> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  // pdf.js may transfer the array to its worker, so hand it a copy
+  const loadingTask = pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+    isEvalSupported: false,
+  });
+
+  return loadingTask.promise;
+}
+
+/**
+ * Render a page to a PNG image. `scale` 1 equals 72 DPI.
+ */
+export async function renderPageToPng(
+  document: PDFDocumentProxy,
+  page: PDFPageProxy,
+  scale: number
+): Promise<Buffer> {
+  const viewport = page.getViewport({ scale });
+  const canvasFactory = (document as unknown as { canvasFactory: CanvasFactory }).canvasFactory;
+  const canvasAndContext = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+  try {
+    await page.render({
+      canvasContext: canvasAndContext.context as CanvasRenderingContext2D,
+      canvas: canvasAndContext.canvas as unknown as HTMLCanvasElement,
+      viewport,
+      background: 'white',
+    }).promise;
+
+    return canvasAndContext.canvas.toBuffer('image/png');
+  } finally {
+    canvasFactory.destroy(canvasAndContext);
+  }
+}
@@ -0,0 +1,300 @@
+// lib/pdfLayout.ts
+// Layout-preserving PDF text extraction: keeps lines and paragraphs, reads
+// multi-column pages column by column and marks section headings
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { loadPdfDocument } from './pdfDocument';
+import { classifyHeading, ResumeSectionKind } from './resumeStructure';
+
+interface Fragment {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+interface LayoutLine {
+  text: string;
+  x: number;
+  right: number;
+  y: number;
+  fontSize: number;
+}
+
+export interface PdfHeading {
+  text: string;
+  kind: ResumeSectionKind;
+  page: number;
+}
+
+export interface PdfLayoutPage {
+  page: number;
+  columns: number;
+  text: string;
+}
+
+export interface PdfLayout {
+  text: string;
+  pages: PdfLayoutPage[];
+  headings: PdfHeading[];
+}
+
+// A gutter must leave at least this share of the page width free of text
+const MIN_GUTTER_WIDTH = 0.02;
+// ...and sit in the middle part of the page
+const GUTTER_SEARCH_START = 0.25;
+const GUTTER_SEARCH_END = 0.75;
+// Lines that cross the gutter are allowed up to this share of all lines
+const MAX_SPANNING_LINES = 0.15;
+// Each column must hold at least this share of the page's characters
+const MIN_COLUMN_TEXT_SHARE = 0.15;
+
+/**
+ * Extract text from a PDF, preserving reading order and line structure
+ */
+export async function extractPdfLayout(buffer: Buffer): Promise<PdfLayout> {
+  const document = await loadPdfDocument(buffer);
+  const pages: PdfLayoutPage[] = [];
+  const headings: PdfHeading[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+      page.cleanup();
+
+      const fragments = content.items
+        .filter((item): item is TextItem => 'str' in item && item.str.trim().length > 0)
+        .map(item => ({
+          text: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          fontSize: Math.hypot(item.transform[2], item.transform[3]) || item.height || 10,
+        }));
+
+      const { text, columns, pageHeadings } = layoutPage(fragments, viewport.width);
+      pages.push({ page: pageNumber, columns, text });
+      headings.push(...pageHeadings.map(heading => ({ ...heading, page: pageNumber })));
+    }
+  } finally {
+    await document.destroy();
+  }
+
+  return {
+    text: pages.map(page => page.text).join('\n\n'),
+    pages,
+    headings,
+  };
+}
+
+function layoutPage(fragments: Fragment[], pageWidth: number): {
+  text: string;
+  columns: number;
+  pageHeadings: { text: string; kind: ResumeSectionKind }[];
+} {
+  const rows = buildRows(fragments);
+  const segments = rows.flat();
+  const gutter = findGutter(segments, pageWidth);
+
+  // Split into full-width bands and two-column bands, top to bottom
+  let ordered: LayoutLine[][];
+  if (gutter === null) {
+    ordered = [rows.map(mergeRow)];
+  } else {
+    ordered = [];
+    let left: LayoutLine[] = [];
+    let right: LayoutLine[] = [];
+
+    const flushColumns = () => {
+      if (left.length > 0) ordered.push(left);
+      if (right.length > 0) ordered.push(right);
+      left = [];
+      right = [];
+    };
+
+    for (const line of segments) {
+      if (line.x < gutter && line.right > gutter) {
+        flushColumns();
+        ordered.push([line]);
+      } else if (line.right <= gutter) {
+        left.push(line);
+      } else {
+        right.push(line);
+      }
+    }
+    flushColumns();
+  }
+
+  const pageHeadings: { text: string; kind: ResumeSectionKind }[] = [];
+  const blocks = ordered.map(block => {
+    let output = '';
+    let previous: LayoutLine | null = null;
+
+    for (const line of block) {
+      const kind = classifyHeading(line.text);
+      if (kind) {
+        pageHeadings.push({ text: line.text, kind });
+      }
+
+      if (previous) {
+        const gap = previous.y - line.y;
+        const lineHeight = Math.max(previous.fontSize, line.fontSize) * 1.2;
+        // Paragraph break on a large vertical gap or before a heading
+        output += gap > lineHeight * 1.5 || kind ? '\n\n' : '\n';
+      }
+
+      output += line.text;
+      previous = line;
+    }
+
+    return output;
+  });
+
+  return {
+    text: blocks.join('\n\n'),
+    columns: gutter === null ? 1 : 2,
+    pageHeadings,
+  };
+}
+
+/**
+ * Group fragments into rows of line segments, top to bottom and left to
+ * right. Fragments on the same baseline but far apart horizontally become
+ * separate segments so that columns can be told apart.
+ */
+function buildRows(fragments: Fragment[]): LayoutLine[][] {
+  const sorted = [...fragments].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: Fragment[][] = [];
+
+  for (const fragment of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].y - fragment.y) <= Math.max(row[0].fontSize, fragment.fontSize) * 0.4) {
+      row.push(fragment);
+    } else {
+      rows.push([fragment]);
+    }
+  }
+
+  return rows
+    .map(row => {
+      row.sort((a, b) => a.x - b.x);
+      const segments: LayoutLine[] = [];
+      let current: LayoutLine | null = null;
+
+      for (const fragment of row) {
+        const gap = current ? fragment.x - current.right : 0;
+
+        if (current && gap <= fragment.fontSize * 3) {
+          const needsSpace = gap > fragment.fontSize * 0.15 && !/\s$/.test(current.text) && !/^\s/.test(fragment.text);
+          current.text += (needsSpace ? ' ' : '') + fragment.text;
+          current.right = Math.max(current.right, fragment.x + fragment.width);
+          current.fontSize = Math.max(current.fontSize, fragment.fontSize);
+        } else {
+          current = {
+            text: fragment.text,
+            x: fragment.x,
+            right: fragment.x + fragment.width,
+            y: fragment.y,
+            fontSize: fragment.fontSize,
+          };
+          segments.push(current);
+        }
+      }
+
+      return segments
+        .map(segment => ({ ...segment, text: segment.text.replace(/\s+/g, ' ').trim() }))
+        .filter(segment => segment.text.length > 0);
+    })
+    .filter(row => row.length > 0);
+}
+
+/**
+ * Join the segments of a row into one line (single-column layout)
+ */
+function mergeRow(row: LayoutLine[]): LayoutLine {
+  return {
+    text: row.map(segment => segment.text).join(' '),
+    x: row[0].x,
+    right: row[row.length - 1].right,
+    y: row[0].y,
+    fontSize: Math.max(...row.map(segment => segment.fontSize)),
+  };
+}
+
+/**
+ * Find an x position in the middle of the page that almost no line
+ * crosses, with a left-aligned column of text on each side of it
+ */
+function findGutter(lines: LayoutLine[], pageWidth: number): number | null {
+  if (lines.length < 6 || pageWidth <= 0) {
+    return null;
+  }
+
+  const step = pageWidth * 0.005;
+  const samples: { x: number; crossing: number }[] = [];
+
+  for (let x = pageWidth * GUTTER_SEARCH_START; x <= pageWidth * GUTTER_SEARCH_END; x += step) {
+    samples.push({ x, crossing: lines.filter(line => line.x < x && line.right > x).length });
+  }
+
+  const minCrossing = Math.min(...samples.map(sample => sample.crossing));
+  if (minCrossing > lines.length * MAX_SPANNING_LINES) {
+    return null;
+  }
+
+  // Widest run of positions with the fewest crossing lines
+  let best: { start: number; end: number } | null = null;
+  let runStart: number | null = null;
+
+  for (const sample of [...samples, { x: Infinity, crossing: Infinity }]) {
+    if (sample.crossing === minCrossing) {
+      runStart ??= sample.x;
+      continue;
+    }
+    if (runStart !== null) {
+      const end = sample.x === Infinity ? samples[samples.length - 1].x : sample.x - step;
+      if (!best || end - runStart > best.end - best.start) {
+        best = { start: runStart, end };
+      }
+      runStart = null;
+    }
+  }
+
+  if (!best || best.end - best.start < pageWidth * MIN_GUTTER_WIDTH) {
+    return null;
+  }
+
+  const gutter = (best.start + best.end) / 2;
+  const leftLines = lines.filter(line => line.right <= gutter);
+  const rightLines = lines.filter(line => line.x >= gutter);
+
+  // Both sides must be real columns with a shared left edge and a fair
+  // share of the text, which rules out right-aligned dates next to a
+  // single column of text
+  if (!isAlignedColumn(leftLines) || !isAlignedColumn(rightLines)) {
+    return null;
+  }
+
+  const totalChars = lines.reduce((sum, line) => sum + line.text.length, 0);
+  const sideChars = (side: LayoutLine[]) => side.reduce((sum, line) => sum + line.text.length, 0);
+  if (Math.min(sideChars(leftLines), sideChars(rightLines)) < totalChars * MIN_COLUMN_TEXT_SHARE) {
+    return null;
+  }
+
+  return gutter;
+}
+
+function isAlignedColumn(lines: LayoutLine[]): boolean {
+  if (lines.length < 3) {
+    return false;
+  }
+
+  const tolerance = Math.max(...lines.map(line => line.fontSize));
+  const aligned = lines.filter(line =>
+    lines.filter(other => Math.abs(other.x - line.x) <= tolerance).length >= lines.length / 2
+  );
+
+  return aligned.length >= lines.length / 2;
+}
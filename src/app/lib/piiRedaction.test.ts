@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { redactPii } from './piiRedaction';
+
+function addresses(text: string): string[] {
+  return redactPii(text, 'full').report.redactions
+    .filter(redaction => redaction.category === 'address')
+    .map(redaction => redaction.placeholder);
+}
+
+describe('redactPii street addresses', () => {
+  it.each([
+    'Hauptstraße 12, 10115 Berlin',
+    'Musterstr. 5a, D-80331 München',
+    'Lindenweg 3\n80331 München',
+    'Am Marktplatz 7 | +49 30 1234567',
+    'Kaiserring 10-12',
+  ])('redacts %j', text => {
+    expect(addresses(text).length).toBeGreaterThan(0);
+    expect(redactPii(text, 'full').text).not.toMatch(/straße 12|str\. 5a|weg 3|platz 7|ring 10/);
+  });
+
+  it.each([
+    'Software Engineering 2015 – 2019',
+    'Led Monitoring 2020 rollout',
+    'Arbeitsplatz 3 Jahre betreut',
+    'Data Engineering 12 Monate, Recruiting 3 Projekte',
+    'Im Jahr 2019 gewechselt',
+  ])('leaves %j unchanged', text => {
+    expect(redactPii(text, 'full').text).toBe(text);
+  });
+
+  it('keeps the words after a house number intact', () => {
+    const { text } = redactPii('Hauptstraße 12 a, Berlin\nLed Monitoring 2020 rollout', 'full');
+    expect(text).toBe('[ADDRESS_1], Berlin\nLed Monitoring 2020 rollout');
+  });
+
+  it('keeps work history dates for the timeline', () => {
+    const resume = 'Berufserfahrung\nSoftware Engineering 2015 – 2019, Acme GmbH\nMonitoring 2020 – 2022, Beta AG';
+    expect(redactPii(resume, 'full').text).toBe(resume);
+  });
+});
+
+describe('redactPii phone numbers', () => {
+  it.each([
+    'Tel: 030 1234567',
+    '+49 30 1234567',
+    '0171 2345678',
+    '0049 (0) 89 12345678',
+    '(555) 123-4567',
+  ])('redacts %j', text => {
+    const { report } = redactPii(text, 'contact');
+    expect(report.redactions.map(redaction => redaction.category)).toEqual(['phone']);
+  });
+
+  it.each([
+    '01021990',
+    '0102-1990',
+    '012019 - 032021',
+    '01/2019 – 03/2021',
+    '15.03.2019 - 30.09.2021',
+  ])('leaves the date %j unchanged', text => {
+    expect(redactPii(text, 'full').text).toBe(text);
+  });
+
+  it('redacts a labelled birth date as a date of birth, not a phone number', () => {
+    const { text, report } = redactPii('Geburtsdatum: 01.02.1990\nTel. 0171 2345678', 'full');
+    expect(text).toBe('Geburtsdatum: [DATE_OF_BIRTH_1]\nTel. [PHONE_1]');
+    expect(report.counts).toEqual({ 'date-of-birth': 1, phone: 1 });
+  });
+});
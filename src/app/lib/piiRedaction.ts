@@ -0,0 +1,252 @@
+// lib/piiRedaction.ts
+// Replaces personal data in resume text with stable placeholders before it
+// is sent to third-party services (voice agent, LLMs)
+import { getConfig } from './config';
+
+/**
+ * - `off`: send text unchanged
+ * - `contact`: emails, phone numbers and profile links
+ * - `full`: contact details plus street addresses, dates of birth and ID numbers
+ */
+export type RedactionMode = 'off' | 'contact' | 'full';
+
+export type RedactionCategory =
+  | 'email'
+  | 'phone'
+  | 'profile-link'
+  | 'address'
+  | 'date-of-birth'
+  | 'id-number';
+
+export interface Redaction {
+  placeholder: string;
+  category: RedactionCategory;
+  /** Masked hint of the original value, e.g. `m***@***.de` */
+  preview: string;
+  occurrences: number;
+}
+
+export interface RedactionReport {
+  mode: RedactionMode;
+  counts: Partial<Record<RedactionCategory, number>>;
+  redactions: Redaction[];
+}
+
+interface RedactionRule {
+  category: RedactionCategory;
+  /** Lowest mode that applies the rule */
+  mode: Exclude<RedactionMode, 'off'>;
+  pattern: RegExp;
+  /** The first capture group is a label that is kept; only the value after it is replaced */
+  labelled?: boolean;
+  /** Extra check on the matched value */
+  accept?: (value: string) => boolean;
+}
+
+const PLACEHOLDER_NAMES: Record<RedactionCategory, string> = {
+  email: 'EMAIL',
+  phone: 'PHONE',
+  'profile-link': 'PROFILE_LINK',
+  address: 'ADDRESS',
+  'date-of-birth': 'DATE_OF_BIRTH',
+  'id-number': 'ID_NUMBER',
+};
+
+const MONTH = '(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec|Jän|Mär|Mai|Okt|Dez)[a-zä]*\\.?';
+const DATE =
+  `(?:\\d{1,2}[./-]\\s?\\d{1,2}[./-]\\s?\\d{2,4}|\\d{4}-\\d{2}-\\d{2}|\\d{1,2}\\.?\\s+${MONTH}\\s+\\d{4}|${MONTH}\\s+\\d{1,2},?\\s+\\d{4})`;
+const STREET_SUFFIX =
+  '(?:straße|strasse|str\\.|weg|allee|platz|gasse|ring|damm|ufer|chaussee|steig|pfad|markt|hof)';
+const CITY = '[A-ZÄÖÜ][\\wäöüß-]+(?:[^\\S\\n](?:am|an der|im|[A-ZÄÖÜ])[\\wäöüß.-]*)*';
+// 1-4 digits, but not a year, with an optional letter or range: 12, 12a, 12-14
+const HOUSE_NUMBER = '(?!(?:1[89]|20)\\d{2}\\b)\\d{1,4}(?:[^\\S\\n]?[a-z])?\\b(?:[^\\S\\n]*[-/][^\\S\\n]*\\d{1,4}[a-z]?\\b)?';
+// Compact dates and month ranges that the national phone number pattern
+// would otherwise take: 01021990, 0102-1990, 012019 – 032021
+const DAY_MONTH_YEAR = '(?:0[1-9]|[12]\\d|3[01])[ ./-]?(?:0[1-9]|1[0-2])[ ./-]?(?:19|20)\\d{2}';
+const MONTH_YEAR = '(?:0[1-9]|1[0-2])[ ./-]?(?:19|20)\\d{2}';
+const DATE_LIKE = new RegExp(`^(?:${DAY_MONTH_YEAR}|${MONTH_YEAR}(?:\\s*[-–]\\s*${MONTH_YEAR})?)$`);
+
+// Order matters: earlier rules win where patterns overlap, so ID numbers
+// are matched before the phone number patterns can claim their digits
+const RULES: RedactionRule[] = [
+  {
+    category: 'email',
+    mode: 'contact',
+    pattern: /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g,
+  },
+  {
+    category: 'profile-link',
+    mode: 'contact',
+    pattern: /(?:https?:\/\/)?(?:www\.)?(?:linkedin\.com\/in|xing\.com\/profile|github\.com|gitlab\.com|twitter\.com|x\.com)\/[\w%.-]+\/?/gi,
+  },
+  {
+    category: 'date-of-birth',
+    mode: 'full',
+    pattern: new RegExp(
+      `((?:Geburtsdatum|Geb\\.-Datum|geboren(?:\\s+am)?|geb\\.(?:\\s+am)?|Date of birth|Birth date|Birthday|DOB|Born(?:\\s+on)?)\\s*[:.]?\\s*)(${DATE})`,
+      'gi'
+    ),
+    labelled: true,
+  },
+  {
+    category: 'id-number',
+    mode: 'full',
+    pattern: /((?:Steuer-?ID|Steuer-?Identifikationsnummer|Tax ID|SSN|Social Security(?:\s+(?:No\.?|Number))?|Sozialversicherungs(?:nummer|-?Nr\.?)|SV-Nummer|Rentenversicherungsnummer|Passport(?:\s+(?:No\.?|Number))?|Reisepass(?:nummer|-?Nr\.?)?|Personalausweis(?:nummer|-?Nr\.?)?|ID(?:\s+card)?\s+(?:No\.?|Number))\s*[:#.]?\s*)([A-Z0-9][A-Z0-9 /-]{4,22}[A-Z0-9])/gi,
+    labelled: true,
+    accept: value => countDigits(value) >= 4,
+  },
+  {
+    category: 'id-number',
+    mode: 'full',
+    // IBAN
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){3,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+  },
+  {
+    category: 'id-number',
+    mode: 'full',
+    // US social security number
+    pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+  },
+  {
+    category: 'phone',
+    mode: 'contact',
+    pattern: /((?:Tel(?:efon)?|Phone|Mobil(?:e)?|Handy|Cell|Fon|Fax)\.?\s*[:.]?\s*)(\+?[\d(][\d \t()./-]{5,20}\d)/gi,
+    labelled: true,
+    accept: value => countDigits(value) >= 6,
+  },
+  {
+    category: 'phone',
+    mode: 'contact',
+    // International (+49 / 0049) and German national numbers
+    pattern: /(?<![\w+])(?:(?:\+|00)[1-9]\d{0,2}[ \t./-]*(?:\(0\)[ \t./-]*)?|0)\d{2,5}(?:[ \t/-]*\d{2,}){1,4}(?![\w.]\d)/g,
+    accept: value => countDigits(value) >= 7 && countDigits(value) <= 15 && !DATE_LIKE.test(value),
+  },
+  {
+    category: 'phone',
+    mode: 'contact',
+    // North American numbers: (555) 123-4567
+    pattern: /(?<![\w(])(?:\+?1[ .-]?)?\(?\d{3}\)?[ .-]\d{3}[ .-]\d{4}(?!\w)/g,
+  },
+  {
+    category: 'address',
+    mode: 'full',
+    // German street address: a street name, a house number and then the
+    // postcode and city or the end of the address. Words that merely end
+    // like a street (Engineering, Arbeitsplatz) are followed by a year or
+    // by more text, not by a house number in this position.
+    pattern: new RegExp(
+      `(?:[A-ZÄÖÜ][\\wäöüß.-]*${STREET_SUFFIX}|(?:Am|An der|Im|Auf der|Zum|Zur)[^\\S\\n][A-ZÄÖÜ][\\wäöüß.-]+)(?![\\wäöüß])` +
+        `[^\\S\\n]+${HOUSE_NUMBER}(?:,?[^\\S\\n]*(?:D-)?\\d{5}[^\\S\\n]+${CITY}|(?=[^\\S\\n]*(?:[,;|·•)]|$)))`,
+      'gm'
+    ),
+  },
+  {
+    category: 'address',
+    mode: 'full',
+    // English street address with optional city, state and ZIP code
+    pattern: /\b\d{1,5}\s+(?:[A-Z][\w.'-]*\s+){1,4}(?:Street|St\.|Avenue|Ave\.|Road|Rd\.|Lane|Ln\.|Drive|Dr\.|Boulevard|Blvd\.|Way|Court|Ct\.|Place|Pl\.|Terrace|Close)(?:,?\s*(?:Apt\.?|Suite|Unit)\s*\w+)?(?:,\s*[A-Z][\w\s.'-]*?,?\s*[A-Z]{2}\s+\d{5}(?:-\d{4})?)?/g,
+  },
+  {
+    category: 'address',
+    mode: 'full',
+    // Postcode and city on a line of their own, as in German resume headers
+    pattern: new RegExp(`^[^\\S\\n]*(?:D-)?\\d{5}[^\\S\\n]+${CITY}[^\\S\\n]*$`, 'gm'),
+  },
+];
+
+/**
+ * Redaction mode for this deployment (`PII_REDACTION_MODE`, default `full`)
+ */
+export function getRedactionMode(): RedactionMode {
+  return getConfig().parsing.redactionMode;
+}
+
+/**
+ * Replace personal data with placeholders such as `[EMAIL_1]`. The same
+ * value always gets the same placeholder within one text.
+ */
+export function redactPii(text: string, mode: RedactionMode = getRedactionMode()): {
+  text: string;
+  report: RedactionReport;
+} {
+  const rules = RULES.filter(rule => mode === 'full' || rule.mode === mode);
+  const redactions = new Map<string, Redaction>();
+  const categoryCounters: Partial<Record<RedactionCategory, number>> = {};
+
+  const placeholderFor = (category: RedactionCategory, value: string): string => {
+    const key = `${category}:${normalizeValue(category, value)}`;
+    let redaction = redactions.get(key);
+
+    if (!redaction) {
+      const index = (categoryCounters[category] ?? 0) + 1;
+      categoryCounters[category] = index;
+      redaction = {
+        placeholder: `[${PLACEHOLDER_NAMES[category]}_${index}]`,
+        category,
+        preview: maskValue(category, value),
+        occurrences: 0,
+      };
+      redactions.set(key, redaction);
+    }
+
+    redaction.occurrences++;
+    return redaction.placeholder;
+  };
+
+  let redacted = text;
+  for (const rule of rules) {
+    redacted = redacted.replace(rule.pattern, (match: string, label?: unknown) => {
+      if (rule.labelled && typeof label === 'string') {
+        const value = match.slice(label.length).trim();
+        if (rule.accept && !rule.accept(value)) return match;
+        const trailing = match.slice(label.length + match.slice(label.length).trimEnd().length);
+        return `${label}${placeholderFor(rule.category, value)}${trailing}`;
+      }
+
+      const value = match.trim();
+      if (rule.accept && !rule.accept(value)) return match;
+
+      const leading = match.slice(0, match.length - match.trimStart().length);
+      const trailing = match.slice(match.trimEnd().length);
+      return `${leading}${placeholderFor(rule.category, value)}${trailing}`;
+    });
+  }
+
+  const list = [...redactions.values()];
+  const counts: Partial<Record<RedactionCategory, number>> = {};
+  for (const redaction of list) {
+    counts[redaction.category] = (counts[redaction.category] ?? 0) + redaction.occurrences;
+  }
+
+  return { text: redacted, report: { mode, counts, redactions: list } };
+}
+
+function countDigits(value: string): number {
+  return value.replace(/\D/g, '').length;
+}
+
+function normalizeValue(category: RedactionCategory, value: string): string {
+  switch (category) {
+    case 'phone':
+      // +49 30 123 and 030 123 are the same number
+      return value.replace(/\(0\)/g, '').replace(/\D/g, '').replace(/^(?:00|0)/, '').slice(-9);
+    case 'id-number':
+      return value.replace(/[\s/-]/g, '').toUpperCase();
+    default:
+      return value.replace(/\s+/g, ' ').toLowerCase();
+  }
+}
+
+function maskValue(category: RedactionCategory, value: string): string {
+  if (category === 'email') {
+    const [local, domain] = value.split('@');
+    return `${local[0]}***@***${domain.slice(domain.lastIndexOf('.'))}`;
+  }
+
+  if (category === 'phone' || category === 'id-number') {
+    const digits = value.replace(/[^\dA-Z]/gi, '');
+    return `***${digits.slice(-2)}`;
+  }
+
+  return `${value[0]}***`;
+}
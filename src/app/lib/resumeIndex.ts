@@ -0,0 +1,124 @@
+// lib/resumeIndex.ts
+// Extracted resume text and highlights for the recruiter dashboard, so that
+// listing and searching candidates does not re-parse every file
+import { JsonCollection } from './jsonStore';
+import { extractResumeFromBuffer } from './resumeParser';
+import { getResumeStore, ResumeMetadata } from './resumeStore';
+import { structureResume } from './resumeStructure';
+import { findSkills } from './skillTaxonomy';
+import { analyzeTimeline } from './employmentTimeline';
+
+export interface ResumeHighlights {
+  /** Top taxonomy skills, most relevant first */
+  skills: string[];
+  totalYears: number;
+  /** Most recent position from the work history */
+  latestRole?: string;
+}
+
+export interface ResumeIndexEntry {
+  /** Resume file ID */
+  id: string;
+  text: string;
+  highlights: ResumeHighlights;
+  indexedAt: string;
+}
+
+/**
+ * What the parser read from a resume, shown to the candidate after upload
+ */
+export interface ResumePreview {
+  fileId: string;
+  originalName: string;
+  detectedType: ResumeMetadata['detectedType'];
+  pageCount?: number;
+  /** Length of the extracted text; 0 means nothing could be read */
+  characters: number;
+  /** Beginning of the extracted text */
+  excerpt: string;
+  /** Headings of the recognized sections, in document order */
+  sections: string[];
+  positions: number;
+  educationEntries: number;
+  highlights: ResumeHighlights;
+}
+
+const MAX_HIGHLIGHT_SKILLS = 6;
+const PREVIEW_EXCERPT_LENGTH = 600;
+
+const entries = new JsonCollection<ResumeIndexEntry>('resume-index');
+
+/**
+ * Store the text of a parsed resume with its highlights
+ */
+export async function indexResumeText(fileId: string, text: string): Promise<ResumeIndexEntry> {
+  const timeline = analyzeTimeline(structureResume(text));
+  const latest = timeline.positions[timeline.positions.length - 1];
+
+  return entries.put({
+    id: fileId,
+    text,
+    highlights: {
+      skills: findSkills(text).slice(0, MAX_HIGHLIGHT_SKILLS).map(skill => skill.name),
+      totalYears: timeline.totalYears,
+      latestRole: latest?.label,
+    },
+    indexedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * The index entry for a resume, parsing and indexing the file if it has
+ * not been indexed yet. Returns null for missing or quarantined files.
+ */
+export async function ensureResumeIndexed(fileId: string): Promise<ResumeIndexEntry | null> {
+  const existing = await entries.get(fileId);
+  if (existing) {
+    return existing;
+  }
+
+  const resume = await getResumeStore().get(fileId);
+  if (!resume || resume.metadata.scan.quarantined) {
+    return null;
+  }
+
+  const extraction = await extractResumeFromBuffer(resume.buffer, `${fileId}${resume.metadata.extension}`);
+  return indexResumeText(fileId, extraction.text);
+}
+
+/**
+ * A preview of the parsed resume, or null for missing or quarantined files
+ */
+export async function getResumePreview(metadata: ResumeMetadata): Promise<ResumePreview | null> {
+  const entry = await ensureResumeIndexed(metadata.fileId);
+  if (!entry) {
+    return null;
+  }
+
+  const structured = structureResume(entry.text);
+
+  return {
+    fileId: metadata.fileId,
+    originalName: metadata.originalName,
+    detectedType: metadata.detectedType,
+    pageCount: metadata.pageCount,
+    characters: entry.text.length,
+    excerpt: entry.text.slice(0, PREVIEW_EXCERPT_LENGTH).trim(),
+    sections: structured.sections.map(section => section.heading),
+    positions: structured.workHistory.length,
+    educationEntries: structured.education.length,
+    highlights: entry.highlights,
+  };
+}
+
+export async function getResumeIndexEntry(fileId: string): Promise<ResumeIndexEntry | null> {
+  return entries.get(fileId);
+}
+
+export async function listResumeIndexEntries(): Promise<ResumeIndexEntry[]> {
+  return entries.list();
+}
+
+export async function deleteResumeIndexEntry(fileId: string): Promise<boolean> {
+  return entries.delete(fileId);
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeTimeline } from './employmentTimeline';
+import { getTemplate } from './interviewTemplates';
+import { JobDescription } from './jobDescriptions';
+import { OcrResult } from './ocr';
+import { redactPii } from './piiRedaction';
+import { formatResumeForAI } from './resumeParser';
+import { structureResume } from './resumeStructure';
+import { matchJobDescription } from './skillMatcher';
+
+const NOW = new Date('2025-06-15T00:00:00Z');
+
+const RESUME = [
+  'Max Mustermann',
+  'E-Mail: max.mustermann@example.com',
+  'Berufserfahrung',
+  'Backend Developer, Acme GmbH',
+  '03/2019 – heute',
+  '- Built services in Kotlin',
+  'Junior Developer, Beta AG',
+  '01/2015 – 12/2017',
+  '- Maintained Java applications',
+  'Kenntnisse',
+  'Kotlin, Java, Docker',
+].join('\n');
+
+const JOB: JobDescription = {
+  id: 'job-1',
+  title: 'Senior Backend Engineer',
+  company: 'Gamma GmbH',
+  description: '',
+  requiredSkills: ['Kotlin', 'Kubernetes'],
+  niceToHaveSkills: ['Terraform'],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+describe('formatResumeForAI', () => {
+  it('uses the instructions and plan of the given template', () => {
+    const template = getTemplate('technical-backend');
+    const prompt = formatResumeForAI(RESUME, 'Max', { template: template ?? undefined });
+
+    expect(prompt).toContain('CANDIDATE NAME: Max');
+    expect(prompt).toContain(`RESUME CONTENT:\n${RESUME}`);
+    for (const instruction of template?.instructions ?? []) {
+      expect(prompt).toContain(`- ${instruction}\n`);
+    }
+    expect(prompt).toContain(`- Plan for about ${template?.questionCount} main questions in roughly ${template?.durationMinutes} minutes`);
+    expect(prompt).toContain(`Competencies to assess: ${template?.focusAreas.join(', ')}`);
+  });
+
+  it('falls back to the default template and the resume skills', () => {
+    const prompt = formatResumeForAI(RESUME);
+
+    expect(prompt).not.toContain('CANDIDATE NAME');
+    expect(prompt).toContain(getTemplate('general')?.instructions[0]);
+    expect(prompt).toMatch(/Key skills to explore: .*Kotlin/);
+    expect(prompt).not.toContain('TARGET ROLE');
+  });
+
+  it('steers the interview towards the gaps and claims of the job match', () => {
+    const prompt = formatResumeForAI(RESUME, undefined, {
+      job: { description: JOB, match: matchJobDescription(RESUME, JOB) },
+    });
+
+    expect(prompt).toContain('TARGET ROLE: Senior Backend Engineer at Gamma GmbH');
+    expect(prompt).toContain('Key requirements: Kotlin, Kubernetes');
+    expect(prompt).toContain('GAPS TO PROBE (required, not evident in the resume): Kubernetes');
+    expect(prompt).toContain('VERIFY DEPTH (required, claimed in the resume):\n- Kotlin: "- Built services in Kotlin"');
+    expect(prompt).toContain('Nice to have, not evident: Terraform');
+    expect(prompt).not.toContain('Key skills to explore');
+  });
+
+  it('lists the employment timeline with its gaps', () => {
+    const prompt = formatResumeForAI(RESUME, undefined, {
+      timeline: analyzeTimeline(structureResume(RESUME), NOW),
+    });
+
+    expect(prompt).toContain('EMPLOYMENT TIMELINE: about 9.3 years of work experience\n');
+    expect(prompt).toMatch(/Experience by skill: .*Kotlin 6\.3 years/);
+    expect(prompt).toContain('GAPS IN EMPLOYMENT:\n- 14 months between Junior Developer at Beta AG and Backend Developer at Acme GmbH (2018-01 to 2019-02)');
+    expect(prompt).toContain('do not assume a negative reason');
+    expect(prompt).not.toContain('OVERLAPPING POSITIONS');
+  });
+
+  it('notes redacted details without repeating them', () => {
+    const redacted = redactPii(RESUME, 'full');
+    const prompt = formatResumeForAI(redacted.text, undefined, { redaction: redacted.report });
+
+    expect(prompt).toContain('NOTE: Personal details in the resume were replaced with placeholders such as [EMAIL_1].');
+    expect(prompt).not.toContain('max.mustermann@example.com');
+  });
+
+  it('warns about unreliable OCR pages', () => {
+    const ocr: OcrResult = {
+      provider: 'tesseract',
+      pages: [
+        { page: 1, text: '', confidence: 91, lowConfidence: false },
+        { page: 2, text: '', confidence: 48, lowConfidence: true },
+      ],
+      averageConfidence: 70,
+      lowConfidence: true,
+      skippedPages: 0,
+    };
+
+    expect(formatResumeForAI(RESUME, undefined, { ocr })).toContain(
+      'NOTE: This resume was scanned and read with OCR (confidence 70%, unreliable pages: 2). Names, dates and numbers may be misread'
+    );
+    expect(formatResumeForAI(RESUME, undefined, { ocr: { ...ocr, lowConfidence: false } })).not.toContain('OCR');
+  });
+});
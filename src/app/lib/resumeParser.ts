@@ -1,10 +1,18 @@
 // lib/resumeParser.ts
 import fs from 'fs/promises';
 import path from 'path';
-import mammoth from 'mammoth';
+import { structureResume, StructuredResume } from './resumeStructure';
+import { detectFormat, getExtractor, getSupportedFormats, RESUME_FORMATS, ExtractedText, ResumeFormat } from './extractors';
+import { matchesDeclaredFormat, sniffFileType } from './fileSniffer';
+import type { OcrResult } from './ocr';
+import type { RedactionReport } from './piiRedaction';
+import type { JobDescription } from './jobDescriptions';
+import type { SkillMatchResult } from './skillMatcher';
+import type { EmploymentTimeline } from './employmentTimeline';
+import { getDefaultTemplate, InterviewTemplate } from './interviewTemplates';
+import { findSkills, resolveSkill } from './skillTaxonomy';
 
-// Type for pdf-parse function
-type PdfParseFunction = (dataBuffer: Buffer, options?: unknown) => Promise<{ text: string; numpages: number; info: unknown; metadata: unknown; version: string }>;
+export type { StructuredResume } from './resumeStructure';
 
 /**
  * Interface for parsed resume data
@@ -15,32 +23,66 @@ export interface ParsedResume {
   hasContent: boolean;
 }
 
+/**
+ * Cleaned resume text together with how it was obtained
+ */
+export interface ResumeExtraction {
+  text: string;
+  format: ResumeFormat;
+  /** Present when the text came from the OCR fallback */
+  ocr?: OcrResult;
+}
+
+/**
+ * Options for building the interviewer prompt
+ */
+export interface FormatResumeOptions {
+  ocr?: OcrResult;
+  /** Present when `rawText` has been through `redactPii` */
+  redaction?: RedactionReport;
+  /** Interview template; the default template is used when omitted */
+  template?: InterviewTemplate;
+  /** Role the candidate is interviewing for, with its skill match */
+  job?: {
+    description: JobDescription;
+    match: SkillMatchResult;
+  };
+  /** Employment timeline from `analyzeTimeline` */
+  timeline?: EmploymentTimeline;
+}
+
 /**
  * Main function to parse resume from file path
- * Supports PDF and DOCX formats
+ * Supports every format with a registered extractor (see lib/extractors.ts)
  */
 export async function parseResume(filepath: string): Promise<string> {
-  const fileExtension = path.extname(filepath).toLowerCase();
-  
+  const { text } = await extractResume(filepath);
+  return text;
+}
+
+/**
+ * Parse resume and report extraction details such as OCR confidence
+ */
+export async function extractResume(filepath: string): Promise<ResumeExtraction> {
+  return extractResumeFromBuffer(await fs.readFile(filepath), filepath);
+}
+
+/**
+ * Parse resume content held in memory, e.g. loaded from the resume store.
+ * The filename only determines the format.
+ */
+export async function extractResumeFromBuffer(buffer: Buffer, filename: string): Promise<ResumeExtraction> {
   try {
-    let text: string;
-    
-    if (fileExtension === '.pdf') {
-      text = await parsePDF(filepath);
-    } else if (fileExtension === '.docx') {
-      text = await parseDOCX(filepath);
-    } else {
-      throw new Error(`Unsupported file format: ${fileExtension}. Only PDF and DOCX are supported.`);
-    }
+    const { format, extracted } = await extractText(buffer, filename);
 
     // Clean and validate the extracted text
-    const cleanedText = cleanText(text);
+    const cleanedText = cleanText(extracted.text);
     
     if (!cleanedText || cleanedText.trim().length < 50) {
       throw new Error('Resume appears to be empty or too short. Please upload a valid resume.');
     }
 
-    return cleanedText;
+    return { text: cleanedText, format, ocr: extracted.ocr };
   } catch (error) {
     console.error('Resume parsing error:', error);
     
@@ -53,48 +95,43 @@ export async function parseResume(filepath: string): Promise<string> {
 }
 
 /**
- * Parse PDF files using pdf-parse
+ * Parse resume into a typed document with contact details, work history,
+ * education, certifications, languages and skills
  */
-async function parsePDF(filepath: string): Promise<string> {
+export async function parseResumeStructured(filepath: string): Promise<StructuredResume> {
   try {
-    const dataBuffer = await fs.readFile(filepath);
-    const pdfParseModule = await import('pdf-parse');
-    const pdfParse = pdfParseModule as unknown as PdfParseFunction;
-    const data = await pdfParse(dataBuffer);
-    
-    if (!data.text || data.text.trim().length === 0) {
-      throw new Error('PDF contains no extractable text. It may be an image-based PDF.');
+    const { extracted } = await extractText(await fs.readFile(filepath), filepath);
+    const structured = structureResume(extracted.text);
+
+    if (structured.text.length < 50) {
+      throw new Error('Resume appears to be empty or too short. Please upload a valid resume.');
     }
-    
-    return data.text;
+
+    return structured;
   } catch (error) {
-    console.error('PDF parsing error:', error);
-    throw new Error('Failed to parse PDF file. The file may be corrupted or password-protected.');
+    console.error('Structured resume parsing error:', error);
+
+    if (error instanceof Error) {
+      throw error;
+    }
+
+    throw new Error('Failed to parse resume. Please ensure the file is not corrupted.');
   }
 }
 
 /**
- * Parse DOCX files using mammoth
+ * Extract raw text from resume content using the extractor for its format
  */
-async function parseDOCX(filepath: string): Promise<string> {
-  try {
-    const buffer = await fs.readFile(filepath);
-    const result = await mammoth.extractRawText({ buffer });
-    
-    if (!result.value || result.value.trim().length === 0) {
-      throw new Error('DOCX contains no extractable text.');
-    }
-    
-    // Log any conversion warnings
-    if (result.messages && result.messages.length > 0) {
-      console.warn('DOCX conversion warnings:', result.messages);
-    }
-    
-    return result.value;
-  } catch (error) {
-    console.error('DOCX parsing error:', error);
-    throw new Error('Failed to parse DOCX file. The file may be corrupted or in an unsupported format.');
+async function extractText(buffer: Buffer, filename: string): Promise<{ format: ResumeFormat; extracted: ExtractedText }> {
+  const format = detectFormat(filename);
+  const extractor = format ? getExtractor(format) : undefined;
+
+  if (!format || !extractor) {
+    const supported = getSupportedFormats().map(f => RESUME_FORMATS[f].label).join(', ');
+    throw new Error(`Unsupported file format: ${path.extname(filename).toLowerCase()}. Supported formats: ${supported}.`);
   }
+
+  return { format, extracted: await extractor(buffer) };
 }
 
 /**
@@ -102,8 +139,11 @@ async function parseDOCX(filepath: string): Promise<string> {
  */
 function cleanText(text: string): string {
   return text
-    // Remove excessive whitespace
-    .replace(/\s+/g, ' ')
+    // Normalize line endings
+    .replace(/\r\n?/g, '\n')
+    // Collapse spaces and tabs, keeping line breaks
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
     // Remove multiple line breaks (keep max 2)
     .replace(/\n{3,}/g, '\n\n')
     // Trim leading/trailing whitespace
@@ -113,7 +153,11 @@ function cleanText(text: string): string {
 /**
  * Format resume content for AI interviewer with context
  */
-export function formatResumeForAI(rawText: string, candidateName?: string): string {
+export function formatResumeForAI(
+  rawText: string,
+  candidateName?: string,
+  options: FormatResumeOptions = {}
+): string {
   const sections = extractResumeSections(rawText);
   
   let formattedPrompt = `You are conducting a professional job interview. Below is the candidate's resume information.\n\n`;
@@ -122,32 +166,121 @@ export function formatResumeForAI(rawText: string, candidateName?: string): stri
     formattedPrompt += `CANDIDATE NAME: ${candidateName}\n\n`;
   }
   
+  if (options.ocr?.lowConfidence) {
+    const pages = options.ocr.pages.filter(page => page.lowConfidence).map(page => page.page);
+    formattedPrompt += `NOTE: This resume was scanned and read with OCR (confidence ${options.ocr.averageConfidence}%`;
+    formattedPrompt += pages.length > 0 ? `, unreliable pages: ${pages.join(', ')}). ` : '). ';
+    formattedPrompt += `Names, dates and numbers may be misread; confirm them with the candidate instead of relying on them.\n\n`;
+  }
+
+  if (options.redaction && options.redaction.redactions.length > 0) {
+    formattedPrompt += `NOTE: Personal details in the resume were replaced with placeholders such as ${options.redaction.redactions[0].placeholder}. `;
+    formattedPrompt += `Do not ask the candidate to repeat or confirm them.\n\n`;
+  }
+
   formattedPrompt += `RESUME CONTENT:\n${rawText}\n\n`;
   
+  const template = options.template ?? getDefaultTemplate();
+
   formattedPrompt += `---\n\nINTERVIEW INSTRUCTIONS:\n`;
-  formattedPrompt += `- Conduct a professional and thorough job interview\n`;
-  formattedPrompt += `- Ask relevant questions about their experience, skills, and projects mentioned in the resume\n`;
-  formattedPrompt += `- Probe deeper into specific accomplishments and responsibilities\n`;
-  formattedPrompt += `- Ask behavioral questions related to their background\n`;
-  formattedPrompt += `- Assess their problem-solving abilities and technical knowledge\n`;
-  formattedPrompt += `- Maintain a friendly but professional tone\n`;
-  formattedPrompt += `- Listen carefully to their answers and ask follow-up questions\n`;
-  formattedPrompt += `- Be encouraging and help the candidate feel comfortable\n\n`;
+  template.instructions.forEach(instruction => {
+    formattedPrompt += `- ${instruction}\n`;
+  });
+  formattedPrompt += `- Plan for about ${template.questionCount} main questions in roughly ${template.durationMinutes} minutes\n\n`;
+
+  if (template.focusAreas.length > 0) {
+    formattedPrompt += `Competencies to assess: ${template.focusAreas.join(', ')}\n`;
+  }
   
-  if (sections.skills.length > 0) {
+  if (options.job) {
+    formattedPrompt += formatJobFocus(options.job.description, options.job.match);
+  } else if (sections.skills.length > 0) {
     formattedPrompt += `Key skills to explore: ${sections.skills.slice(0, 5).join(', ')}\n`;
   }
   
   if (sections.experience.length > 0) {
     formattedPrompt += `Focus areas: ${sections.experience.slice(0, 3).join(', ')}\n`;
   }
+
+  if (options.timeline && options.timeline.positions.length > 0) {
+    formattedPrompt += formatTimeline(options.timeline);
+  }
   
   return formattedPrompt.trim();
 }
 
+/**
+ * Interview focus for a specific role: probe gaps in the required skills
+ * first, then verify the depth of the ones the resume claims
+ */
+function formatJobFocus(job: JobDescription, match: SkillMatchResult): string {
+  const requiredGaps = match.missing.filter(skill => skill.priority === 'required').map(skill => skill.skill);
+  const optionalGaps = match.missing.filter(skill => skill.priority === 'nice-to-have').map(skill => skill.skill);
+  const requiredMatches = match.matched.filter(skill => skill.priority === 'required');
+
+  let focus = `TARGET ROLE: ${job.title}${job.company ? ` at ${job.company}` : ''}\n`;
+  focus += `Key requirements: ${job.requiredSkills.join(', ')}\n`;
+
+  if (requiredGaps.length > 0) {
+    focus += `GAPS TO PROBE (required, not evident in the resume): ${requiredGaps.join(', ')}\n`;
+    focus += `- For each gap, ask whether the candidate has experience the resume does not mention, or how they would close it\n`;
+  }
+
+  if (requiredMatches.length > 0) {
+    focus += `VERIFY DEPTH (required, claimed in the resume):\n`;
+    requiredMatches.forEach(skill => {
+      focus += `- ${skill.skill}: "${skill.evidence[0]}"\n`;
+    });
+    focus += `- Ask for concrete examples, scope and results rather than accepting the claim\n`;
+  }
+
+  if (optionalGaps.length > 0) {
+    focus += `Nice to have, not evident: ${optionalGaps.join(', ')}\n`;
+  }
+
+  return focus;
+}
+
+/**
+ * Experience figures from the work history, with the gaps and overlapping
+ * positions the interviewer should ask about
+ */
+function formatTimeline(timeline: EmploymentTimeline): string {
+  let section = `EMPLOYMENT TIMELINE: about ${timeline.totalYears} years of work experience`;
+  section += timeline.undatedPositions > 0 ? ` (${timeline.undatedPositions} positions without readable dates not counted)\n` : '\n';
+
+  const skills = timeline.skillExperience.slice(0, 5);
+  if (skills.length > 0) {
+    section += `Experience by skill: ${skills.map(skill => `${skill.name} ${skill.years} years`).join(', ')}\n`;
+  }
+
+  if (timeline.gaps.length > 0) {
+    section += `GAPS IN EMPLOYMENT:\n`;
+    timeline.gaps.forEach(gap => {
+      section += gap.before
+        ? `- ${gap.months} months between ${gap.after} and ${gap.before} (${gap.from} to ${gap.to})\n`
+        : `- ${gap.months} months since ${gap.after} ended (${gap.from} to today)\n`;
+    });
+  }
+
+  if (timeline.overlaps.length > 0) {
+    section += `OVERLAPPING POSITIONS:\n`;
+    timeline.overlaps.forEach(overlap => {
+      section += `- ${overlap.first} and ${overlap.second} for ${overlap.months} months (${overlap.from} to ${overlap.to})\n`;
+    });
+  }
+
+  if (timeline.gaps.length > 0 || timeline.overlaps.length > 0) {
+    section += `- Ask neutrally what the candidate did during gaps and how overlapping positions fit together; do not assume a negative reason\n`;
+  }
+
+  return section;
+}
+
 /**
  * Extract key sections from resume text
- * This is a simple heuristic-based extraction
+ * Uses the detected section headings where the resume has them and falls
+ * back to keyword heuristics otherwise
  */
 function extractResumeSections(text: string): {
   skills: string[];
@@ -160,17 +293,25 @@ function extractResumeSections(text: string): {
     education: [] as string[]
   };
 
-  // Common skill keywords to look for
-  const skillKeywords = [
-    'JavaScript', 'TypeScript', 'Python', 'Java', 'C++', 'React', 'Node.js',
-    'AWS', 'Docker', 'Kubernetes', 'SQL', 'MongoDB', 'Git', 'Agile',
-    'Machine Learning', 'Data Analysis', 'Project Management', 'Leadership'
-  ];
+  const structured = structureResume(text);
 
-  // Extract skills mentioned in the resume
-  skillKeywords.forEach(skill => {
-    if (text.toLowerCase().includes(skill.toLowerCase())) {
-      sections.skills.push(skill);
+  // Taxonomy skills, most frequent and most recently used first
+  findSkills(text).forEach(skill => {
+    sections.skills.push(skill.name);
+  });
+
+  // Skills listed under a skills heading that the taxonomy does not know
+  structured.skills.forEach(skill => {
+    if (!resolveSkill(skill.name)) {
+      sections.skills.push(skill.name);
+    }
+  });
+
+  // Roles from the work history section
+  structured.workHistory.forEach(entry => {
+    const role = [entry.title, entry.employer].filter(Boolean).join(' at ');
+    if (role) {
+      sections.experience.push(role);
     }
   });
 
@@ -192,6 +333,14 @@ function extractResumeSections(text: string): {
     }
   });
 
+  // Degrees from the education section
+  structured.education.forEach(entry => {
+    const education = [entry.degree, entry.institution].filter(Boolean).join(', ');
+    if (education) {
+      sections.education.push(education);
+    }
+  });
+
   // Look for education keywords
   const educationKeywords = [
     'Bachelor', 'Master', 'PhD', 'Degree', 'University', 'College',
@@ -224,10 +373,17 @@ export async function validateResumeFile(filepath: string): Promise<{
       return { valid: false, error: 'File size exceeds 10MB limit' };
     }
     
-    // Check file extension
-    const ext = path.extname(filepath).toLowerCase();
-    if (ext !== '.pdf' && ext !== '.docx') {
-      return { valid: false, error: 'Only PDF and DOCX files are supported' };
+    // Check file format
+    const format = detectFormat(filepath);
+    if (!format || !getExtractor(format)) {
+      const supported = getSupportedFormats().map(f => RESUME_FORMATS[f].label).join(', ');
+      return { valid: false, error: `Only ${supported} files are supported` };
+    }
+
+    // Check that the content matches the extension
+    const buffer = await fs.readFile(filepath);
+    if (!matchesDeclaredFormat(sniffFileType(buffer), format)) {
+      return { valid: false, error: 'File content does not match its extension' };
     }
     
     return { valid: true };
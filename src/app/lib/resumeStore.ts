@@ -0,0 +1,268 @@
+// lib/resumeStore.ts
+// Storage for uploaded resumes and their metadata, addressed by file ID
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { getConfig } from './config';
+import type { ScanVerdict } from './documentScanner';
+import type { ResumeFormat } from './extractors';
+import type { RedactionReport } from './piiRedaction';
+import { S3Client, S3Config } from './s3Client';
+
+/**
+ * Index record kept for every stored resume
+ */
+export interface ResumeMetadata {
+  fileId: string;
+  /** Sanitized name the file was uploaded under */
+  originalName: string;
+  /** Lower-case extension including the dot, e.g. `.pdf` */
+  extension: string;
+  size: number;
+  /** Hex SHA-256 of the file content */
+  sha256: string;
+  uploadedAt: string;
+  detectedType: ResumeFormat;
+  pageCount?: number;
+  scan: ScanVerdict;
+  /** Set when the candidate's interview ends; starts the retention clock */
+  interviewCompletedAt?: string;
+  /** What was redacted from the text last sent to the interviewer */
+  redaction?: RedactionReport;
+}
+
+export interface StoredResume {
+  buffer: Buffer;
+  metadata: ResumeMetadata;
+}
+
+/**
+ * Pluggable resume storage. Quarantined files (see `scan.quarantined`)
+ * are kept apart from regular uploads.
+ */
+export interface ResumeStore {
+  name: string;
+  save(buffer: Buffer, metadata: ResumeMetadata): Promise<void>;
+  /** Replace the metadata record of an existing resume */
+  updateMetadata(metadata: ResumeMetadata): Promise<void>;
+  getMetadata(fileId: string): Promise<ResumeMetadata | null>;
+  get(fileId: string): Promise<StoredResume | null>;
+  delete(fileId: string): Promise<boolean>;
+  list(): Promise<ResumeMetadata[]>;
+  /** Write and remove a probe file, for health checks */
+  checkWritable(): Promise<void>;
+}
+
+const FILE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * File IDs are UUIDs; anything else is rejected before touching storage
+ */
+export function isValidFileId(fileId: string): boolean {
+  return FILE_ID_PATTERN.test(fileId);
+}
+
+export function hashContent(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Stores resumes on the local disk:
+ * `files/<id><ext>`, `quarantine/<id><ext>` and `metadata/<id>.json`
+ */
+export class LocalResumeStore implements ResumeStore {
+  name = 'local';
+
+  constructor(private rootDir: string) {}
+
+  async save(buffer: Buffer, metadata: ResumeMetadata): Promise<void> {
+    assertFileId(metadata.fileId);
+    const filepath = this.blobPath(metadata);
+
+    await fs.mkdir(path.dirname(filepath), { recursive: true });
+    await fs.mkdir(path.join(this.rootDir, 'metadata'), { recursive: true });
+    await fs.writeFile(filepath, buffer);
+    await fs.writeFile(this.metadataPath(metadata.fileId), JSON.stringify(metadata, null, 2));
+  }
+
+  async updateMetadata(metadata: ResumeMetadata): Promise<void> {
+    assertFileId(metadata.fileId);
+    await fs.writeFile(this.metadataPath(metadata.fileId), JSON.stringify(metadata, null, 2));
+  }
+
+  async getMetadata(fileId: string): Promise<ResumeMetadata | null> {
+    if (!isValidFileId(fileId)) return null;
+
+    try {
+      return JSON.parse(await fs.readFile(this.metadataPath(fileId), 'utf8')) as ResumeMetadata;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async get(fileId: string): Promise<StoredResume | null> {
+    const metadata = await this.getMetadata(fileId);
+    if (!metadata) return null;
+
+    try {
+      return { buffer: await fs.readFile(this.blobPath(metadata)), metadata };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(fileId: string): Promise<boolean> {
+    const metadata = await this.getMetadata(fileId);
+    if (!metadata) return false;
+
+    await fs.rm(this.blobPath(metadata), { force: true });
+    await fs.rm(this.metadataPath(fileId), { force: true });
+    return true;
+  }
+
+  async list(): Promise<ResumeMetadata[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(path.join(this.rootDir, 'metadata'));
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+
+    const records = await Promise.all(
+      entries
+        .filter(entry => entry.endsWith('.json'))
+        .map(entry => this.getMetadata(entry.slice(0, -'.json'.length)))
+    );
+    return records.filter((record): record is ResumeMetadata => record !== null);
+  }
+
+  async checkWritable(): Promise<void> {
+    const probe = path.join(this.rootDir, `.health-${crypto.randomUUID()}`);
+    await fs.mkdir(this.rootDir, { recursive: true });
+    await fs.writeFile(probe, '');
+    await fs.rm(probe);
+  }
+
+  private blobPath(metadata: ResumeMetadata): string {
+    const folder = metadata.scan.quarantined ? 'quarantine' : 'files';
+    return path.join(this.rootDir, folder, `${metadata.fileId}${metadata.extension}`);
+  }
+
+  private metadataPath(fileId: string): string {
+    return path.join(this.rootDir, 'metadata', `${fileId}.json`);
+  }
+}
+
+/**
+ * Stores resumes in an S3-compatible bucket using the same layout as
+ * `LocalResumeStore`, below an optional key prefix
+ */
+export class S3ResumeStore implements ResumeStore {
+  name = 's3';
+  private client: S3Client;
+
+  constructor(config: S3Config, private prefix = '') {
+    this.client = new S3Client(config);
+  }
+
+  async save(buffer: Buffer, metadata: ResumeMetadata): Promise<void> {
+    assertFileId(metadata.fileId);
+    await this.client.putObject(this.blobKey(metadata), buffer);
+    await this.updateMetadata(metadata);
+  }
+
+  async updateMetadata(metadata: ResumeMetadata): Promise<void> {
+    assertFileId(metadata.fileId);
+    await this.client.putObject(
+      this.metadataKey(metadata.fileId),
+      Buffer.from(JSON.stringify(metadata, null, 2)),
+      'application/json'
+    );
+  }
+
+  async getMetadata(fileId: string): Promise<ResumeMetadata | null> {
+    if (!isValidFileId(fileId)) return null;
+
+    const body = await this.client.getObject(this.metadataKey(fileId));
+    return body ? (JSON.parse(body.toString('utf8')) as ResumeMetadata) : null;
+  }
+
+  async get(fileId: string): Promise<StoredResume | null> {
+    const metadata = await this.getMetadata(fileId);
+    if (!metadata) return null;
+
+    const buffer = await this.client.getObject(this.blobKey(metadata));
+    return buffer ? { buffer, metadata } : null;
+  }
+
+  async delete(fileId: string): Promise<boolean> {
+    const metadata = await this.getMetadata(fileId);
+    if (!metadata) return false;
+
+    await this.client.deleteObject(this.blobKey(metadata));
+    await this.client.deleteObject(this.metadataKey(fileId));
+    return true;
+  }
+
+  async list(): Promise<ResumeMetadata[]> {
+    const keys = await this.client.listKeys(`${this.prefix}metadata/`);
+    const records = await Promise.all(
+      keys
+        .filter(key => key.endsWith('.json'))
+        .map(key => this.getMetadata(key.slice(key.lastIndexOf('/') + 1, -'.json'.length)))
+    );
+    return records.filter((record): record is ResumeMetadata => record !== null);
+  }
+
+  async checkWritable(): Promise<void> {
+    const probe = `${this.prefix}health/${crypto.randomUUID()}`;
+    await this.client.putObject(probe, Buffer.alloc(0));
+    await this.client.deleteObject(probe);
+  }
+
+  private blobKey(metadata: ResumeMetadata): string {
+    const folder = metadata.scan.quarantined ? 'quarantine' : 'files';
+    return `${this.prefix}${folder}/${metadata.fileId}${metadata.extension}`;
+  }
+
+  private metadataKey(fileId: string): string {
+    return `${this.prefix}metadata/${fileId}.json`;
+  }
+}
+
+let resumeStore: ResumeStore | null = null;
+
+/**
+ * Replace the storage backend, e.g. in scripts or for another provider
+ */
+export function setResumeStore(store: ResumeStore): void {
+  resumeStore = store;
+}
+
+/**
+ * Storage backend selected by `RESUME_STORAGE` (`local` or `s3`)
+ */
+export function getResumeStore(): ResumeStore {
+  resumeStore ??= createResumeStore();
+  return resumeStore;
+}
+
+function createResumeStore(): ResumeStore {
+  const { storage } = getConfig();
+  return storage.backend === 's3'
+    ? new S3ResumeStore(storage.s3, storage.prefix)
+    : new LocalResumeStore(storage.dir);
+}
+
+function assertFileId(fileId: string): void {
+  if (!isValidFileId(fileId)) {
+    throw new Error(`Invalid file ID: ${fileId}`);
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
@@ -0,0 +1,525 @@
+// lib/resumeStructure.ts
+
+/**
+ * Character offsets into `StructuredResume.text` (end is exclusive)
+ */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export type ResumeSectionKind =
+  | 'summary'
+  | 'experience'
+  | 'education'
+  | 'skills'
+  | 'certifications'
+  | 'languages'
+  | 'projects'
+  | 'other';
+
+export interface ResumeSection {
+  kind: ResumeSectionKind;
+  heading: string;
+  span: TextSpan;
+}
+
+export interface ContactBlock {
+  name?: string;
+  emails: string[];
+  phones: string[];
+  linkedin?: string;
+  website?: string;
+  span?: TextSpan;
+}
+
+export interface WorkHistoryEntry {
+  employer?: string;
+  title?: string;
+  startDate?: string;
+  endDate?: string;
+  isCurrent: boolean;
+  bullets: string[];
+  span: TextSpan;
+}
+
+export interface EducationEntry {
+  institution?: string;
+  degree?: string;
+  startDate?: string;
+  endDate?: string;
+  details: string[];
+  span: TextSpan;
+}
+
+export interface CertificationEntry {
+  name: string;
+  issuer?: string;
+  date?: string;
+  span: TextSpan;
+}
+
+export interface LanguageEntry {
+  language: string;
+  proficiency?: string;
+  span: TextSpan;
+}
+
+export interface SkillEntry {
+  name: string;
+  span: TextSpan;
+}
+
+/**
+ * Typed resume document. All spans point into `text`.
+ */
+export interface StructuredResume {
+  text: string;
+  contact: ContactBlock;
+  workHistory: WorkHistoryEntry[];
+  education: EducationEntry[];
+  certifications: CertificationEntry[];
+  languages: LanguageEntry[];
+  skills: SkillEntry[];
+  sections: ResumeSection[];
+}
+
+interface Line {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Section headings in English and German, compared after lower-casing and
+// stripping punctuation
+const SECTION_HEADINGS: Record<Exclude<ResumeSectionKind, 'other'>, string[]> = {
+  summary: [
+    'summary', 'profile', 'professional summary', 'about me', 'objective', 'career objective',
+    'profil', 'kurzprofil', 'über mich', 'zusammenfassung',
+  ],
+  experience: [
+    'experience', 'work experience', 'professional experience', 'employment', 'employment history',
+    'work history', 'career history', 'berufserfahrung', 'beruflicher werdegang', 'werdegang',
+    'praxiserfahrung', 'berufliche erfahrung',
+  ],
+  education: [
+    'education', 'academic background', 'education and training', 'ausbildung', 'bildung',
+    'bildungsweg', 'studium', 'schulbildung', 'akademischer werdegang',
+  ],
+  skills: [
+    'skills', 'technical skills', 'core skills', 'key skills', 'competencies', 'core competencies',
+    'technologies', 'tech stack', 'kenntnisse', 'fähigkeiten', 'kompetenzen', 'fachkenntnisse',
+    'it-kenntnisse', 'edv-kenntnisse', 'technische kenntnisse',
+  ],
+  certifications: [
+    'certifications', 'certificates', 'licenses', 'licenses and certifications', 'zertifikate',
+    'zertifizierungen', 'weiterbildung', 'weiterbildungen',
+  ],
+  languages: ['languages', 'language skills', 'sprachen', 'sprachkenntnisse', 'fremdsprachen'],
+  projects: ['projects', 'selected projects', 'key projects', 'projekte', 'projekterfahrung'],
+};
+
+const MONTH_NAMES = [
+  'jan', 'january', 'januar', 'jän', 'jänner', 'feb', 'february', 'februar', 'mar', 'march', 'mär',
+  'märz', 'maerz', 'apr', 'april', 'may', 'mai', 'jun', 'june', 'juni', 'jul', 'july', 'juli',
+  'aug', 'august', 'sep', 'sept', 'september', 'oct', 'october', 'okt', 'oktober', 'nov',
+  'november', 'dec', 'december', 'dez', 'dezember',
+];
+
+const DATE_TOKEN = `(?:(?:${MONTH_NAMES.join('|')})\\.?\\s+\\d{4}|\\d{1,2}[./]\\d{4}|\\d{4})`;
+const OPEN_END_TOKEN = '(?:present|current|now|today|heute|bis heute|aktuell|dato|jetzt)';
+const DATE_RANGE_PATTERN = new RegExp(
+  `(${DATE_TOKEN})\\s*(?:-|–|—|to|bis)\\s*(${DATE_TOKEN}|${OPEN_END_TOKEN})`,
+  'i'
+);
+const SINGLE_DATE_PATTERN = new RegExp(`\\b(${DATE_TOKEN})\\b`, 'i');
+const OPEN_END_PATTERN = new RegExp(`^${OPEN_END_TOKEN}$`, 'i');
+
+const BULLET_PATTERN = /^[•▪◦●■□➢►‣·*\-–—]\s*/;
+
+const DEGREE_PATTERN = /\b(?:bachelor|master|b\.?sc|m\.?sc|b\.?a\.?|m\.?a\.?|mba|ph\.?d|doctor|diplom|dipl\.|magister|abitur|staatsexamen|promotion|associate|degree|ausbildung zum|ausbildung zur)\b/i;
+const INSTITUTION_PATTERN = /\b(?:university|universität|universitaet|college|school|hochschule|fachhochschule|institute|institut|akademie|academy|gymnasium|schule|tu|th|fh)\b/i;
+
+const PROFICIENCY_PATTERN = /\b(?:native|mother tongue|fluent|business fluent|proficient|advanced|intermediate|basic|beginner|conversational|muttersprache|fließend|verhandlungssicher|sehr gut|gut|grundkenntnisse|[abc][12])\b/i;
+
+/**
+ * Build a structured resume document from extracted resume text.
+ * Line breaks in the input are significant; pass text before it is
+ * flattened for display.
+ */
+export function structureResume(rawText: string): StructuredResume {
+  const text = normalizeText(rawText);
+  const lines = splitLines(text);
+  const sections = detectSections(lines, text.length);
+
+  const resume: StructuredResume = {
+    text,
+    contact: extractContact(text, lines, sections),
+    workHistory: [],
+    education: [],
+    certifications: [],
+    languages: [],
+    skills: [],
+    sections,
+  };
+
+  for (const section of sections) {
+    const body = lines.filter(
+      line => line.start > section.span.start && line.end <= section.span.end
+    );
+
+    switch (section.kind) {
+      case 'experience':
+        resume.workHistory.push(...parseWorkHistory(body));
+        break;
+      case 'education':
+        resume.education.push(...parseEducation(body));
+        break;
+      case 'certifications':
+        resume.certifications.push(...parseCertifications(body));
+        break;
+      case 'languages':
+        resume.languages.push(...parseLanguages(body));
+        break;
+      case 'skills':
+        resume.skills.push(...parseSkills(body));
+        break;
+    }
+  }
+
+  return resume;
+}
+
+/**
+ * Map a heading line to its section kind, or null when it is not a heading
+ */
+export function classifyHeading(line: string): ResumeSectionKind | null {
+  // Designed resumes often letter-space headings ("E X P E R I E N C E")
+  const collapsed = /^(?:\p{L} ){3,}\p{L}$/u.test(line.trim()) ? line.replace(/ /g, '') : line;
+
+  const normalized = collapsed
+    .toLowerCase()
+    .replace(/[:|•·_=#*]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/\s*&\s*/g, ' and ')
+    .trim();
+
+  if (!normalized || normalized.length > 40) {
+    return null;
+  }
+
+  for (const [kind, headings] of Object.entries(SECTION_HEADINGS)) {
+    if (headings.includes(normalized)) {
+      return kind as ResumeSectionKind;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Normalize line endings and in-line whitespace while keeping line breaks
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\u00a0/g, ' ')
+    .split('\n')
+    .map(line => line.replace(/[ \t\f\v]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let offset = 0;
+
+  for (const lineText of text.split('\n')) {
+    lines.push({ text: lineText, start: offset, end: offset + lineText.length });
+    offset += lineText.length + 1;
+  }
+
+  return lines;
+}
+
+function detectSections(lines: Line[], textLength: number): ResumeSection[] {
+  const sections: ResumeSection[] = [];
+
+  for (const line of lines) {
+    const kind = classifyHeading(line.text);
+    if (!kind) continue;
+
+    const previous = sections[sections.length - 1];
+    if (previous) {
+      previous.span.end = Math.max(previous.span.start, line.start - 1);
+    }
+
+    sections.push({
+      kind,
+      heading: line.text,
+      span: { start: line.start, end: textLength },
+    });
+  }
+
+  return sections;
+}
+
+function extractContact(text: string, lines: Line[], sections: ResumeSection[]): ContactBlock {
+  const headerEnd = sections.length > 0 ? sections[0].span.start : Math.min(text.length, 400);
+  const headerLines = lines.filter(line => line.text && line.end <= headerEnd);
+  const header = text.slice(0, headerEnd);
+
+  const emails = unique(header.match(/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g) || []);
+  const phones = unique(
+    (header.match(/(?:\+|00)?\d[\d\s()./-]{6,}\d/g) || [])
+      .map(phone => phone.trim())
+      .filter(phone => phone.replace(/\D/g, '').length >= 7 && !DATE_RANGE_PATTERN.test(phone))
+  );
+  const linkedinMatch = header.match(/(?:https?:\/\/)?(?:www\.)?linkedin\.com\/in\/[\w-]+\/?/i);
+  const websiteMatch = header.match(/\bhttps?:\/\/(?!(?:www\.)?linkedin\.com)[^\s]+/i);
+
+  // The name is usually the first short line without contact details in it
+  const nameLine = headerLines.find(
+    line =>
+      line.text.length <= 60 &&
+      !/[@\d]|https?:|www\./i.test(line.text) &&
+      /^[\p{L}][\p{L}.' -]+$/u.test(line.text) &&
+      line.text.split(' ').length <= 5
+  );
+
+  return {
+    name: nameLine?.text,
+    emails,
+    phones,
+    linkedin: linkedinMatch ? linkedinMatch[0] : undefined,
+    website: websiteMatch ? websiteMatch[0] : undefined,
+    span: headerLines.length > 0
+      ? { start: headerLines[0].start, end: headerLines[headerLines.length - 1].end }
+      : undefined,
+  };
+}
+
+/**
+ * Split a work history section into entries. A new entry starts at a
+ * non-bullet line once the current entry already has bullets, or when a
+ * second date range shows up.
+ */
+function parseWorkHistory(lines: Line[]): WorkHistoryEntry[] {
+  return groupEntries(lines).map(group => {
+    const headerLines = group.filter(line => !BULLET_PATTERN.test(line.text));
+    const bulletLines = group.filter(line => BULLET_PATTERN.test(line.text));
+    const { startDate, endDate, isCurrent, remainder } = extractDates(headerLines);
+
+    let title: string | undefined;
+    let employer: string | undefined;
+
+    if (remainder.length >= 2) {
+      [title, employer] = remainder;
+    } else if (remainder.length === 1) {
+      const parts = remainder[0].split(/\s+(?:at|bei|@)\s+|\s*[|,]\s*|\s+[-–—]\s+/i).filter(Boolean);
+      title = parts[0];
+      employer = parts[1];
+    }
+
+    return {
+      title,
+      employer,
+      startDate,
+      endDate,
+      isCurrent,
+      bullets: bulletLines.map(line => line.text.replace(BULLET_PATTERN, '').trim()),
+      span: spanOf(group),
+    };
+  });
+}
+
+function parseEducation(lines: Line[]): EducationEntry[] {
+  return groupEntries(lines).map(group => {
+    const { startDate, endDate, remainder } = extractDates(group);
+    const cleaned = remainder.map(line => line.replace(BULLET_PATTERN, '').trim());
+
+    const degree = cleaned.find(line => DEGREE_PATTERN.test(line));
+    const institution = cleaned.find(line => line !== degree && INSTITUTION_PATTERN.test(line))
+      ?? cleaned.find(line => line !== degree);
+
+    return {
+      degree,
+      institution,
+      startDate,
+      endDate,
+      details: cleaned.filter(line => line !== degree && line !== institution),
+      span: spanOf(group),
+    };
+  });
+}
+
+function parseCertifications(lines: Line[]): CertificationEntry[] {
+  return lines
+    .filter(line => line.text)
+    .map(line => {
+      const content = line.text.replace(BULLET_PATTERN, '').trim();
+      const dateMatch = content.match(SINGLE_DATE_PATTERN);
+      const withoutDate = dateMatch
+        ? content.replace(dateMatch[0], '').replace(/[(),\s–-]+$/, '').replace(/\(\s*\)/, '').trim()
+        : content;
+      const [name, issuer] = withoutDate.split(/\s+[-–—|]\s+|,\s+/);
+
+      return {
+        name: name.trim(),
+        issuer: issuer?.trim() || undefined,
+        date: dateMatch ? dateMatch[1] : undefined,
+        span: { start: line.start, end: line.end },
+      };
+    })
+    .filter(entry => entry.name.length > 0);
+}
+
+function parseLanguages(lines: Line[]): LanguageEntry[] {
+  const entries: LanguageEntry[] = [];
+
+  for (const item of splitListItems(lines)) {
+    const separated = item.text.match(/^([\p{L}][\p{L} -]*?)\s*[:(–—-]\s*(.+?)\)?$/u);
+    const trailing = item.text.match(/^([\p{L}][\p{L}-]*)\s+(.+)$/u);
+
+    if (separated) {
+      entries.push({ language: separated[1].trim(), proficiency: separated[2].trim(), span: item.span });
+    } else if (trailing && PROFICIENCY_PATTERN.test(trailing[2])) {
+      entries.push({ language: trailing[1], proficiency: trailing[2].trim(), span: item.span });
+    } else if (/^[\p{L}][\p{L} -]*$/u.test(item.text)) {
+      entries.push({ language: item.text, span: item.span });
+    }
+  }
+
+  return entries;
+}
+
+function parseSkills(lines: Line[]): SkillEntry[] {
+  return splitListItems(lines)
+    .filter(item => item.text.length > 0 && item.text.length <= 40)
+    .map(item => ({ name: item.text, span: item.span }));
+}
+
+/**
+ * Split comma, pipe, semicolon and bullet separated lists into items with
+ * spans. A leading "Category:" label is dropped.
+ */
+function splitListItems(lines: Line[]): { text: string; span: TextSpan }[] {
+  const items: { text: string; span: TextSpan }[] = [];
+
+  for (const line of lines) {
+    let content = line.text;
+    let offset = line.start;
+
+    const label = content.match(/^[^:,;|]{1,30}:\s*(?=\S)/);
+    if (label && /[,;|•]/.test(content)) {
+      content = content.slice(label[0].length);
+      offset += label[0].length;
+    }
+
+    const pattern = /[^,;|•·]+/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(content)) !== null) {
+      const raw = match[0];
+      const trimmed = raw.replace(BULLET_PATTERN, '').trim();
+      if (!trimmed) continue;
+
+      const start = offset + match.index + raw.indexOf(trimmed);
+      items.push({ text: trimmed, span: { start, end: start + trimmed.length } });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Group section lines into entries, separated by blank lines or by a new
+ * header line after bullets or dates
+ */
+function groupEntries(lines: Line[]): Line[][] {
+  const groups: Line[][] = [];
+  let current: Line[] = [];
+  let hasBullets = false;
+  let hasDates = false;
+
+  const flush = () => {
+    if (current.some(line => line.text)) {
+      groups.push(current);
+    }
+    current = [];
+    hasBullets = false;
+    hasDates = false;
+  };
+
+  for (const line of lines) {
+    if (!line.text) {
+      flush();
+      continue;
+    }
+
+    const isBullet = BULLET_PATTERN.test(line.text);
+    const lineHasDates = DATE_RANGE_PATTERN.test(line.text);
+
+    if (!isBullet && (hasBullets || (hasDates && lineHasDates))) {
+      flush();
+    }
+
+    current.push(line);
+    hasBullets = hasBullets || isBullet;
+    hasDates = hasDates || lineHasDates;
+  }
+
+  flush();
+  return groups;
+}
+
+function extractDates(lines: Line[]): {
+  startDate?: string;
+  endDate?: string;
+  isCurrent: boolean;
+  remainder: string[];
+} {
+  let startDate: string | undefined;
+  let endDate: string | undefined;
+  const remainder: string[] = [];
+
+  for (const line of lines) {
+    let content = line.text;
+
+    if (!startDate) {
+      const range = content.match(DATE_RANGE_PATTERN);
+      if (range) {
+        startDate = range[1];
+        endDate = range[2];
+        content = content.replace(range[0], '');
+      } else {
+        const single = content.match(SINGLE_DATE_PATTERN);
+        if (single && content.trim() === single[0]) {
+          startDate = single[1];
+          content = '';
+        }
+      }
+    }
+
+    content = content.replace(/^[\s,|()–—-]+|[\s,|()–—-]+$/g, '').trim();
+    if (content) {
+      remainder.push(content);
+    }
+  }
+
+  return {
+    startDate,
+    endDate,
+    isCurrent: endDate ? OPEN_END_PATTERN.test(endDate.trim()) : false,
+    remainder,
+  };
+}
+
+function spanOf(lines: Line[]): TextSpan {
+  const content = lines.filter(line => line.text);
+  return { start: content[0].start, end: content[content.length - 1].end };
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
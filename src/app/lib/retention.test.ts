@@ -0,0 +1,64 @@
+import fs from 'fs/promises';
+import JSZip from 'jszip';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { purgeExpiredData } from './retention';
+import { getResumeStore } from './resumeStore';
+
+const OLD_FILE_ID = '0b6f1a52-3f7e-4c55-9d1e-2f0a4c6b8e01';
+const NEW_FILE_ID = '7c2d9e44-8a1b-4f3c-b6d5-1e9f0a2b3c4d';
+
+let root: string;
+
+async function buildDocx(): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', '<?xml version="1.0"?><Types/>');
+  zip.file('word/document.xml', '<w:document>Jane Doe</w:document>');
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'retention-test-'));
+  process.env.DATA_DIR = path.join(root, 'data');
+  process.env.RESUME_STORAGE_DIR = path.join(root, 'store');
+
+  // The flat layout of earlier versions, below the working directory
+  vi.spyOn(process, 'cwd').mockReturnValue(root);
+  const legacyDir = path.join(root, 'uploads');
+  await fs.mkdir(legacyDir);
+
+  const docx = await buildDocx();
+  const oldFile = path.join(legacyDir, `${OLD_FILE_ID}.docx`);
+  await fs.writeFile(oldFile, docx);
+  const longAgo = new Date(Date.now() - 200 * 24 * 60 * 60 * 1000);
+  await fs.utimes(oldFile, longAgo, longAgo);
+  await fs.writeFile(path.join(legacyDir, `${NEW_FILE_ID}.docx`), docx);
+  await fs.writeFile(path.join(legacyDir, 'notes.txt'), 'not an upload');
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('purgeExpiredData', () => {
+  it('moves legacy uploads into the store and purges the expired ones', async () => {
+    const result = await purgeExpiredData();
+
+    expect(result.migrated).toBe(2);
+    expect(result.purged.map(tombstone => tombstone.fileId)).toEqual([OLD_FILE_ID]);
+
+    const remaining = await getResumeStore().list();
+    expect(remaining.map(metadata => metadata.fileId)).toEqual([NEW_FILE_ID]);
+    expect(remaining[0]).toMatchObject({ detectedType: 'docx', scan: { verdict: 'clean' } });
+
+    // Only the unrelated file is left behind
+    await expect(fs.readdir(path.join(root, 'uploads'))).resolves.toEqual(['notes.txt']);
+  });
+
+  it('finds nothing to migrate on the next run', async () => {
+    const result = await purgeExpiredData();
+    expect(result).toMatchObject({ migrated: 0, checked: 1, purged: [] });
+  });
+});
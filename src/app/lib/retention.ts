@@ -0,0 +1,198 @@
+// lib/retention.ts
+// Retention policy for candidate data and the scheduled purge
+import fs from 'fs/promises';
+import path from 'path';
+import { getConfig } from './config';
+import { deleteCandidateData, Tombstone } from './dataSubject';
+import { scanDocument, ScanVerdict } from './documentScanner';
+import { detectFormat } from './extractors';
+import { getResumeStore, hashContent, isValidFileId, ResumeMetadata } from './resumeStore';
+import { deleteTranscript, listTranscripts } from './transcripts';
+import { deleteInvitation, listInvitations } from './invitations';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PurgeResult {
+  /** Files from the legacy upload folder moved into the resume store */
+  migrated: number;
+  checked: number;
+  purged: Tombstone[];
+  failed: { fileId: string; error: string }[];
+  /** Transcripts that never matched an interview session */
+  unmatchedTranscripts: number;
+  /** Invitations that expired without a resume */
+  expiredInvitations: number;
+}
+
+/**
+ * When a stored resume is due for deletion: quarantined files are kept for
+ * review, other resumes for a while after the interview, or longer when
+ * no interview was finished
+ */
+export function getRetentionDeadline(metadata: ResumeMetadata): Date {
+  const { retention } = getConfig();
+
+  if (metadata.scan.quarantined) {
+    return new Date(Date.parse(metadata.uploadedAt) + retention.daysQuarantine * DAY_MS);
+  }
+
+  if (metadata.interviewCompletedAt) {
+    return new Date(Date.parse(metadata.interviewCompletedAt) + retention.daysAfterInterview * DAY_MS);
+  }
+
+  return new Date(Date.parse(metadata.uploadedAt) + retention.daysWithoutInterview * DAY_MS);
+}
+
+/**
+ * Start the retention clock for a candidate whose interview has ended
+ */
+export async function markInterviewCompleted(fileId: string, completedAt = new Date()): Promise<void> {
+  const store = getResumeStore();
+  const metadata = await store.getMetadata(fileId);
+  if (!metadata || metadata.interviewCompletedAt) {
+    return;
+  }
+
+  await store.updateMetadata({ ...metadata, interviewCompletedAt: completedAt.toISOString() });
+}
+
+/**
+ * Delete every resume past its retention deadline
+ */
+export async function purgeExpiredData(now = new Date()): Promise<PurgeResult> {
+  const { daysWithoutInterview } = getConfig().retention;
+  const migrated = await migrateLegacyUploads();
+  const resumes = await getResumeStore().list();
+  const result: PurgeResult = {
+    migrated,
+    checked: resumes.length,
+    purged: [],
+    failed: [],
+    unmatchedTranscripts: 0,
+    expiredInvitations: 0,
+  };
+
+  for (const metadata of resumes) {
+    if (getRetentionDeadline(metadata) > now) continue;
+
+    try {
+      const tombstone = await deleteCandidateData(metadata.fileId, 'retention');
+      if (tombstone) {
+        result.purged.push(tombstone);
+      }
+    } catch (error) {
+      console.error(`Retention purge failed for ${metadata.fileId}:`, error);
+      result.failed.push({ fileId: metadata.fileId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // Transcripts without a resume are kept as long as an unused resume would be
+  for (const transcript of await listTranscripts()) {
+    const deadline = Date.parse(transcript.receivedAt) + daysWithoutInterview * DAY_MS;
+    if (!transcript.fileId && deadline <= now.getTime() && await deleteTranscript(transcript.id)) {
+      result.unmatchedTranscripts++;
+    }
+  }
+
+  // Invitations with a resume go with it; the others once they are long expired
+  for (const invitation of await listInvitations()) {
+    const deadline = Date.parse(invitation.expiresAt) + daysWithoutInterview * DAY_MS;
+    if (!invitation.fileId && deadline <= now.getTime() && await deleteInvitation(invitation.id)) {
+      result.expiredInvitations++;
+    }
+  }
+
+  if (result.purged.length > 0 || result.failed.length > 0) {
+    console.log(`Retention purge: ${result.purged.length} deleted, ${result.failed.length} failed, ${result.checked} checked`);
+  }
+
+  return result;
+}
+
+/**
+ * Move files from the legacy upload folder into the resume store, so they
+ * get a retention deadline and are covered by export and erasure. Before
+ * the store existed, uploads were saved as `uploads/<fileId><ext>` without
+ * metadata; the file's modification time stands in for the upload date.
+ */
+export async function migrateLegacyUploads(dir = path.join(process.cwd(), 'uploads')): Promise<number> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return 0;
+    throw error;
+  }
+
+  const store = getResumeStore();
+  let migrated = 0;
+
+  for (const entry of entries) {
+    const extension = path.extname(entry.name).toLowerCase();
+    const fileId = entry.name.slice(0, -extension.length);
+    const format = detectFormat(entry.name);
+    if (!entry.isFile() || !format || !isValidFileId(fileId)) continue;
+
+    const filepath = path.join(dir, entry.name);
+    try {
+      // A previous run may have stopped between saving and removing
+      if (!await store.getMetadata(fileId)) {
+        const buffer = await fs.readFile(filepath);
+        const { mtime } = await fs.stat(filepath);
+
+        await store.save(buffer, {
+          fileId,
+          originalName: entry.name,
+          extension,
+          size: buffer.length,
+          sha256: hashContent(buffer),
+          uploadedAt: mtime.toISOString(),
+          detectedType: format,
+          scan: await scanLegacyUpload(buffer, format),
+        });
+        migrated++;
+      }
+      await fs.rm(filepath);
+    } catch (error) {
+      console.error(`Migrating legacy upload ${entry.name} failed:`, error);
+    }
+  }
+
+  if (migrated > 0) {
+    console.log(`Retention: moved ${migrated} legacy upload(s) into the resume store`);
+  }
+  return migrated;
+}
+
+/**
+ * Legacy uploads were never scanned; files that cannot be scanned are
+ * quarantined, as the upload route would have refused them
+ */
+async function scanLegacyUpload(buffer: Buffer, format: ResumeMetadata['detectedType']): Promise<ScanVerdict> {
+  try {
+    return await scanDocument(buffer, format);
+  } catch {
+    return { verdict: 'suspicious', quarantined: true, findings: [], scannedAt: new Date().toISOString() };
+  }
+}
+
+let purgeTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Run the purge periodically inside the server process. Serverless
+ * deployments should call `/api/retention/purge` from a cron job instead.
+ */
+export function startRetentionSchedule(): void {
+  const { purgeIntervalHours } = getConfig().retention;
+  if (purgeTimer || purgeIntervalHours <= 0) {
+    return;
+  }
+
+  const runPurge = () => {
+    purgeExpiredData().catch(error => console.error('Scheduled retention purge failed:', error));
+  };
+
+  purgeTimer = setInterval(runPurge, purgeIntervalHours * 60 * 60 * 1000);
+  purgeTimer.unref();
+  setTimeout(runPurge, 60 * 1000).unref();
+}
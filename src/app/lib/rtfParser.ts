@@ -0,0 +1,196 @@
+// lib/rtfParser.ts
+// Plain text extraction for Rich Text Format documents
+
+// Destinations whose content is not part of the document body
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'objdata', 'header', 'footer',
+  'headerl', 'headerr', 'headerf', 'footerl', 'footerr', 'footerf', 'listtable', 'listoverridetable',
+  'rsidtbl', 'generator', 'xmlnstbl', 'themedata', 'colorschememapping', 'latentstyles',
+  'datastore', 'fldinst', 'filetbl', 'revtbl', 'pgdsctbl',
+]);
+
+interface GroupState {
+  skip: boolean;
+  unicodeSkip: number;
+}
+
+/**
+ * Extract text from an RTF document given as a latin1 string (one char per byte)
+ */
+export function extractRtfText(rtf: string): string {
+  if (!rtf.startsWith('{\\rtf')) {
+    throw new Error('Not an RTF document.');
+  }
+
+  const codepageMatch = rtf.match(/\\ansicpg(\d+)/);
+  const decoder = createCodepageDecoder(codepageMatch ? Number(codepageMatch[1]) : 1252);
+
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  let output = '';
+  let pendingBytes: number[] = [];
+  let skipChars = 0;
+  let i = 0;
+
+  const flushBytes = () => {
+    if (pendingBytes.length > 0) {
+      if (!state.skip) output += decoder(pendingBytes);
+      pendingBytes = [];
+    }
+  };
+
+  const emit = (text: string) => {
+    flushBytes();
+    if (!state.skip) output += text;
+  };
+
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === '{') {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      i++;
+      continue;
+    }
+
+    if (char === '}') {
+      flushBytes();
+      state = stack.pop() ?? { skip: false, unicodeSkip: 1 };
+      i++;
+      continue;
+    }
+
+    if (char === '\\') {
+      const next = rtf[i + 1];
+
+      // Hex-encoded byte in the document codepage
+      if (next === "'") {
+        const byte = parseInt(rtf.slice(i + 2, i + 4), 16);
+        i += 4;
+        if (skipChars > 0) {
+          skipChars--;
+        } else if (!Number.isNaN(byte)) {
+          pendingBytes.push(byte);
+        }
+        continue;
+      }
+
+      // Control symbols
+      if (next === '\\' || next === '{' || next === '}') {
+        emit(next);
+        i += 2;
+        continue;
+      }
+      if (next === '~') {
+        emit(' ');
+        i += 2;
+        continue;
+      }
+      if (next === '_') {
+        emit('-');
+        i += 2;
+        continue;
+      }
+      if (next === '*') {
+        // Ignorable destination
+        state.skip = true;
+        i += 2;
+        continue;
+      }
+      if (next === '\n' || next === '\r') {
+        emit('\n');
+        i += 2;
+        continue;
+      }
+
+      const match = /^([a-zA-Z]{1,32})(-?\d{1,10})? ?/.exec(rtf.slice(i + 1, i + 48));
+      if (!match) {
+        i += 2;
+        continue;
+      }
+
+      i += 1 + match[0].length;
+      const word = match[1];
+      const param = match[2] !== undefined ? Number(match[2]) : undefined;
+
+      if (SKIPPED_DESTINATIONS.has(word)) {
+        state.skip = true;
+        continue;
+      }
+
+      switch (word) {
+        case 'par':
+        case 'line':
+        case 'row':
+        case 'sect':
+        case 'page':
+          emit('\n');
+          break;
+        case 'tab':
+        case 'cell':
+          emit('\t');
+          break;
+        case 'bullet':
+          emit('•');
+          break;
+        case 'emdash':
+          emit('—');
+          break;
+        case 'endash':
+          emit('–');
+          break;
+        case 'lquote':
+        case 'rquote':
+          emit("'");
+          break;
+        case 'ldblquote':
+        case 'rdblquote':
+          emit('"');
+          break;
+        case 'uc':
+          state.unicodeSkip = param ?? 1;
+          break;
+        case 'u':
+          if (param !== undefined) {
+            emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+            skipChars = state.unicodeSkip;
+          }
+          break;
+      }
+      continue;
+    }
+
+    if (char === '\r' || char === '\n') {
+      i++;
+      continue;
+    }
+
+    if (skipChars > 0) {
+      skipChars--;
+      i++;
+      continue;
+    }
+
+    emit(char);
+    i++;
+  }
+
+  flushBytes();
+
+  return output
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function createCodepageDecoder(codepage: number): (bytes: number[]) => string {
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(`windows-${codepage}`);
+  } catch {
+    decoder = new TextDecoder('windows-1252');
+  }
+  return bytes => decoder.decode(Uint8Array.from(bytes));
+}
@@ -0,0 +1,159 @@
+// lib/rubrics.ts
+// Versioned evaluation rubrics. Each version is a JSON file under
+// `rubrics/<id>/v<version>.json`; like interview templates, released
+// versions are never edited so that scorecards stay comparable.
+import generalV1 from './rubrics/general/v1.json';
+import technicalBackendV1 from './rubrics/technical-backend/v1.json';
+import salesV1 from './rubrics/sales/v1.json';
+import graduateV1 from './rubrics/graduate/v1.json';
+import behaviouralV1 from './rubrics/behavioural/v1.json';
+
+export interface RubricCompetency {
+  id: string;
+  name: string;
+  description: string;
+  /** Relative weight in the overall score */
+  weight: number;
+  /** Observable signals that justify a higher score */
+  indicators: string[];
+}
+
+export interface Rubric {
+  id: string;
+  version: number;
+  name: string;
+  description: string;
+  scale: {
+    min: number;
+    max: number;
+    /** What each score means, keyed by score */
+    labels: Record<string, string>;
+  };
+  competencies: RubricCompetency[];
+}
+
+export interface RubricSummary {
+  id: string;
+  name: string;
+  description: string;
+  latestVersion: number;
+  versions: number[];
+  competencies: string[];
+}
+
+export const DEFAULT_RUBRIC_ID = 'general';
+
+// Register new rubric versions here
+const RUBRIC_FILES: unknown[] = [
+  generalV1,
+  technicalBackendV1,
+  salesV1,
+  graduateV1,
+  behaviouralV1,
+];
+
+const rubrics = loadRubrics(RUBRIC_FILES);
+
+/**
+ * Look up a rubric; without a version the latest one is returned
+ */
+export function getRubric(id: string, version?: number): Rubric | null {
+  const versions = rubrics.get(id);
+  if (!versions) {
+    return null;
+  }
+
+  if (version === undefined) {
+    return versions[versions.length - 1];
+  }
+
+  return versions.find(rubric => rubric.version === version) ?? null;
+}
+
+/**
+ * The latest rubric with the same ID as the interview template, or the
+ * default rubric
+ */
+export function getRubricForTemplate(templateId: string): Rubric {
+  const rubric = getRubric(templateId) ?? getRubric(DEFAULT_RUBRIC_ID);
+  if (!rubric) {
+    throw new Error(`Default rubric "${DEFAULT_RUBRIC_ID}" is missing`);
+  }
+  return rubric;
+}
+
+export function listRubrics(): RubricSummary[] {
+  return [...rubrics.values()].map(versions => {
+    const latest = versions[versions.length - 1];
+    return {
+      id: latest.id,
+      name: latest.name,
+      description: latest.description,
+      latestVersion: latest.version,
+      versions: versions.map(rubric => rubric.version),
+      competencies: latest.competencies.map(competency => competency.name),
+    };
+  });
+}
+
+/**
+ * Validate rubric files and group them by ID, versions in ascending order
+ */
+function loadRubrics(files: unknown[]): Map<string, Rubric[]> {
+  const byId = new Map<string, Rubric[]>();
+
+  for (const file of files) {
+    const rubric = validateRubric(file);
+    const versions = byId.get(rubric.id) ?? [];
+
+    if (versions.some(existing => existing.version === rubric.version)) {
+      throw new Error(`Duplicate rubric version: ${rubric.id} v${rubric.version}`);
+    }
+
+    versions.push(rubric);
+    versions.sort((a, b) => a.version - b.version);
+    byId.set(rubric.id, versions);
+  }
+
+  if (!byId.has(DEFAULT_RUBRIC_ID)) {
+    throw new Error(`Default rubric "${DEFAULT_RUBRIC_ID}" is missing`);
+  }
+
+  return byId;
+}
+
+function validateRubric(file: unknown): Rubric {
+  const rubric = file as Partial<Rubric>;
+  const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+  const validCompetency = (competency: Partial<RubricCompetency>) =>
+    typeof competency?.id === 'string' &&
+    typeof competency.name === 'string' &&
+    typeof competency.description === 'string' &&
+    typeof competency.weight === 'number' &&
+    competency.weight > 0 &&
+    isStringList(competency.indicators);
+
+  const validScale = (scale: Partial<Rubric['scale']> | undefined) =>
+    typeof scale?.min === 'number' &&
+    typeof scale.max === 'number' &&
+    Number.isInteger(scale.min) &&
+    Number.isInteger(scale.max) &&
+    scale.min < scale.max;
+
+  if (
+    typeof rubric?.id !== 'string' ||
+    !/^[a-z0-9-]+$/.test(rubric.id) ||
+    !Number.isInteger(rubric.version) ||
+    typeof rubric.name !== 'string' ||
+    typeof rubric.description !== 'string' ||
+    !validScale(rubric.scale) ||
+    !Array.isArray(rubric.competencies) ||
+    rubric.competencies.length === 0 ||
+    !rubric.competencies.every(validCompetency)
+  ) {
+    throw new Error(`Invalid rubric: ${JSON.stringify(rubric?.id ?? rubric)}`);
+  }
+
+  return rubric as Rubric;
+}
@@ -0,0 +1,182 @@
+// lib/s3Client.ts
+// Minimal S3-compatible object client (AWS S3, MinIO, R2) using Signature V4
+import crypto from 'crypto';
+
+export interface S3Config {
+  /** e.g. https://s3.eu-central-1.amazonaws.com or http://localhost:9000 */
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Address the bucket as a path segment (required for MinIO) */
+  forcePathStyle?: boolean;
+}
+
+const EMPTY_PAYLOAD_HASH = sha256Hex('');
+
+/**
+ * Object operations against a single bucket
+ */
+export class S3Client {
+  constructor(private config: S3Config) {}
+
+  async putObject(key: string, body: Buffer, contentType = 'application/octet-stream'): Promise<void> {
+    const response = await this.send('PUT', key, { body, headers: { 'content-type': contentType } });
+    if (!response.ok) {
+      throw new Error(`S3 PUT ${key} failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  /**
+   * Returns null when the object does not exist
+   */
+  async getObject(key: string): Promise<Buffer | null> {
+    const response = await this.send('GET', key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`S3 GET ${key} failed: ${response.status} ${await response.text()}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    const response = await this.send('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 DELETE ${key} failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  /**
+   * List all keys under a prefix (ListObjectsV2, following continuation tokens)
+   */
+  async listKeys(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix };
+      if (continuationToken) {
+        query['continuation-token'] = continuationToken;
+      }
+
+      const response = await this.send('GET', '', { query });
+      const xml = await response.text();
+      if (!response.ok) {
+        throw new Error(`S3 LIST ${prefix} failed: ${response.status} ${xml}`);
+      }
+
+      for (const match of xml.matchAll(/<Key>([^<]*)<\/Key>/g)) {
+        keys.push(decodeXml(match[1]));
+      }
+
+      const truncated = /<IsTruncated>true<\/IsTruncated>/.test(xml);
+      const token = xml.match(/<NextContinuationToken>([^<]*)<\/NextContinuationToken>/)?.[1];
+      continuationToken = truncated && token ? decodeXml(token) : undefined;
+    } while (continuationToken);
+
+    return keys;
+  }
+
+  private async send(
+    method: string,
+    key: string,
+    options: { body?: Buffer; headers?: Record<string, string>; query?: Record<string, string> } = {}
+  ): Promise<Response> {
+    const { endpoint, bucket, forcePathStyle } = this.config;
+    const base = new URL(endpoint);
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+
+    const url = forcePathStyle
+      ? new URL(`${base.origin}/${bucket}/${encodedKey}`)
+      : new URL(`${base.protocol}//${bucket}.${base.host}/${encodedKey}`);
+
+    for (const [name, value] of Object.entries(options.query ?? {})) {
+      url.searchParams.set(name, value);
+    }
+
+    const headers = signRequest(this.config, method, url, options.headers ?? {}, options.body);
+    return fetch(url, {
+      method,
+      headers,
+      body: options.body ? new Uint8Array(options.body) : undefined,
+    });
+  }
+}
+
+/**
+ * Add AWS Signature Version 4 headers to a request
+ */
+export function signRequest(
+  config: S3Config,
+  method: string,
+  url: URL,
+  headers: Record<string, string>,
+  body?: Buffer,
+  now = new Date()
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = body ? sha256Hex(body) : EMPTY_PAYLOAD_HASH;
+
+  const signed: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()])),
+    host: url.host,
+    'x-amz-date': amzDate,
+    'x-amz-content-sha256': payloadHash,
+  };
+
+  const headerNames = Object.keys(signed).sort();
+  const canonicalHeaders = headerNames.map(name => `${name}:${signed[name]}\n`).join('');
+  const signedHeaders = headerNames.join(';');
+
+  const canonicalQuery = [...url.searchParams.entries()]
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const dateKey = hmac(`AWS4${config.secretAccessKey}`, dateStamp);
+  const signingKey = hmac(hmac(hmac(dateKey, config.region), 's3'), 'aws4_request');
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    ...signed,
+    authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
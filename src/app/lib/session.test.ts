@@ -0,0 +1,66 @@
+import fs from 'fs/promises';
+import { NextRequest } from 'next/server';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createSession, readSession, Session, SESSION_COOKIE, signToken } from './session';
+import { createUser, deleteUser, updateUser, UserRecord } from './users';
+
+let root: string;
+
+function requestWith(session: Session): NextRequest {
+  return new NextRequest('http://localhost/api/auth/session', {
+    headers: { cookie: `${SESSION_COOKIE}=${signToken('session', session)}` },
+  });
+}
+
+async function signIn(email: string): Promise<[UserRecord, NextRequest]> {
+  const user = await createUser({ email, name: 'Rita Recruiter', role: 'admin', password: 'correct horse battery' });
+  const session = createSession({
+    sub: user.id,
+    role: user.role,
+    name: user.name,
+    provider: 'local',
+    version: user.sessionVersion,
+  });
+  return [user, requestWith(session)];
+}
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'session-test-'));
+  process.env.DATA_DIR = path.join(root, 'data');
+  process.env.AUTH_SECRET = 'session-test-secret-0123456789abcdef';
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('readSession', () => {
+  it('keeps sessions through changes that do not affect access', async () => {
+    const [user, request] = await signIn('rita@example.com');
+    await updateUser(user, { name: 'Rita R.', password: 'another horse battery' });
+
+    expect((await readSession(request))?.sub).toBe(user.id);
+  });
+
+  it('signs out a local account when it is disabled, demoted or deleted', async () => {
+    const [disabled, disabledRequest] = await signIn('disabled@example.com');
+    const enabledAgain = await updateUser(await updateUser(disabled, { disabled: true }), { disabled: false });
+    expect(enabledAgain.disabled).toBe(false);
+    expect(await readSession(disabledRequest)).toBeNull();
+
+    const [demoted, demotedRequest] = await signIn('demoted@example.com');
+    await updateUser(demoted, { role: 'recruiter' });
+    expect(await readSession(demotedRequest)).toBeNull();
+
+    const [deleted, deletedRequest] = await signIn('deleted@example.com');
+    await deleteUser(deleted.id);
+    expect(await readSession(deletedRequest)).toBeNull();
+  });
+
+  it('does not look up single sign-on and candidate sessions', async () => {
+    const session = createSession({ sub: 'oidc_someone', role: 'recruiter', name: 'SSO', provider: 'oidc' });
+    expect(await readSession(requestWith(session))).toMatchObject({ sub: 'oidc_someone' });
+  });
+});
@@ -0,0 +1,174 @@
+// lib/session.ts
+// Signed session cookies. The cookie carries the user, their role and, for
+// candidates, the resumes and interviews they may access. Sessions of local
+// accounts are also checked against the user record, so that disabling,
+// deleting or changing the role of an account signs it out.
+import crypto from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { getConfig } from './config';
+import { getUser } from './users';
+
+export type Role = 'admin' | 'recruiter' | 'candidate';
+
+export type StaffRole = Exclude<Role, 'candidate'>;
+
+export const STAFF_ROLES: StaffRole[] = ['admin', 'recruiter'];
+
+export interface Session {
+  /** User ID, or `candidate_<uuid>` for candidate sessions */
+  sub: string;
+  role: Role;
+  name: string;
+  provider: 'local' | 'oidc' | 'candidate';
+  /** Candidate scope: resumes this session uploaded or was given */
+  fileIds?: string[];
+  /** Candidate scope: interviews this session started or was given */
+  interviewIds?: string[];
+  /** Invitation the candidate session was opened with */
+  invitationId?: string;
+  /** Local accounts: the user's `sessionVersion` at sign-in */
+  version?: number;
+  /** Expiry in seconds since the epoch */
+  exp: number;
+}
+
+export const SESSION_COOKIE = 'session';
+
+/**
+ * What a signed token is for; a token only verifies for its own purpose
+ */
+export type TokenPurpose = 'session' | 'oidc-flow' | 'invitation';
+
+// Keeps candidate cookies small; older entries drop out first
+const MAX_SCOPE_ENTRIES = 10;
+
+/**
+ * The signing secret, or null if `AUTH_SECRET` is not set
+ */
+export function getAuthSecret(): string | null {
+  return getConfig().auth.secret;
+}
+
+/**
+ * Serialize and sign a payload as `<base64url JSON>.<base64url HMAC>`
+ */
+export function signToken(purpose: TokenPurpose, payload: object): string {
+  const secret = getAuthSecret();
+  if (!secret) {
+    throw new Error('AUTH_SECRET must be set to sign tokens');
+  }
+
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${body}.${hmac(purpose, body, secret)}`;
+}
+
+/**
+ * The payload of a token signed with `signToken`, or null if the signature
+ * does not match or `exp` has passed
+ */
+export function verifyToken<T extends { exp: number }>(
+  purpose: TokenPurpose,
+  token: string | undefined,
+  now = Date.now()
+): T | null {
+  const secret = getAuthSecret();
+  if (!secret || !token) {
+    return null;
+  }
+
+  const [body, signature, ...rest] = token.split('.');
+  if (!body || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(hmac(purpose, body, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as T;
+    return typeof payload?.exp === 'number' && payload.exp * 1000 > now ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Session lifetime in seconds: `AUTH_SESSION_HOURS` (default 8) for staff,
+ * `CANDIDATE_SESSION_HOURS` (default 4) for candidates
+ */
+export function sessionTtl(role: Role): number {
+  const { auth } = getConfig();
+  const hours = role === 'candidate' ? auth.candidateSessionHours : auth.staffSessionHours;
+  return Math.round(hours * 3600);
+}
+
+export function createSession(details: Omit<Session, 'exp'>, now = Date.now()): Session {
+  return { ...details, exp: Math.floor(now / 1000) + sessionTtl(details.role) };
+}
+
+/**
+ * The session of the request, or null if the cookie is missing, invalid or
+ * expired, or belongs to a local account that was since disabled, deleted
+ * or given another role
+ */
+export async function readSession(request: NextRequest): Promise<Session | null> {
+  const session = verifyToken<Session>('session', request.cookies.get(SESSION_COOKIE)?.value);
+  if (session?.provider !== 'local') {
+    return session;
+  }
+
+  const user = await getUser(session.sub);
+  return user && !user.disabled && (user.sessionVersion ?? 0) === (session.version ?? 0) ? session : null;
+}
+
+export function setSessionCookie(response: NextResponse, session: Session): void {
+  response.cookies.set(SESSION_COOKIE, signToken('session', session), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: Math.max(0, session.exp - Math.floor(Date.now() / 1000)),
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
+
+export function isStaff(session: Session | null): boolean {
+  return !!session && STAFF_ROLES.includes(session.role as StaffRole);
+}
+
+export function canAccessFile(session: Session | null, fileId: string): boolean {
+  return isStaff(session) || !!session?.fileIds?.includes(fileId);
+}
+
+export function canAccessInterview(session: Session | null, interviewId: string): boolean {
+  return isStaff(session) || !!session?.interviewIds?.includes(interviewId);
+}
+
+/**
+ * A candidate session with a resume or interview added to its scope.
+ * Staff sessions are returned unchanged.
+ */
+export function addToScope(session: Session, scope: { fileId?: string; interviewId?: string }): Session {
+  if (session.role !== 'candidate') {
+    return session;
+  }
+
+  const add = (list: string[] | undefined, id: string | undefined) =>
+    id ? [...(list ?? []).filter(existing => existing !== id), id].slice(-MAX_SCOPE_ENTRIES) : list;
+
+  return {
+    ...session,
+    fileIds: add(session.fileIds, scope.fileId),
+    interviewIds: add(session.interviewIds, scope.interviewId),
+  };
+}
+
+function hmac(purpose: TokenPurpose, body: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(`${purpose}.${body}`).digest('base64url');
+}
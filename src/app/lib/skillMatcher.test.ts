@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { JobDescription, validateJobDescriptionInput } from './jobDescriptions';
+import { matchJobDescription } from './skillMatcher';
+
+const RESUME = [
+  'Backend Developer, Acme GmbH',
+  '- Operated K8s clusters with Helm',
+  '- Built REST APIs in Java',
+  '- Migrated the reporting database to Postgres',
+  '- Tuned PostgreSQL queries',
+  '- Wrote PostgreSQL functions for billing',
+  'Skills: JavaScript, Git',
+].join('\n');
+
+function job(requiredSkills: string[], niceToHaveSkills: string[] = []): JobDescription {
+  return {
+    id: 'job-1',
+    title: 'Backend Developer',
+    description: '',
+    requiredSkills,
+    niceToHaveSkills,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  };
+}
+
+describe('matchJobDescription', () => {
+  it('finds skills under their aliases and lists the missing ones', () => {
+    const result = matchJobDescription(RESUME, job(['Kubernetes', 'Java', 'Terraform'], ['Go', 'Git']));
+
+    expect(result.matched.map(match => match.skill)).toEqual(['Kubernetes', 'Java', 'Git']);
+    expect(result.missing).toEqual([
+      { skill: 'Terraform', priority: 'required' },
+      { skill: 'Go', priority: 'nice-to-have' },
+    ]);
+    expect(result.requiredCoverage).toBe(0.67);
+    expect(result.niceToHaveCoverage).toBe(0.5);
+  });
+
+  it('quotes at most two lines per skill, in resume order', () => {
+    const [postgres] = matchJobDescription(RESUME, job(['PostgreSQL'])).matched;
+    expect(postgres.evidence).toEqual([
+      '- Migrated the reporting database to Postgres',
+      '- Tuned PostgreSQL queries',
+    ]);
+  });
+
+  it('does not count JavaScript as Java', () => {
+    const result = matchJobDescription('Frontend work in JavaScript', job(['Java']));
+    expect(result.matched).toEqual([]);
+    expect(result.requiredCoverage).toBe(0);
+  });
+
+  it('matches skills outside the taxonomy by their name', () => {
+    const result = matchJobDescription('Certified in Widget-Tooling 3', job(['Widget-Tooling']));
+    expect(result.matched[0].evidence).toEqual(['Certified in Widget-Tooling 3']);
+  });
+
+  it('cuts long lines down to the part around the match', () => {
+    const line = `${'Lorem ipsum dolor sit amet. '.repeat(10)}Kubernetes${' and more filler text'.repeat(10)}`;
+    const [evidence] = matchJobDescription(line, job(['Kubernetes'])).matched[0].evidence;
+
+    expect(evidence.length).toBeLessThanOrEqual(162);
+    expect(evidence).toContain('Kubernetes');
+    expect(evidence.startsWith('…')).toBe(true);
+    expect(evidence.endsWith('…')).toBe(true);
+  });
+
+  it('has full coverage when a job lists no nice-to-have skills', () => {
+    expect(matchJobDescription(RESUME, job(['Java'])).niceToHaveCoverage).toBe(1);
+  });
+});
+
+describe('validateJobDescriptionInput', () => {
+  it('trims and de-duplicates skills', () => {
+    const { input } = validateJobDescriptionInput({
+      title: ' Backend Developer ',
+      requiredSkills: ['Java', ' java ', 'Kubernetes', ''],
+      niceToHaveSkills: ['KUBERNETES', 'Go'],
+    });
+
+    expect(input).toMatchObject({
+      title: 'Backend Developer',
+      description: '',
+      requiredSkills: ['Java', 'Kubernetes'],
+      niceToHaveSkills: ['Go'],
+    });
+  });
+
+  it.each([
+    [{ requiredSkills: ['Java'] }, 'title is required'],
+    [{ title: 'Dev', requiredSkills: [] }, 'requiredSkills must be a non-empty list'],
+    [{ title: 'Dev', requiredSkills: ['Java', 42] }, 'requiredSkills must be a non-empty list'],
+    [{ title: 'Dev', requiredSkills: ['Java'], niceToHaveSkills: 'Go' }, 'niceToHaveSkills must be a list'],
+  ])('rejects %j', (body, error) => {
+    expect(validateJobDescriptionInput(body).error).toContain(error);
+  });
+});
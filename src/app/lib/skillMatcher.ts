@@ -0,0 +1,95 @@
+// lib/skillMatcher.ts
+// Compares a job description's skills against resume text
+import type { JobDescription } from './jobDescriptions';
+import { buildSkillPattern, getSkillPatterns, resolveSkill } from './skillTaxonomy';
+
+export type SkillPriority = 'required' | 'nice-to-have';
+
+export interface SkillMatch {
+  skill: string;
+  priority: SkillPriority;
+  /** Resume lines that mention the skill */
+  evidence: string[];
+}
+
+export interface MissingSkill {
+  skill: string;
+  priority: SkillPriority;
+}
+
+export interface SkillMatchResult {
+  jobDescriptionId: string;
+  matched: SkillMatch[];
+  missing: MissingSkill[];
+  /** Share of required skills found in the resume, 0-1 */
+  requiredCoverage: number;
+  /** Share of nice-to-have skills found in the resume, 0-1 */
+  niceToHaveCoverage: number;
+}
+
+const MAX_EVIDENCE_PER_SKILL = 2;
+const MAX_EVIDENCE_LENGTH = 160;
+
+/**
+ * Find which required and nice-to-have skills the resume mentions, with
+ * the lines that mention them
+ */
+export function matchJobDescription(resumeText: string, job: JobDescription): SkillMatchResult {
+  const lines = resumeText
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+
+  const matched: SkillMatch[] = [];
+  const missing: MissingSkill[] = [];
+
+  const check = (skill: string, priority: SkillPriority) => {
+    // Known skills also match their aliases, e.g. "k8s" for Kubernetes
+    const known = resolveSkill(skill);
+    const patterns = known ? getSkillPatterns(known) : [buildSkillPattern([skill])];
+    const evidence = lines
+      .map(line => ({ line, pattern: patterns.find(pattern => line.search(pattern) >= 0) }))
+      .filter((hit): hit is { line: string; pattern: RegExp } => hit.pattern !== undefined)
+      .slice(0, MAX_EVIDENCE_PER_SKILL)
+      .map(hit => snippet(hit.line, hit.pattern));
+
+    if (evidence.length > 0) {
+      matched.push({ skill, priority, evidence });
+    } else {
+      missing.push({ skill, priority });
+    }
+  };
+
+  job.requiredSkills.forEach(skill => check(skill, 'required'));
+  job.niceToHaveSkills.forEach(skill => check(skill, 'nice-to-have'));
+
+  const coverage = (priority: SkillPriority, total: number) =>
+    total === 0 ? 1 : matched.filter(match => match.priority === priority).length / total;
+
+  return {
+    jobDescriptionId: job.id,
+    matched,
+    missing,
+    requiredCoverage: round(coverage('required', job.requiredSkills.length)),
+    niceToHaveCoverage: round(coverage('nice-to-have', job.niceToHaveSkills.length)),
+  };
+}
+
+/**
+ * Cut a long line down to the part around the match
+ */
+function snippet(line: string, pattern: RegExp): string {
+  if (line.length <= MAX_EVIDENCE_LENGTH) {
+    return line;
+  }
+
+  const index = line.search(pattern);
+  const start = Math.max(0, index - MAX_EVIDENCE_LENGTH / 2);
+  const end = Math.min(line.length, start + MAX_EVIDENCE_LENGTH);
+
+  return `${start > 0 ? '…' : ''}${line.slice(start, end).trim()}${end < line.length ? '…' : ''}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
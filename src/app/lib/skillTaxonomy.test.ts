@@ -0,0 +1,101 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { buildSkillPattern, findSkills, getSkillPatterns, resolveSkill } from './skillTaxonomy';
+
+const NOW = new Date('2025-06-01T00:00:00Z');
+
+let root: string;
+
+function skillIds(text: string): string[] {
+  return findSkills(text, NOW).map(skill => skill.id).sort();
+}
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'taxonomy-test-'));
+  const tenantPath = path.join(root, 'tenant.json');
+  await fs.writeFile(tenantPath, JSON.stringify({
+    version: 2,
+    categories: [],
+    skills: [
+      { id: 'kubernetes', name: 'Kubernetes', category: 'devops', aliases: ['Kube'] },
+      { id: 'mendix', name: 'Mendix', category: 'low-code', aliases: ['Mendix Studio Pro'] },
+    ],
+  }));
+  process.env.SKILL_TAXONOMY_PATH = tenantPath;
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('buildSkillPattern', () => {
+  it.each([
+    ['Java', 'Java and Spring', true],
+    ['Java', 'JavaScript only', false],
+    ['Git', 'digital transformation', false],
+    ['C++', 'Modern C++ and C#', true],
+    ['C', 'C++ developer', false],
+    ['Node.js', 'Node.js services', true],
+    ['Node', 'Node.js services', false],
+    ['Spring Boot', 'Spring-Boot microservices', true],
+  ])('%s in %j: %s', (term, text, expected) => {
+    expect(buildSkillPattern([term]).test(text)).toBe(expected);
+  });
+});
+
+describe('resolveSkill', () => {
+  it('finds skills by name or alias, ignoring case', () => {
+    expect(resolveSkill('k8s')?.id).toBe('kubernetes');
+    expect(resolveSkill(' postgres ')?.id).toBe('postgresql');
+    expect(resolveSkill('Cobol on punch cards')).toBeNull();
+  });
+
+  it('merges the tenant taxonomy into the built-in one', () => {
+    const kubernetes = resolveSkill('Kube');
+    expect(kubernetes?.id).toBe('kubernetes');
+    expect(kubernetes?.aliases).toContain('K8s');
+    expect(resolveSkill('mendix studio pro')?.id).toBe('mendix');
+  });
+});
+
+describe('findSkills', () => {
+  it('matches case-sensitive terms only with their casing', () => {
+    expect(skillIds('Backend services in Go')).toContain('go');
+    expect(skillIds('Ready to go live with the team')).not.toContain('go');
+    expect(skillIds('REST APIs for partners')).toContain('rest');
+    expect(skillIds('Took a rest year')).not.toContain('rest');
+  });
+
+  it('counts an alias inside a longer alias once', () => {
+    const [spring] = findSkills('Built services with Spring Boot', NOW).filter(skill => skill.id === 'spring');
+    expect(spring).toMatchObject({ count: 1, matchedTerms: ['Spring Boot'] });
+  });
+
+  it('weights recently used skills above older ones', () => {
+    const text = [
+      'Experience',
+      'Backend Developer, Acme GmbH',
+      '03/2022 – present',
+      '- Built services with Kotlin and PostgreSQL',
+      'Developer, Old Corp',
+      '01/2010 – 12/2013',
+      '- Maintained PHP scripts and PostgreSQL reports',
+    ].join('\n');
+
+    const skills = findSkills(text, NOW);
+    const kotlin = skills.find(skill => skill.id === 'kotlin');
+    const php = skills.find(skill => skill.id === 'php');
+
+    expect(kotlin?.lastUsedYear).toBe(2025);
+    expect(php?.lastUsedYear).toBe(2013);
+    expect(kotlin?.weight).toBeGreaterThan(php?.weight ?? Infinity);
+    expect(skills.find(skill => skill.id === 'postgresql')).toMatchObject({ count: 2, lastUsedYear: 2025 });
+  });
+
+  it('returns the patterns used for matching', () => {
+    const kubernetes = resolveSkill('Kubernetes');
+    expect(kubernetes && getSkillPatterns(kubernetes).some(pattern => 'Helm charts'.search(pattern) >= 0)).toBe(true);
+  });
+});
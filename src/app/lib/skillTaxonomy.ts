@@ -0,0 +1,246 @@
+// lib/skillTaxonomy.ts
+// Skill taxonomy with categories and aliases, and skill detection in resume
+// text with frequency and recency weighting
+import fs from 'fs';
+import baseTaxonomy from './taxonomy/skills.json';
+import { getConfig } from './config';
+import { structureResume } from './resumeStructure';
+
+export interface SkillCategory {
+  id: string;
+  name: string;
+}
+
+export interface TaxonomySkill {
+  id: string;
+  name: string;
+  category: string;
+  aliases: string[];
+  /** Terms (name or aliases) that only match with this exact casing, e.g. "Go" */
+  caseSensitive?: string[];
+}
+
+export interface SkillTaxonomy {
+  version: number;
+  categories: SkillCategory[];
+  skills: TaxonomySkill[];
+}
+
+export interface SkillMention {
+  id: string;
+  name: string;
+  category: string;
+  /** Number of mentions across the resume */
+  count: number;
+  /** Terms as written in the resume, e.g. "k8s" for Kubernetes */
+  matchedTerms: string[];
+  /** Latest year the skill appears in a dated work history entry */
+  lastUsedYear?: number;
+  /** Frequency weighted by recency; higher is more relevant */
+  weight: number;
+}
+
+// Mentions outside any dated work history entry (e.g. a skills list)
+const UNDATED_RECENCY = 0.7;
+const RECENCY_DECAY_PER_YEAR = 0.1;
+const MIN_RECENCY = 0.3;
+
+interface SkillMatcher {
+  skill: TaxonomySkill;
+  patterns: RegExp[];
+}
+
+let cached: { path: string | null; taxonomy: SkillTaxonomy; matchers: SkillMatcher[] } | null = null;
+
+/**
+ * The built-in taxonomy merged with the tenant taxonomy from
+ * `SKILL_TAXONOMY_PATH`, if set. Tenant entries with an existing ID add
+ * aliases to (and may rename or recategorize) the built-in skill; new IDs
+ * add skills.
+ */
+export function getSkillTaxonomy(): SkillTaxonomy {
+  return load().taxonomy;
+}
+
+/**
+ * Find the taxonomy skill for a name or alias, e.g. "k8s" → Kubernetes
+ */
+export function resolveSkill(term: string): TaxonomySkill | null {
+  const normalized = term.trim().toLowerCase();
+  return load().taxonomy.skills.find(skill =>
+    [skill.name, ...skill.aliases].some(candidate => candidate.toLowerCase() === normalized)
+  ) ?? null;
+}
+
+/**
+ * Regular expressions matching a skill under any of its names
+ */
+export function getSkillPatterns(skill: TaxonomySkill): RegExp[] {
+  return load().matchers.find(matcher => matcher.skill.id === skill.id)?.patterns ?? buildPatterns(skill);
+}
+
+/**
+ * Match terms on token boundaries, so that "Java" does not match
+ * "JavaScript" and "Git" does not match "digital". Symbols in names like
+ * "C++", "C#" and "Node.js" are matched literally.
+ */
+export function buildSkillPattern(terms: string[], caseSensitive = false): RegExp {
+  const alternatives = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '[\\s-]+'));
+
+  return new RegExp(`(?<![\\w+#.])(?:${alternatives.join('|')})(?![\\w+#]|\\.\\w)`, caseSensitive ? 'g' : 'gi');
+}
+
+/**
+ * Detect taxonomy skills in resume text, ranked by weight
+ */
+export function findSkills(rawText: string, now = new Date()): SkillMention[] {
+  const structured = structureResume(rawText);
+  const text = structured.text;
+  const currentYear = now.getFullYear();
+
+  // Latest year covered by each dated work history entry
+  const datedSpans = structured.workHistory
+    .map(entry => ({
+      span: entry.span,
+      year: entry.isCurrent ? currentYear : yearOf(entry.endDate) ?? yearOf(entry.startDate),
+    }))
+    .filter((entry): entry is { span: typeof entry.span; year: number } => entry.year !== undefined);
+
+  const mentions: SkillMention[] = [];
+
+  for (const { skill, patterns } of load().matchers) {
+    let count = 0;
+    let lastUsedYear: number | undefined;
+    const matchedTerms = new Set<string>();
+
+    // A case-sensitive term can match inside a longer alias ("Spring" in
+    // "Spring Boot"); count each stretch of text once
+    const matches = patterns
+      .flatMap(pattern => [...text.matchAll(pattern)])
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0) || b[0].length - a[0].length);
+    let coveredUntil = -1;
+
+    for (const match of matches) {
+      const index = match.index ?? 0;
+      if (index < coveredUntil) continue;
+      coveredUntil = index + match[0].length;
+
+      count++;
+      matchedTerms.add(match[0]);
+
+      const dated = datedSpans.find(entry => index >= entry.span.start && index < entry.span.end);
+      if (dated && (lastUsedYear === undefined || dated.year > lastUsedYear)) {
+        lastUsedYear = dated.year;
+      }
+    }
+
+    if (count === 0) continue;
+
+    const recency = lastUsedYear === undefined
+      ? UNDATED_RECENCY
+      : Math.max(MIN_RECENCY, 1 - RECENCY_DECAY_PER_YEAR * Math.max(0, currentYear - lastUsedYear - 1));
+
+    mentions.push({
+      id: skill.id,
+      name: skill.name,
+      category: skill.category,
+      count,
+      matchedTerms: [...matchedTerms],
+      lastUsedYear,
+      weight: Math.round((1 + Math.log2(count)) * recency * 100) / 100,
+    });
+  }
+
+  return mentions.sort((a, b) => b.weight - a.weight || b.count - a.count);
+}
+
+function load() {
+  const tenantPath = getConfig().parsing.skillTaxonomyPath;
+  if (cached && cached.path === tenantPath) {
+    return cached;
+  }
+
+  let taxonomy = validateTaxonomy(baseTaxonomy, 'built-in');
+
+  if (tenantPath) {
+    try {
+      const tenant = validateTaxonomy(JSON.parse(fs.readFileSync(tenantPath, 'utf8')), tenantPath);
+      taxonomy = mergeTaxonomies(taxonomy, tenant);
+    } catch (error) {
+      console.error(`Failed to load skill taxonomy from ${tenantPath}, using the built-in taxonomy:`, error);
+    }
+  }
+
+  cached = { path: tenantPath, taxonomy, matchers: taxonomy.skills.map(skill => ({ skill, patterns: buildPatterns(skill) })) };
+  return cached;
+}
+
+function buildPatterns(skill: TaxonomySkill): RegExp[] {
+  const exact = new Set(skill.caseSensitive ?? []);
+  const terms = [skill.name, ...skill.aliases];
+  const insensitive = terms.filter(term => !exact.has(term));
+  const sensitive = terms.filter(term => exact.has(term));
+
+  return [
+    ...(insensitive.length > 0 ? [buildSkillPattern(insensitive)] : []),
+    ...(sensitive.length > 0 ? [buildSkillPattern(sensitive, true)] : []),
+  ];
+}
+
+function mergeTaxonomies(base: SkillTaxonomy, tenant: SkillTaxonomy): SkillTaxonomy {
+  const categories = [...base.categories];
+  for (const category of tenant.categories) {
+    const index = categories.findIndex(existing => existing.id === category.id);
+    if (index >= 0) categories[index] = category;
+    else categories.push(category);
+  }
+
+  const skills = base.skills.map(skill => ({ ...skill }));
+  for (const skill of tenant.skills) {
+    const existing = skills.find(candidate => candidate.id === skill.id);
+    if (existing) {
+      existing.name = skill.name || existing.name;
+      existing.category = skill.category || existing.category;
+      existing.aliases = [...new Set([...existing.aliases, ...skill.aliases])];
+      existing.caseSensitive = [...new Set([...(existing.caseSensitive ?? []), ...(skill.caseSensitive ?? [])])];
+    } else {
+      skills.push(skill);
+    }
+  }
+
+  return { version: Math.max(base.version, tenant.version), categories, skills };
+}
+
+function validateTaxonomy(data: unknown, source: string): SkillTaxonomy {
+  const taxonomy = data as Partial<SkillTaxonomy>;
+  const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+  if (!taxonomy || !Array.isArray(taxonomy.skills)) {
+    throw new Error(`Skill taxonomy ${source} has no skills list`);
+  }
+
+  for (const skill of taxonomy.skills) {
+    if (
+      typeof skill?.id !== 'string' ||
+      typeof skill.name !== 'string' ||
+      typeof skill.category !== 'string' ||
+      !isStringList(skill.aliases ?? []) ||
+      !isStringList(skill.caseSensitive ?? [])
+    ) {
+      throw new Error(`Invalid skill in taxonomy ${source}: ${JSON.stringify(skill)}`);
+    }
+  }
+
+  return {
+    version: typeof taxonomy.version === 'number' ? taxonomy.version : 1,
+    categories: Array.isArray(taxonomy.categories) ? taxonomy.categories : [],
+    skills: taxonomy.skills.map(skill => ({ ...skill, aliases: skill.aliases ?? [] })),
+  };
+}
+
+function yearOf(date: string | undefined): number | undefined {
+  const match = date?.match(/\b(19|20)\d{2}\b/);
+  return match ? Number(match[0]) : undefined;
+}
@@ -0,0 +1,192 @@
+// lib/textInterview.ts
+// Text chat interviews for candidates who cannot talk to the voice agent:
+// an LLM interviews with the prompt the voice agent would get, and the
+// finished chat is stored as a transcript like a call
+import { v4 as uuidv4 } from 'uuid';
+import { JsonCollection } from './jsonStore';
+import { getLlmProvider, LlmChatMessage } from './llm';
+import { ingestTranscript, IngestResult } from './transcriptIngestion';
+import type { TranscriptTurn } from './transcripts';
+import type { VoiceTranscript } from './voiceAgent';
+
+export interface TextConversationRecord {
+  /** Interview session ID; a session has at most one chat */
+  id: string;
+  /** ID the transcript is stored under, like a voice provider's conversation ID */
+  conversationId: string;
+  /** Interviewer prompt built by formatResumeForAI */
+  context: string;
+  status: 'in-progress' | 'done';
+  createdAt: string;
+  /** When the interviewer's first message was requested */
+  startedAt?: string;
+  endedAt?: string;
+  turns: TranscriptTurn[];
+}
+
+export interface ChatProblem {
+  code: string;
+  error: string;
+}
+
+export const TEXT_AGENT_ID = 'text-interviewer';
+export const MAX_CHAT_MESSAGE_LENGTH = 4000;
+// Bounds the LLM cost of a single interview
+export const MAX_CANDIDATE_MESSAGES = 40;
+
+const MAX_REPLY_TOKENS = 400;
+
+// Added to the interviewer prompt, which is written for a spoken interview
+const CHAT_INSTRUCTIONS = `
+---
+
+CHAT FORMAT:
+- This interview takes place in a text chat, not a call
+- Ask one question per message and keep messages short; do not use Markdown
+- Start by greeting the candidate and asking your first question
+- When you have asked your planned questions, thank the candidate and tell them they can end the interview`;
+
+const conversations = new JsonCollection<TextConversationRecord>('text-conversations');
+
+// Sessions the interviewer is replying in; one reply at a time per chat
+const replying = new Set<string>();
+
+export async function createTextConversation(interviewId: string, context: string): Promise<TextConversationRecord> {
+  return conversations.put({
+    id: interviewId,
+    conversationId: `text_${uuidv4().replace(/-/g, '')}`,
+    context,
+    status: 'in-progress',
+    createdAt: new Date().toISOString(),
+    turns: [],
+  });
+}
+
+export async function getTextConversation(interviewId: string): Promise<TextConversationRecord | null> {
+  return conversations.get(interviewId);
+}
+
+export async function deleteTextConversation(interviewId: string): Promise<boolean> {
+  return conversations.delete(interviewId);
+}
+
+/**
+ * Why the candidate cannot send this message now, or null if they can.
+ * The interviewer opens the chat, so only the first request may leave the
+ * message out.
+ */
+export function checkChatMessage(conversation: TextConversationRecord, message: string | undefined): ChatProblem | null {
+  if (conversation.status === 'done') {
+    return { code: 'CHAT_ENDED', error: 'This interview has ended' };
+  }
+  if (replying.has(conversation.id)) {
+    return { code: 'REPLY_PENDING', error: 'The interviewer is still replying' };
+  }
+  if (message === undefined) {
+    return conversation.turns.length === 0
+      ? null
+      : { code: 'INVALID_MESSAGE', error: 'message is required' };
+  }
+  if (!message.trim() || message.length > MAX_CHAT_MESSAGE_LENGTH) {
+    return { code: 'INVALID_MESSAGE', error: `message must be between 1 and ${MAX_CHAT_MESSAGE_LENGTH} characters` };
+  }
+  if (conversation.turns.filter(turn => turn.role === 'user').length >= MAX_CANDIDATE_MESSAGES) {
+    return { code: 'CHAT_LIMIT_REACHED', error: 'This interview has reached its message limit. Please end the interview.' };
+  }
+  return null;
+}
+
+/**
+ * Why the chat cannot be ended now, or null if it can
+ */
+export function checkChatEnd(conversation: TextConversationRecord): ChatProblem | null {
+  if (conversation.status === 'done') {
+    return { code: 'CHAT_ENDED', error: 'This interview has ended' };
+  }
+  if (replying.has(conversation.id)) {
+    return { code: 'REPLY_PENDING', error: 'The interviewer is still replying' };
+  }
+  return null;
+}
+
+/**
+ * Add the candidate's message and stream the interviewer's reply. Both are
+ * saved once the reply is complete, so a failed reply can be retried with
+ * the same message. Call `checkChatMessage` first.
+ */
+export async function* streamInterviewerReply(
+  conversation: TextConversationRecord,
+  message: string | undefined
+): AsyncGenerator<string> {
+  replying.add(conversation.id);
+
+  try {
+    // Re-read now that no other reply can change the chat
+    const current = (await conversations.get(conversation.id)) ?? conversation;
+    const startedAt = current.startedAt ?? new Date().toISOString();
+    const timeInCallSecs = Math.round((Date.now() - Date.parse(startedAt)) / 1000);
+
+    const turns = [...current.turns];
+    if (message !== undefined) {
+      turns.push({ role: 'user', message: message.trim(), timeInCallSecs });
+    }
+
+    const messages: LlmChatMessage[] = turns.map(turn => ({
+      role: turn.role === 'agent' ? 'assistant' : 'user',
+      content: turn.message,
+    }));
+
+    let reply = '';
+    for await (const chunk of getLlmProvider().chat({
+      system: `${current.context}\n${CHAT_INSTRUCTIONS}`,
+      messages,
+      maxTokens: MAX_REPLY_TOKENS,
+    })) {
+      reply += chunk;
+      yield chunk;
+    }
+
+    if (!reply.trim()) {
+      throw new Error(`The interviewer sent an empty reply in interview ${conversation.id}`);
+    }
+
+    turns.push({ role: 'agent', message: reply.trim(), timeInCallSecs });
+    await conversations.put({ ...current, startedAt, turns });
+  } finally {
+    replying.delete(conversation.id);
+  }
+}
+
+/**
+ * Close the chat and store its transcript against the interview session,
+ * which completes the session
+ */
+export async function endTextConversation(conversation: TextConversationRecord): Promise<IngestResult> {
+  const endedAt = new Date();
+  const ended = await conversations.put({
+    ...conversation,
+    status: 'done',
+    endedAt: endedAt.toISOString(),
+  });
+
+  return ingestTranscript('text', toTextTranscript(ended), endedAt);
+}
+
+/**
+ * The chat in the shape voice providers deliver calls in
+ */
+export function toTextTranscript(record: TextConversationRecord): VoiceTranscript {
+  return {
+    conversation: {
+      id: record.conversationId,
+      agentId: TEXT_AGENT_ID,
+      status: record.status,
+      startedAt: record.startedAt,
+      durationSecs: record.startedAt && record.endedAt
+        ? Math.round((Date.parse(record.endedAt) - Date.parse(record.startedAt)) / 1000)
+        : undefined,
+      interviewId: record.id,
+    },
+    turns: record.turns,
+  };
+}
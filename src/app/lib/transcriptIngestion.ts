@@ -0,0 +1,144 @@
+// lib/transcriptIngestion.ts
+// Stores the transcript of a finished call or chat against its interview
+// session, whichever provider delivered it
+import {
+  getInterview,
+  InterviewRecord,
+  listInterviews,
+  setInterviewConversation,
+  transitionInterview,
+} from './interviews';
+import { markInterviewCompleted } from './retention';
+import { getTranscript, saveTranscript, TranscriptRecord, TranscriptSource } from './transcripts';
+import { getVoiceAgentProvider, VoiceTranscript } from './voiceAgent';
+
+// Provider call statuses after which the transcript no longer changes
+const FINAL_CALL_STATUSES = ['done', 'failed'];
+
+export interface IngestResult {
+  transcript: TranscriptRecord;
+  /** The conversation had already been ingested; nothing was changed */
+  duplicate: boolean;
+  interview: InterviewRecord | null;
+}
+
+/**
+ * Store the transcript of a finished call and close its interview session.
+ * Redeliveries of the same conversation are acknowledged without changes.
+ */
+export async function ingestTranscript(
+  provider: TranscriptSource,
+  { conversation, turns }: VoiceTranscript,
+  eventAt: Date,
+  receivedAt = new Date()
+): Promise<IngestResult> {
+  const existing = await getTranscript(conversation.id);
+  if (existing) {
+    return {
+      transcript: existing,
+      duplicate: true,
+      interview: existing.interviewId ? await getInterview(existing.interviewId) : null,
+    };
+  }
+
+  // The session is closed before the transcript is saved: the transcript
+  // marks the event as processed, so a failure in between is retried
+  const match = await findInterview(conversation.id, conversation.interviewId);
+  const interview = match ? await closeInterview(match, conversation.id, conversation.status) : null;
+
+  if (!interview) {
+    console.warn(`No interview session found for conversation ${conversation.id}`);
+  } else if (interview.agentId && interview.agentId !== conversation.agentId) {
+    console.warn(`Conversation ${conversation.id} used agent ${conversation.agentId}, session ${interview.id} expected ${interview.agentId}`);
+  }
+
+  const transcript = await saveTranscript({
+    id: conversation.id,
+    provider,
+    agentId: conversation.agentId,
+    interviewId: interview?.id,
+    fileId: interview?.fileId,
+    callStatus: conversation.status,
+    turns,
+    durationSecs: conversation.durationSecs ?? turns[turns.length - 1]?.timeInCallSecs ?? 0,
+    callStartedAt: conversation.startedAt,
+    audio: conversation.audioUrl && provider !== 'text' ? { provider, url: conversation.audioUrl } : undefined,
+    eventAt: eventAt.toISOString(),
+    receivedAt: receivedAt.toISOString(),
+  });
+
+  return { transcript, duplicate: false, interview };
+}
+
+/**
+ * Fetch the transcript of a voice session from the provider, for calls
+ * whose webhook never arrived, and ingest it. Null for text sessions,
+ * calls still running and conversations the provider does not know.
+ */
+export async function fetchMissingTranscript(interview: InterviewRecord): Promise<TranscriptRecord | null> {
+  if (interview.mode === 'text' || !interview.conversationId) {
+    return null;
+  }
+
+  const provider = getVoiceAgentProvider();
+  const fetched = await provider.getTranscript(interview.conversationId);
+  if (!fetched || !FINAL_CALL_STATUSES.includes(fetched.conversation.status)) {
+    return null;
+  }
+
+  const { transcript } = await ingestTranscript(provider.name, fetched, new Date());
+  return transcript;
+}
+
+/**
+ * The session that reported this conversation ID, or the one named in the
+ * conversation's `interview_id` dynamic variable
+ */
+async function findInterview(conversationId: string, interviewId: string | undefined): Promise<InterviewRecord | null> {
+  const [byConversation] = await listInterviews({ conversationId });
+  if (byConversation) {
+    return byConversation;
+  }
+
+  if (!interviewId) {
+    return null;
+  }
+
+  const interview = await getInterview(interviewId);
+  return interview && (!interview.conversationId || interview.conversationId === conversationId) ? interview : null;
+}
+
+/**
+ * Mark an open session completed (or failed, if the provider says so). A
+ * session that already ended, e.g. abandoned when the browser closed,
+ * keeps its status but is linked to the conversation.
+ */
+async function closeInterview(
+  interview: InterviewRecord,
+  conversationId: string,
+  callStatus: string
+): Promise<InterviewRecord> {
+  if (interview.status !== 'created' && interview.status !== 'in_progress') {
+    return interview.conversationId ? interview : setInterviewConversation(interview, conversationId);
+  }
+
+  if (callStatus === 'failed') {
+    return transitionInterview(interview, {
+      status: 'failed',
+      conversationId,
+      reason: 'Voice provider reported the call as failed',
+    });
+  }
+
+  // The client may never have reported the connected session
+  let current = interview;
+  if (current.status === 'created') {
+    current = await transitionInterview(current, { status: 'in_progress', conversationId });
+  }
+
+  const endedAt = new Date();
+  current = await transitionInterview(current, { status: 'completed', conversationId }, endedAt);
+  await markInterviewCompleted(current.fileId, endedAt);
+
+  return current;
+}
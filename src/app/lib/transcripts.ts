@@ -0,0 +1,61 @@
+// lib/transcripts.ts
+// Post-call transcripts from the voice provider and finished text chat
+// interviews, one per conversation
+import { JsonCollection } from './jsonStore';
+import type { VoiceProviderName } from './voiceAgent';
+
+/** The voice provider of the call, or `text` for chat interviews */
+export type TranscriptSource = VoiceProviderName | 'text';
+
+export interface TranscriptTurn {
+  role: 'agent' | 'user';
+  message: string;
+  /** Seconds from the start of the call */
+  timeInCallSecs: number;
+}
+
+export interface TranscriptRecord {
+  /** Provider conversation ID */
+  id: string;
+  provider: TranscriptSource;
+  agentId: string;
+  /** Interview session the conversation belongs to, when it could be matched */
+  interviewId?: string;
+  fileId?: string;
+  /** Call status reported by the provider, e.g. "done" or "failed" */
+  callStatus: string;
+  turns: TranscriptTurn[];
+  durationSecs: number;
+  callStartedAt?: string;
+  /** Where the call recording can be fetched; the audio itself is not stored */
+  audio?: {
+    provider: VoiceProviderName;
+    url: string;
+  };
+  /** When the provider created the event */
+  eventAt: string;
+  receivedAt: string;
+}
+
+const transcripts = new JsonCollection<TranscriptRecord>('transcripts');
+
+export async function saveTranscript(record: TranscriptRecord): Promise<TranscriptRecord> {
+  return transcripts.put(record);
+}
+
+export async function getTranscript(conversationId: string): Promise<TranscriptRecord | null> {
+  return transcripts.get(conversationId);
+}
+
+export async function listTranscripts(): Promise<TranscriptRecord[]> {
+  return transcripts.list();
+}
+
+export async function listTranscriptsForFile(fileId: string): Promise<TranscriptRecord[]> {
+  const all = await transcripts.list();
+  return all.filter(transcript => transcript.fileId === fileId);
+}
+
+export async function deleteTranscript(conversationId: string): Promise<boolean> {
+  return transcripts.delete(conversationId);
+}
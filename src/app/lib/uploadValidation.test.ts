@@ -0,0 +1,65 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { inspectUpload } from './uploadValidation';
+
+const CONTENT_TYPES = '<?xml version="1.0"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"/>';
+
+async function buildDocx(parts: Record<string, string | Buffer>): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', CONTENT_TYPES);
+  for (const [name, content] of Object.entries(parts)) {
+    zip.file(name, content);
+  }
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+/**
+ * Overwrite the uncompressed size every central directory record declares
+ */
+function declareUncompressedSize(buffer: Buffer, size: number): Buffer {
+  const patched = Buffer.from(buffer);
+  for (let offset = 0; offset + 46 <= patched.length; offset++) {
+    if (patched.readUInt32LE(offset) === 0x02014b50) {
+      patched.writeUInt32LE(size, offset + 24);
+    }
+  }
+  return patched;
+}
+
+describe('inspectUpload archive limits', () => {
+  it('accepts an ordinary document', async () => {
+    const docx = await buildDocx({ 'word/document.xml': '<w:document>Jane Doe, Software Engineer</w:document>' });
+    await expect(inspectUpload(docx, 'resume.docx')).resolves.toMatchObject({ valid: true, format: 'docx' });
+  });
+
+  it('rejects a part that inflates far beyond its compressed size', async () => {
+    const docx = await buildDocx({ 'word/document.xml': Buffer.alloc(4 * 1024 * 1024) });
+    await expect(inspectUpload(docx, 'resume.docx')).resolves.toMatchObject({
+      valid: false,
+      code: 'ARCHIVE_COMPRESSION_RATIO',
+    });
+  });
+
+  it('measures the inflated data instead of trusting the declared sizes', async () => {
+    const docx = declareUncompressedSize(await buildDocx({ 'word/document.xml': Buffer.alloc(4 * 1024 * 1024) }), 100);
+    await expect(inspectUpload(docx, 'resume.docx')).resolves.toMatchObject({
+      valid: false,
+      code: 'ARCHIVE_COMPRESSION_RATIO',
+    });
+  });
+
+  it('rejects archives whose parts together inflate beyond the total limit', async () => {
+    // Each part stays below the size at which the ratio is checked
+    const part = Buffer.alloc(1000 * 1000);
+    const parts: Record<string, Buffer> = { 'word/document.xml': part };
+    for (let i = 0; i < 55; i++) {
+      parts[`word/media/part${i}.bin`] = part;
+    }
+
+    const docx = declareUncompressedSize(await buildDocx(parts), 100);
+    await expect(inspectUpload(docx, 'resume.docx')).resolves.toMatchObject({
+      valid: false,
+      code: 'ARCHIVE_TOO_LARGE',
+    });
+  });
+});
@@ -0,0 +1,156 @@
+// lib/uploadValidation.ts
+// Content checks for uploaded resumes: type sniffing and resource limits
+import { getConfig } from './config';
+import { detectFormat, ResumeFormat } from './extractors';
+import { matchesDeclaredFormat, measureZipEntry, readZipEntries, sniffFileType, SniffedType } from './fileSniffer';
+import { loadPdfDocument } from './pdfDocument';
+
+/**
+ * Machine-readable reasons for rejecting an upload
+ */
+export type UploadErrorCode =
+  | 'UNSUPPORTED_FORMAT'
+  | 'CONTENT_TYPE_MISMATCH'
+  | 'ENCRYPTED_DOCUMENT'
+  | 'ARCHIVE_TOO_MANY_ENTRIES'
+  | 'ARCHIVE_TOO_LARGE'
+  | 'ARCHIVE_COMPRESSION_RATIO'
+  | 'PDF_TOO_MANY_PAGES'
+  | 'CORRUPTED_FILE';
+
+export type UploadInspection =
+  | { valid: true; format: ResumeFormat; sniffedType: SniffedType; pageCount?: number }
+  | { valid: false; code: UploadErrorCode; error: string; sniffedType?: SniffedType };
+
+// Decompression bomb limits for DOCX/ODT archives
+export const MAX_ARCHIVE_ENTRIES = 1000;
+export const MAX_ARCHIVE_UNCOMPRESSED_SIZE = 50 * 1024 * 1024;
+export const MAX_COMPRESSION_RATIO = 100;
+
+// Entries smaller than this are not checked for their compression ratio
+const RATIO_CHECK_MIN_SIZE = 1024 * 1024;
+
+/**
+ * Check that an upload's content matches its declared type and stays
+ * within resource limits
+ */
+export async function inspectUpload(buffer: Buffer, filename: string): Promise<UploadInspection> {
+  const declared = detectFormat(filename);
+  if (!declared) {
+    return { valid: false, code: 'UNSUPPORTED_FORMAT', error: 'Unsupported file format.' };
+  }
+
+  const sniffedType = sniffFileType(buffer);
+
+  if (sniffedType === 'encrypted-office') {
+    return {
+      valid: false,
+      code: 'ENCRYPTED_DOCUMENT',
+      error: 'The document is password-protected. Please upload an unprotected copy.',
+      sniffedType,
+    };
+  }
+
+  if (!matchesDeclaredFormat(sniffedType, declared)) {
+    return {
+      valid: false,
+      code: 'CONTENT_TYPE_MISMATCH',
+      error: `File content does not match its ${filename.slice(filename.lastIndexOf('.'))} extension.`,
+      sniffedType,
+    };
+  }
+
+  if (declared === 'docx' || declared === 'odt') {
+    const archiveCheck = await checkArchiveLimits(buffer);
+    if (archiveCheck) {
+      return { ...archiveCheck, valid: false, sniffedType };
+    }
+  }
+
+  if (declared === 'pdf') {
+    let pageCount: number;
+    try {
+      const document = await loadPdfDocument(buffer);
+      pageCount = document.numPages;
+      await document.destroy();
+    } catch (error) {
+      if (error instanceof Error && error.name === 'PasswordException') {
+        return {
+          valid: false,
+          code: 'ENCRYPTED_DOCUMENT',
+          error: 'The PDF is password-protected. Please upload an unprotected copy.',
+          sniffedType,
+        };
+      }
+      return { valid: false, code: 'CORRUPTED_FILE', error: 'The PDF file could not be read.', sniffedType };
+    }
+
+    const { maxPdfPages } = getConfig().parsing;
+    if (pageCount > maxPdfPages) {
+      return {
+        valid: false,
+        code: 'PDF_TOO_MANY_PAGES',
+        error: `The PDF has ${pageCount} pages. Resumes may have at most ${maxPdfPages} pages.`,
+        sniffedType,
+      };
+    }
+
+    return { valid: true, format: declared, sniffedType, pageCount };
+  }
+
+  return { valid: true, format: declared, sniffedType };
+}
+
+/**
+ * Decompression bomb limits, measured by inflating every entry: the sizes
+ * in the central directory are chosen by the uploader and prove nothing
+ */
+async function checkArchiveLimits(buffer: Buffer): Promise<{ code: UploadErrorCode; error: string } | null> {
+  let entries;
+  try {
+    entries = readZipEntries(buffer);
+  } catch {
+    return { code: 'CORRUPTED_FILE', error: 'The document archive is corrupted.' };
+  }
+
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    return {
+      code: 'ARCHIVE_TOO_MANY_ENTRIES',
+      error: `The document contains too many parts (${entries.length}).`,
+    };
+  }
+
+  const tooLarge = {
+    code: 'ARCHIVE_TOO_LARGE' as const,
+    error: `The document expands to more than ${MAX_ARCHIVE_UNCOMPRESSED_SIZE / 1024 / 1024}MB.`,
+  };
+  const tooCompressed = {
+    code: 'ARCHIVE_COMPRESSION_RATIO' as const,
+    error: 'The document contains an abnormally compressed part.',
+  };
+
+  let totalSize = 0;
+  for (const entry of entries) {
+    // ZIP64 entries are not supported by the document parsers
+    if (entry.compressedSize === Infinity) {
+      return tooLarge;
+    }
+
+    const remaining = MAX_ARCHIVE_UNCOMPRESSED_SIZE - totalSize;
+    const ratioLimit = Math.max(RATIO_CHECK_MIN_SIZE - 1, Math.max(entry.compressedSize, 1) * MAX_COMPRESSION_RATIO);
+
+    let size: number | null;
+    try {
+      size = await measureZipEntry(buffer, entry, Math.min(remaining, ratioLimit));
+    } catch {
+      return { code: 'CORRUPTED_FILE', error: 'The document archive is corrupted.' };
+    }
+
+    if (size === null) {
+      return ratioLimit < remaining ? tooCompressed : tooLarge;
+    }
+    totalSize += size;
+  }
+
+  return null;
+}
@@ -0,0 +1,263 @@
+// lib/users.ts
+// Local credential store for recruiters and admins. Passwords are kept as
+// salted scrypt hashes.
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import { getConfig } from './config';
+import { JsonCollection } from './jsonStore';
+import { STAFF_ROLES, StaffRole } from './session';
+
+export interface UserRecord {
+  id: string;
+  email: string;
+  name: string;
+  role: StaffRole;
+  /** `scrypt$<salt>$<hash>`, both hex */
+  passwordHash: string;
+  disabled: boolean;
+  /** Raised to sign out existing sessions; absent on older records, i.e. 0 */
+  sessionVersion?: number;
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt?: string;
+}
+
+export type PublicUser = Omit<UserRecord, 'passwordHash'>;
+
+export interface UserInput {
+  email: string;
+  name: string;
+  role: StaffRole;
+  password: string;
+}
+
+export type UserUpdate = Partial<Pick<UserInput, 'name' | 'role' | 'password'>> & { disabled?: boolean };
+
+const MIN_PASSWORD_LENGTH = 12;
+const MAX_NAME_LENGTH = 200;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const KEY_LENGTH = 64;
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const users = new JsonCollection<UserRecord>('users');
+
+/**
+ * Validate the request body for creating a user
+ */
+export function validateUserInput(body: unknown): {
+  valid: boolean;
+  error?: string;
+  input?: UserInput;
+} {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Request body must be a JSON object' };
+  }
+
+  const { email, name, role, password } = body as Record<string, unknown>;
+
+  if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+    return { valid: false, error: 'email must be a valid email address' };
+  }
+
+  const update = validateUserUpdate({ name, role, password });
+  if (!update.valid) {
+    return { valid: false, error: update.error };
+  }
+
+  if (!update.update?.name || !update.update.role || !update.update.password) {
+    return { valid: false, error: 'name, role and password are required' };
+  }
+
+  return {
+    valid: true,
+    input: {
+      email: email.trim().toLowerCase(),
+      name: update.update.name,
+      role: update.update.role,
+      password: update.update.password,
+    },
+  };
+}
+
+/**
+ * Validate the request body for changing a user
+ */
+export function validateUserUpdate(body: unknown): {
+  valid: boolean;
+  error?: string;
+  update?: UserUpdate;
+} {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Request body must be a JSON object' };
+  }
+
+  const { name, role, password, disabled } = body as Record<string, unknown>;
+
+  if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH)) {
+    return { valid: false, error: `name must be a non-empty string (max ${MAX_NAME_LENGTH} characters)` };
+  }
+
+  if (role !== undefined && !STAFF_ROLES.includes(role as StaffRole)) {
+    return { valid: false, error: `role must be one of: ${STAFF_ROLES.join(', ')}` };
+  }
+
+  if (password !== undefined && (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH)) {
+    return { valid: false, error: `password must have at least ${MIN_PASSWORD_LENGTH} characters` };
+  }
+
+  if (disabled !== undefined && typeof disabled !== 'boolean') {
+    return { valid: false, error: 'disabled must be a boolean' };
+  }
+
+  return {
+    valid: true,
+    update: {
+      name: typeof name === 'string' ? name.trim() : undefined,
+      role: role as StaffRole | undefined,
+      password: password as string | undefined,
+      disabled: disabled as boolean | undefined,
+    },
+  };
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, salt, hash] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(password, Buffer.from(salt, 'hex'), expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+export async function createUser(input: UserInput): Promise<UserRecord> {
+  if (await findUserByEmail(input.email)) {
+    throw new Error(`A user with the email ${input.email} already exists`);
+  }
+
+  const now = new Date().toISOString();
+  return users.put({
+    id: uuidv4(),
+    email: input.email,
+    name: input.name,
+    role: input.role,
+    passwordHash: await hashPassword(input.password),
+    disabled: false,
+    sessionVersion: 0,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Apply an update. A new role or a change to `disabled` signs out the
+ * user's existing sessions.
+ */
+export async function updateUser(user: UserRecord, update: UserUpdate): Promise<UserRecord> {
+  const role = update.role ?? user.role;
+  const disabled = update.disabled ?? user.disabled;
+  const sessionVersion = user.sessionVersion ?? 0;
+
+  return users.put({
+    ...user,
+    name: update.name ?? user.name,
+    role,
+    passwordHash: update.password ? await hashPassword(update.password) : user.passwordHash,
+    disabled,
+    sessionVersion: role !== user.role || disabled !== user.disabled ? sessionVersion + 1 : sessionVersion,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export async function getUser(id: string): Promise<UserRecord | null> {
+  return users.get(id);
+}
+
+export async function findUserByEmail(email: string): Promise<UserRecord | null> {
+  const normalized = email.trim().toLowerCase();
+  const all = await users.list();
+  return all.find(user => user.email === normalized) ?? null;
+}
+
+/**
+ * Users sorted by email
+ */
+export async function listUsers(): Promise<UserRecord[]> {
+  const all = await users.list();
+  return all.sort((a, b) => a.email.localeCompare(b.email));
+}
+
+/**
+ * Remove a user; their sessions end with the record
+ */
+export async function deleteUser(id: string): Promise<boolean> {
+  return users.delete(id);
+}
+
+export function toPublicUser(user: UserRecord): PublicUser {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    disabled: user.disabled,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+    lastLoginAt: user.lastLoginAt,
+  };
+}
+
+/**
+ * The active user with these credentials, or null. While the store is
+ * empty, `AUTH_ADMIN_EMAIL` and `AUTH_ADMIN_PASSWORD` create the first
+ * admin on their first login.
+ */
+export async function authenticate(email: string, password: string): Promise<UserRecord | null> {
+  let user = await findUserByEmail(email);
+
+  if (!user) {
+    user = await bootstrapAdmin(email, password);
+  }
+
+  if (!user) {
+    // Hash anyway so that unknown emails take as long as wrong passwords
+    await hashPassword(password);
+    return null;
+  }
+
+  if (user.disabled || !(await verifyPassword(password, user.passwordHash))) {
+    return null;
+  }
+
+  return users.put({ ...user, lastLoginAt: new Date().toISOString() });
+}
+
+async function bootstrapAdmin(email: string, password: string): Promise<UserRecord | null> {
+  const admin = getConfig().auth.bootstrapAdmin;
+
+  if (!admin || email.trim().toLowerCase() !== admin.email) {
+    return null;
+  }
+
+  if ((await users.list()).length > 0) {
+    return null;
+  }
+
+  const expected = crypto.createHash('sha256').update(admin.password).digest();
+  const actual = crypto.createHash('sha256').update(password).digest();
+  if (!crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  console.log(`Creating the first admin user ${admin.email}`);
+  return createUser({ email: admin.email, name: 'Admin', role: 'admin', password: admin.password });
+}
@@ -0,0 +1,260 @@
+// lib/voiceAgent.ts
+// Pluggable voice agent access for interviews: ElevenLabs Conversational
+// AI and a local mock agent for offline development
+import crypto from 'crypto';
+import { getConfig } from './config';
+import type { TranscriptTurn } from './transcripts';
+import { saveVoiceSession } from './voiceSessions';
+import {
+  checkMockVoiceServer,
+  getMockConversation,
+  getMockVoiceServerUrl,
+  MOCK_AGENT_ID,
+  toMockTranscript,
+} from './mockVoiceServer';
+
+export type VoiceProviderName = 'elevenlabs' | 'mock';
+
+/**
+ * What the browser needs to open the voice session
+ */
+export interface VoiceSession {
+  agentId: string;
+  /** WebSocket URL the client SDK connects to; short-lived */
+  signedUrl: string;
+}
+
+/**
+ * What the agent gets for one interview; stays on the server
+ */
+export interface VoiceSessionOptions {
+  interviewId: string;
+  /** Interviewer prompt, replacing the agent's own system prompt */
+  prompt: string;
+  /** Dynamic variables, e.g. `candidate_name` */
+  variables: Record<string, string>;
+}
+
+/**
+ * A conversation as the provider reports it
+ */
+export interface VoiceConversation {
+  id: string;
+  agentId: string;
+  /** Provider call status, e.g. "in-progress", "done" or "failed" */
+  status: string;
+  startedAt?: string;
+  durationSecs?: number;
+  /** The `interview_id` dynamic variable the client started the call with */
+  interviewId?: string;
+  /** Where the call recording can be fetched, if there is one */
+  audioUrl?: string;
+}
+
+export interface VoiceTranscript {
+  conversation: VoiceConversation;
+  turns: TranscriptTurn[];
+}
+
+/**
+ * Pluggable voice agent backend
+ */
+export interface VoiceAgentProvider {
+  name: VoiceProviderName;
+  /** The configured agent */
+  agentId: string;
+  /**
+   * Start a session with the configured agent. The prompt and variables
+   * reach the agent from the server, never through the browser.
+   */
+  createSession(options: VoiceSessionOptions): Promise<VoiceSession>;
+  getSignedUrl(agentId: string): Promise<string>;
+  /**
+   * For sessions whose transcript never arrived by webhook. Returns null
+   * when the provider does not know the conversation.
+   */
+  getTranscript(conversationId: string): Promise<VoiceTranscript | null>;
+  /** Resolves when the backend is reachable and the agent exists */
+  checkHealth(signal: AbortSignal): Promise<void>;
+}
+
+/**
+ * A conversation as returned by the ElevenLabs API and its post-call
+ * webhooks
+ */
+export interface ElevenLabsConversation {
+  agent_id: string;
+  conversation_id: string;
+  status: string;
+  transcript: {
+    role: string;
+    message?: string | null;
+    time_in_call_secs?: number;
+  }[];
+  metadata?: {
+    start_time_unix_secs?: number;
+    call_duration_secs?: number;
+  };
+  has_audio?: boolean;
+  conversation_initiation_client_data?: {
+    dynamic_variables?: Record<string, unknown>;
+  };
+}
+
+const ELEVENLABS_API_URL = 'https://api.elevenlabs.io';
+// Dynamic variable the client passes when starting the conversation
+export const INTERVIEW_ID_VARIABLE = 'interview_id';
+
+/**
+ * ElevenLabs Conversational AI with a private agent; the browser connects
+ * with a signed URL so the API key stays on the server. The agent fetches
+ * the prompt from the conversation initiation webhook by `interview_id`.
+ */
+export class ElevenLabsVoiceProvider implements VoiceAgentProvider {
+  name = 'elevenlabs' as const;
+
+  constructor(
+    private apiKey: string,
+    public agentId: string
+  ) {}
+
+  async createSession({ interviewId, prompt, variables }: VoiceSessionOptions): Promise<VoiceSession> {
+    const signedUrl = await this.getSignedUrl(this.agentId);
+    await saveVoiceSession({ id: interviewId, prompt, variables });
+    return { agentId: this.agentId, signedUrl };
+  }
+
+  async getSignedUrl(agentId: string): Promise<string> {
+    const data = await this.request(`/v1/convai/conversation/get-signed-url?agent_id=${encodeURIComponent(agentId)}`);
+    if (typeof data?.signed_url !== 'string') {
+      throw new Error('ElevenLabs signed URL response has no signed_url');
+    }
+    return data.signed_url;
+  }
+
+  async getTranscript(conversationId: string): Promise<VoiceTranscript | null> {
+    const data = await this.request(`/v1/convai/conversations/${encodeURIComponent(conversationId)}`, true);
+    return data ? toVoiceTranscript(data as ElevenLabsConversation) : null;
+  }
+
+  async checkHealth(signal: AbortSignal): Promise<void> {
+    const response = await fetch(`${ELEVENLABS_API_URL}/v1/convai/agents/${encodeURIComponent(this.agentId)}`, {
+      headers: { 'xi-api-key': this.apiKey },
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`ElevenLabs health check failed: ${response.status}`);
+    }
+  }
+
+  private async request(path: string, allowNotFound = false) {
+    const response = await fetch(`${ELEVENLABS_API_URL}${path}`, {
+      headers: { 'xi-api-key': this.apiKey },
+    });
+
+    if (allowNotFound && response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`ElevenLabs request failed: ${response.status} ${(await response.text()).slice(0, 500)}`);
+    }
+    return response.json();
+  }
+}
+
+/**
+ * Scripted interviewer served by the local mock WebSocket server (see
+ * mockVoiceServer.ts). It speaks the ElevenLabs protocol, so the client
+ * SDK connects to it like to the real service.
+ */
+export class MockVoiceProvider implements VoiceAgentProvider {
+  name = 'mock' as const;
+  agentId = MOCK_AGENT_ID;
+
+  async createSession({ interviewId, prompt, variables }: VoiceSessionOptions): Promise<VoiceSession> {
+    // Only the holder of the signed URL can open the session
+    const token = crypto.randomBytes(24).toString('base64url');
+    await saveVoiceSession({ id: interviewId, prompt, variables, token });
+
+    const signedUrl = new URL(await this.getSignedUrl(MOCK_AGENT_ID));
+    signedUrl.searchParams.set(INTERVIEW_ID_VARIABLE, interviewId);
+    signedUrl.searchParams.set('token', token);
+    return { agentId: MOCK_AGENT_ID, signedUrl: signedUrl.toString() };
+  }
+
+  async getSignedUrl(agentId: string): Promise<string> {
+    return `${getMockVoiceServerUrl()}/v1/convai/conversation?agent_id=${encodeURIComponent(agentId)}`;
+  }
+
+  async getTranscript(conversationId: string): Promise<VoiceTranscript | null> {
+    const record = await getMockConversation(conversationId);
+    return record ? toMockTranscript(record) : null;
+  }
+
+  async checkHealth(signal: AbortSignal): Promise<void> {
+    await checkMockVoiceServer(signal);
+  }
+}
+
+/**
+ * Convert an ElevenLabs conversation to the provider-neutral transcript,
+ * keeping the agent's and the candidate's non-empty turns
+ */
+export function toVoiceTranscript(data: ElevenLabsConversation): VoiceTranscript {
+  const turns: TranscriptTurn[] = data.transcript
+    .map(turn => ({ role: turn.role, message: turn.message?.trim(), timeInCallSecs: turn.time_in_call_secs ?? 0 }))
+    .filter((turn): turn is TranscriptTurn => (turn.role === 'agent' || turn.role === 'user') && !!turn.message);
+
+  const interviewId = data.conversation_initiation_client_data?.dynamic_variables?.[INTERVIEW_ID_VARIABLE];
+
+  return {
+    conversation: {
+      id: data.conversation_id,
+      agentId: data.agent_id,
+      status: data.status,
+      startedAt: data.metadata?.start_time_unix_secs
+        ? new Date(data.metadata.start_time_unix_secs * 1000).toISOString()
+        : undefined,
+      durationSecs: data.metadata?.call_duration_secs,
+      interviewId: typeof interviewId === 'string' ? interviewId : undefined,
+      audioUrl: data.has_audio === false
+        ? undefined
+        : `${ELEVENLABS_API_URL}/v1/convai/conversations/${data.conversation_id}/audio`,
+    },
+    turns,
+  };
+}
+
+let voiceAgentProvider: VoiceAgentProvider | null = null;
+
+/**
+ * Replace the voice backend, e.g. with a different vendor
+ */
+export function setVoiceAgentProvider(provider: VoiceAgentProvider): void {
+  voiceAgentProvider = provider;
+}
+
+/**
+ * The configured provider. `VOICE_PROVIDER=elevenlabs` (the default when
+ * `ELEVENLABS_API_KEY` is set) uses `ELEVENLABS_AGENT_ID`; otherwise the
+ * mock agent is used.
+ */
+export function getVoiceAgentProvider(): VoiceAgentProvider {
+  voiceAgentProvider ??= createVoiceAgentProvider();
+  return voiceAgentProvider;
+}
+
+/**
+ * Which backend `getVoiceAgentProvider` will use
+ */
+export function getVoiceProviderName(): VoiceProviderName {
+  return getConfig().voice.provider;
+}
+
+function createVoiceAgentProvider(): VoiceAgentProvider {
+  const { voice } = getConfig();
+  return voice.provider === 'elevenlabs'
+    ? new ElevenLabsVoiceProvider(voice.apiKey, voice.agentId)
+    : new MockVoiceProvider();
+}
@@ -0,0 +1,32 @@
+// lib/voiceSessions.ts
+// The interviewer prompt of each voice session, kept on the server. The
+// agent receives it from here when the call starts (see
+// /api/webhooks/elevenlabs/conversation-init and mockVoiceServer.ts), so
+// the browser only ever gets the signed URL.
+import { JsonCollection } from './jsonStore';
+
+export interface VoiceSessionRecord {
+  /** Interview session ID */
+  id: string;
+  /** Interviewer prompt built by formatResumeForAI */
+  prompt: string;
+  /** Dynamic variables for the agent, e.g. `candidate_name` */
+  variables: Record<string, string>;
+  /** Mock agent: secret in the signed URL that opens this session */
+  token?: string;
+  createdAt: string;
+}
+
+const sessions = new JsonCollection<VoiceSessionRecord>('voice-sessions');
+
+export async function saveVoiceSession(record: Omit<VoiceSessionRecord, 'createdAt'>): Promise<VoiceSessionRecord> {
+  return sessions.put({ ...record, createdAt: new Date().toISOString() });
+}
+
+export async function getVoiceSession(interviewId: string): Promise<VoiceSessionRecord | null> {
+  return sessions.get(interviewId);
+}
+
+export async function deleteVoiceSession(interviewId: string): Promise<boolean> {
+  return sessions.delete(interviewId);
+}
@@ -0,0 +1,19 @@
+import LoginForm from '../components/LoginForm';
+import { safeNextPath } from '../lib/accessControl';
+import { getOidcConfig } from '../lib/oidc';
+
+export const dynamic = 'force-dynamic';
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string; error?: string }>;
+}) {
+  const { next, error } = await searchParams;
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-12">
+      <LoginForm next={safeNextPath(next, '/dashboard')} error={error} sso={getOidcConfig() !== null} />
+    </main>
+  );
+}
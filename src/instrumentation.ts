@@ -0,0 +1,23 @@
+// instrumentation.ts
+// Runs once when the server starts
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Stops startup with every invalid setting listed, instead of failing
+    // on the first request that needs one
+    const { getConfig } = await import('./app/lib/config');
+    getConfig();
+
+    const { startRetentionSchedule } = await import('./app/lib/retention');
+    startRetentionSchedule();
+
+    const { getVoiceProviderName } = await import('./app/lib/voiceAgent');
+    if (getVoiceProviderName() === 'mock') {
+      if (process.env.NODE_ENV === 'production') {
+        console.warn('VOICE_PROVIDER=mock: voice interviews use the scripted mock agent');
+      }
+      const { startMockVoiceServer } = await import('./app/lib/mockVoiceServer');
+      startMockVoiceServer();
+    }
+  }
+}
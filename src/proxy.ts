@@ -0,0 +1,36 @@
+// proxy.ts
+// Authenticates and authorizes every API request and dashboard page
+// against the policies in lib/accessControl
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from './app/lib/accessControl';
+import { readSession } from './app/lib/session';
+
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const decision = authorize(await readSession(request), request.method, pathname);
+
+  if (decision.allowed) {
+    return NextResponse.next();
+  }
+
+  // A malformed path is not fixed by signing in
+  if (pathname.startsWith('/api/') || decision.status === 400) {
+    return NextResponse.json(
+      { success: false, code: decision.code, error: decision.error },
+      { status: decision.status }
+    );
+  }
+
+  // Pages send the user to the login form and back afterwards
+  const login = new URL('/login', request.url);
+  login.searchParams.set('next', `${pathname}${search}`);
+  if (decision.status === 403) {
+    login.searchParams.set('error', 'forbidden');
+  }
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: ['/api/:path*', '/dashboard/:path*'],
+};